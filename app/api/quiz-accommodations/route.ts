@@ -0,0 +1,73 @@
+// app/api/quiz-accommodations/route.ts
+import { NextResponse } from 'next/server';
+import authorizedStudents from '@/data/authorized_students.json';
+import { readJsonBody } from '@/lib/api-validation';
+import { quizAccommodations } from '@/lib/quiz-accommodations';
+import { quizCatalog } from '@/lib/quiz-catalog';
+import { getClientIp, rateLimitedResponse, rateLimiter, rateLimitMessage } from '@/lib/rate-limiter';
+import { QuizStudentRequestSchema } from '@/types/quiz';
+
+/**
+ * Preview the time limit a student would get, so it can be confirmed before the session starts.
+ */
+export async function POST(request: Request) {
+    const body = await readJsonBody(request, QuizStudentRequestSchema);
+
+    if (!body.success) {
+        return NextResponse.json({ success: false, error: body.error }, { status: 400 });
+    }
+
+    try {
+        const { registrationCode, quizId } = body.data;
+
+        if (!registrationCode || !quizId) {
+            return NextResponse.json(
+                { success: false, error: 'Registration code and quiz are required.' },
+                { status: 400 }
+            );
+        }
+
+        // --- RATE LIMIT ---
+        const clientIp = getClientIp(request);
+        const rateLimit = rateLimiter.check('quiz-accommodations', clientIp, registrationCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit) });
+        }
+
+        if (!authorizedStudents[registrationCode as keyof typeof authorizedStudents]) {
+            console.error(`🛑 [QuizAccommodations API] Time limit request with unknown code ${registrationCode}.`);
+            rateLimiter.recordInvalidCode('quiz-accommodations', clientIp, registrationCode);
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'You are trying to start a quiz with a registration code not recognised by any of our partner institutions.',
+                },
+                { status: 403 }
+            );
+        }
+
+        const quiz = await quizCatalog.getQuiz(quizId);
+
+        if (!quiz) {
+            return NextResponse.json(
+                { success: false, error: 'The requested quiz was not found. Please reload the quiz list.' },
+                { status: 404 }
+            );
+        }
+
+        const limits = await quizAccommodations.getTimeLimit(registrationCode, quiz);
+
+        return NextResponse.json({ success: true, ...limits });
+    } catch (error) {
+        console.error('❌ [QuizAccommodations API] Failed to compute time limit:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Failed to compute time limit',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
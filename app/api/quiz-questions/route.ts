@@ -1,11 +1,44 @@
 // app/api/quiz-questions/route.ts
 import { NextResponse } from 'next/server';
-import { quizFileProcessor, isGoogleDriveConfigured, getCurrentQuizNumber } from '@/lib/quiz-file-processor';
+import { quizFileProcessor, isGoogleDriveConfigured } from '@/lib/quiz-file-processor';
+import { quizCatalog, toPublicQuizInfo } from '@/lib/quiz-catalog';
+import { countDrawnQuestions } from '@/lib/quiz-question-pools';
+import { readSearchParams } from '@/lib/api-validation';
+import { QuizQuestionsQuerySchema } from '@/types/quiz';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const quizNumber = getCurrentQuizNumber();
-    //console.log(`🔍 [QuizQuestions API] Starting quiz questions download for Quiz ${quizNumber}`);
+    const query = readSearchParams(request, QuizQuestionsQuerySchema);
+
+    if (!query.success) {
+      return NextResponse.json({ success: false, error: query.error }, { status: 400 });
+    }
+
+    const { quizId } = query.data;
+
+    if (!quizId) {
+      return NextResponse.json(
+        { success: false, error: 'A quizId query parameter is required.' },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await quizCatalog.getQuiz(quizId);
+
+    if (!quiz) {
+      return NextResponse.json(
+        { success: false, error: `Quiz '${quizId}' was not found in the quiz catalog.` },
+        { status: 404 }
+      );
+    }
+
+    if (!quizCatalog.isOpen(quiz)) {
+      return NextResponse.json(
+        { success: false, error: `${quiz.title} is not currently open.`, quiz: toPublicQuizInfo(quiz) },
+        { status: 403 }
+      );
+    }
+    //console.log(`🔍 [QuizQuestions API] Starting quiz questions download for ${quiz.title}`);
     
     // Check if Google Drive is configured
     if (!isGoogleDriveConfigured()) {
@@ -19,31 +52,31 @@ export async function GET() {
       );
     }
 
-    //console.log(`🔍 [QuizQuestions API] Google Drive configured, attempting CSV download for Quiz ${quizNumber}`);
-    const result = await quizFileProcessor.downloadQuizQuestions();
+    //console.log(`🔍 [QuizQuestions API] Google Drive configured, attempting CSV download for ${quiz.title}`);
+    const result = await quizFileProcessor.downloadQuizQuestions(quiz);
     
     if (result.success && result.questions.length > 0) {
-      //console.log(`✅ [QuizQuestions API] Successfully loaded ${result.questions.length} questions for Quiz ${quizNumber}`);
+      //console.log(`✅ [QuizQuestions API] Successfully loaded ${result.questions.length} questions for ${quiz.title}`);
       
       return NextResponse.json({
         success: true,
-        questions: result.questions,
-        total: result.questions.length,
-        quizNumber: quizNumber,
+        // Questions are drawn per student when the session starts, so only a summary is sent here
+        total: countDrawnQuestions(result.questions),
+        categories: [...new Set(result.questions.map(question => question.Category))],
+        quiz: toPublicQuizInfo(quiz),
         source: 'google_drive_csv',
         timestamp: new Date().toISOString()
       });
     } else {
-      //console.error(`❌ [QuizQuestions API] Quiz ${quizNumber} download failed:`, result.errors);
+      //console.error(`❌ [QuizQuestions API] ${quiz.title} download failed:`, result.errors);
       
       return NextResponse.json(
         {
           success: false,
-          error: `Failed to load quiz questions for Quiz ${quizNumber}`,
+          error: `Failed to load quiz questions for ${quiz.title}`,
           details: result.errors.join(', '),
-          questions: [],
           total: 0,
-          quizNumber: quizNumber,
+          quiz: toPublicQuizInfo(quiz),
           source: 'google_drive_csv_failed'
         },
         { status: 500 }
@@ -57,7 +90,6 @@ export async function GET() {
         success: false,
         error: 'Failed to load quiz questions',
         details: error instanceof Error ? error.message : 'Unknown error',
-        questions: [],
         total: 0,
         source: 'error'
       },
@@ -0,0 +1,105 @@
+// app/api/quiz-results/route.ts
+import { NextResponse } from 'next/server';
+import authorizedStudents from '@/data/authorized_students.json';
+import { readJsonBody } from '@/lib/api-validation';
+import { quizCatalog } from '@/lib/quiz-catalog';
+import { isGoogleSheetsConfigured, quizFileProcessor } from '@/lib/quiz-file-processor';
+import { getClientIp, rateLimitedResponse, rateLimiter, rateLimitMessage } from '@/lib/rate-limiter';
+import { QuizStudentRequestSchema } from '@/types/quiz';
+
+/**
+ * Return a student's graded submission for a quiz whose results have been released.
+ */
+export async function POST(request: Request) {
+    const body = await readJsonBody(request, QuizStudentRequestSchema);
+
+    if (!body.success) {
+        return NextResponse.json({ success: false, error: body.error }, { status: 400 });
+    }
+
+    try {
+        const { registrationCode, quizId } = body.data;
+
+        if (!registrationCode || !quizId) {
+            return NextResponse.json(
+                { success: false, error: 'Registration code and quiz are required.' },
+                { status: 400 }
+            );
+        }
+
+        // --- RATE LIMIT ---
+        const clientIp = getClientIp(request);
+        const rateLimit = rateLimiter.check('quiz-results', clientIp, registrationCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit) });
+        }
+
+        if (!authorizedStudents[registrationCode as keyof typeof authorizedStudents]) {
+            console.error(`🛑 [QuizResults API] Results request with unknown code ${registrationCode}.`);
+            rateLimiter.recordInvalidCode('quiz-results', clientIp, registrationCode);
+            return NextResponse.json(
+                { success: false, error: 'This registration code is not recognised by any of our partner institutions.' },
+                { status: 403 }
+            );
+        }
+
+        const quiz = await quizCatalog.getQuiz(quizId);
+
+        if (!quiz) {
+            return NextResponse.json(
+                { success: false, error: 'The requested quiz was not found.' },
+                { status: 404 }
+            );
+        }
+
+        if (!quiz.resultsReleased) {
+            return NextResponse.json(
+                { success: false, error: `Results for ${quiz.title} have not been released yet.`, code: 'RESULTS_NOT_RELEASED' },
+                { status: 403 }
+            );
+        }
+
+        if (!isGoogleSheetsConfigured()) {
+            return NextResponse.json(
+                { success: false, error: 'Google Sheets not configured. Please check server configuration.' },
+                { status: 500 }
+            );
+        }
+
+        const result = await quizFileProcessor.getQuizResult(
+            registrationCode,
+            process.env.NEXT_PUBLIC_GOOGLE_TEST_SHEET_ID ?? '',
+            quiz
+        );
+
+        if (!result) {
+            return NextResponse.json(
+                { success: false, error: `No submission for ${quiz.title} was found for this registration code.`, code: 'NO_SUBMISSION' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            result: {
+                ...result,
+                // Model answers stay hidden unless mentors chose to publish them
+                questions: result.questions.map(question => ({
+                    ...question,
+                    modelAnswer: quiz.showModelAnswers ? question.modelAnswer : null,
+                })),
+            },
+        });
+    } catch (error) {
+        console.error('❌ [QuizResults API] Failed to load quiz results:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Failed to load quiz results',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
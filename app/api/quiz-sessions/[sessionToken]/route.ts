@@ -0,0 +1,113 @@
+// app/api/quiz-sessions/[sessionToken]/route.ts
+import { NextResponse } from 'next/server';
+import { readJsonBody } from '@/lib/api-validation';
+import { quizCatalog } from '@/lib/quiz-catalog';
+import { quizFileProcessor } from '@/lib/quiz-file-processor';
+import { quizSessionStore, type SessionLookupError } from '@/lib/quiz-session-store';
+import { getClientIp, rateLimitedResponse, rateLimiter, rateLimitMessage } from '@/lib/rate-limiter';
+import { SaveAnswersRequestSchema } from '@/types/quiz';
+
+// Every answer at once stays far below this; anything larger is not a quiz in progress
+const MAX_SAVE_BODY_BYTES = 512 * 1024;
+
+interface RouteContext {
+    params: Promise<{ sessionToken: string }>;
+}
+
+const lookupErrorResponse = (error: SessionLookupError) => {
+    return error === 'INVALID_TOKEN'
+        ? NextResponse.json({ success: false, error: 'Invalid quiz session token.' }, { status: 401 })
+        : NextResponse.json({ success: false, error: 'Quiz session not found. Please start the quiz again.' }, { status: 404 });
+};
+
+/**
+ * Return the authoritative timing, question order and saved answers for a session.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { sessionToken } = await params;
+    const { session, error } = await quizSessionStore.getSessionByToken(decodeURIComponent(sessionToken));
+
+    if (!session) {
+        return lookupErrorResponse(error ?? 'SESSION_NOT_FOUND');
+    }
+
+    // Questions are resolved from the stored ids so a resumed attempt sees the same set in the same order
+    const quiz = await quizCatalog.getQuiz(session.quizId);
+    const questions = quiz
+        ? await quizFileProcessor.getQuestionsById(quiz, session.questionIds ?? []).catch((loadError) => {
+            // The browser keeps its own copy of the questions, so timing and answers are still useful
+            console.error(`❌ [QuizSessions API] Failed to load questions for session ${session.sessionId}:`, loadError);
+            return [];
+        })
+        : [];
+
+    return NextResponse.json({
+        success: true,
+        sessionId: session.sessionId,
+        registrationCode: session.registrationCode,
+        quizId: session.quizId,
+        quizTitle: quiz?.title ?? session.quizId,
+        questions: quizFileProcessor.redactQuestions(questions),
+        startTime: session.startTime,
+        timeLimit: session.timeLimit,
+        extraTime: session.extraTime ?? 0,
+        lateWindow: session.lateWindow ?? 0,
+        answers: session.answers,
+        submitted: session.submitted,
+        serverTime: Date.now(),
+    });
+}
+
+/**
+ * Persist incremental answers while the quiz is in progress.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+    const { sessionToken } = await params;
+    const { session, error } = await quizSessionStore.getSessionByToken(decodeURIComponent(sessionToken));
+
+    if (!session) {
+        return lookupErrorResponse(error ?? 'SESSION_NOT_FOUND');
+    }
+
+    const rateLimit = rateLimiter.check('quiz-session-answers', getClientIp(request), session.registrationCode);
+
+    if (!rateLimit.allowed) {
+        return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit) });
+    }
+
+    const body = await readJsonBody(request, SaveAnswersRequestSchema, MAX_SAVE_BODY_BYTES);
+
+    if (!body.success) {
+        return NextResponse.json({ success: false, error: body.error }, { status: body.tooLarge ? 413 : 400 });
+    }
+
+    if (session.submitted) {
+        return NextResponse.json(
+            { success: false, error: 'This quiz session has already been submitted.' },
+            { status: 409 }
+        );
+    }
+
+    if (!quizSessionStore.isWithinTimeLimit(session)) {
+        return NextResponse.json(
+            { success: false, error: 'The time limit for this quiz session has expired.', code: 'TIME_LIMIT_EXCEEDED' },
+            { status: 403 }
+        );
+    }
+
+    // Only answers to the questions drawn for this student are kept, as at submission
+    const issuedIds = new Set(session.questionIds ?? []);
+    const sanitizedAnswers = Object.fromEntries(
+        Object.entries(body.data.answers)
+            .filter(([questionId]) => questionId.trim() && (issuedIds.size === 0 || issuedIds.has(questionId)))
+    );
+
+    const updated = await quizSessionStore.saveAnswers(session, sanitizedAnswers);
+
+    return NextResponse.json({
+        success: true,
+        savedCount: Object.keys(sanitizedAnswers).length,
+        lastSavedAt: updated.lastSavedAt,
+        serverTime: Date.now(),
+    });
+}
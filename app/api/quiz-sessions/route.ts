@@ -0,0 +1,132 @@
+// app/api/quiz-sessions/route.ts
+import { NextResponse } from 'next/server';
+import authorizedStudents from '@/data/authorized_students.json';
+import { readJsonBody } from '@/lib/api-validation';
+import { quizAccommodations } from '@/lib/quiz-accommodations';
+import { quizCatalog, toPublicQuizInfo } from '@/lib/quiz-catalog';
+import { quizFileProcessor } from '@/lib/quiz-file-processor';
+import { sampleQuestionsForStudent } from '@/lib/quiz-question-pools';
+import { quizSessionStore } from '@/lib/quiz-session-store';
+import { getClientIp, rateLimitedResponse, rateLimiter, rateLimitMessage } from '@/lib/rate-limiter';
+import { QuizStudentRequestSchema } from '@/types/quiz';
+
+export async function POST(request: Request) {
+    const body = await readJsonBody(request, QuizStudentRequestSchema);
+
+    if (!body.success) {
+        return NextResponse.json({ success: false, error: body.error }, { status: 400 });
+    }
+
+    try {
+        const { registrationCode, quizId } = body.data;
+
+        if (!registrationCode) {
+            return NextResponse.json(
+                { success: false, error: 'Registration code is required to start a quiz session.' },
+                { status: 400 }
+            );
+        }
+
+        // --- RATE LIMIT ---
+        const clientIp = getClientIp(request);
+        const rateLimit = rateLimiter.check('quiz-sessions', clientIp, registrationCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit) });
+        }
+
+        const quiz = quizId ? await quizCatalog.getQuiz(quizId) : null;
+
+        if (!quiz) {
+            return NextResponse.json(
+                { success: false, error: 'The requested quiz was not found. Please reload the quiz list.' },
+                { status: 404 }
+            );
+        }
+
+        const now = Date.now();
+
+        if (!quizCatalog.isOpen(quiz, now)) {
+            return NextResponse.json(
+                { success: false, error: `${quiz.title} is not currently open.`, quiz: toPublicQuizInfo(quiz, now) },
+                { status: 403 }
+            );
+        }
+
+        const studentName = authorizedStudents[registrationCode as keyof typeof authorizedStudents];
+
+        if (!studentName) {
+            console.error(`🛑 [QuizSessions API] Session request with unknown code ${registrationCode}.`);
+            rateLimiter.recordInvalidCode('quiz-sessions', clientIp, registrationCode);
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'You are trying to start a quiz with a registration code not recognised by any of our partner institutions.',
+                },
+                { status: 403 }
+            );
+        }
+
+        // One attempt per student: a lost tab gets the running attempt back with its clock, and a
+        // finished or expired attempt is never replaced by a new one with a fresh clock
+        const { session, token, created } = await quizSessionStore.startSession(registrationCode, quiz.id, async () => {
+            const limits = await quizAccommodations.getTimeLimit(registrationCode, quiz, now);
+
+            if (limits.extraTime > 0 || limits.lateWindow > 0) {
+                console.log(`♿ [QuizSessions API] Applying accommodation for ${registrationCode}: +${Math.round(limits.extraTime / 60000)} min, late window ${Math.round(limits.lateWindow / 60000)} min.`);
+            }
+
+            // Each student gets their own draw from the question pools; the same code always gets the same set
+            const questions = sampleQuestionsForStudent(await quizFileProcessor.getAnswerKey(quiz), quiz.id, registrationCode);
+            return { limits, questionIds: questions.map(question => question.id) };
+        });
+
+        if (!created && session.submitted) {
+            console.warn(`🛑 [QuizSessions API] ${registrationCode} asked to restart submitted session ${session.sessionId}.`);
+            return NextResponse.json(
+                { success: false, error: 'You have already submitted this quiz.' },
+                { status: 409 }
+            );
+        }
+
+        if (!created && !quizSessionStore.isWithinTimeLimit(session, now)) {
+            console.warn(`🛑 [QuizSessions API] ${registrationCode} asked to restart expired session ${session.sessionId}.`);
+            return NextResponse.json(
+                { success: false, error: 'The time limit for your attempt at this quiz has expired.', code: 'TIME_LIMIT_EXCEEDED' },
+                { status: 409 }
+            );
+        }
+
+        if (!created) {
+            console.log(`🔁 [QuizSessions API] Resuming session ${session.sessionId} for ${registrationCode}.`);
+        }
+
+        const questions = await quizFileProcessor.getQuestionsById(quiz, session.questionIds ?? []);
+
+        return NextResponse.json({
+            success: true,
+            ...(created ? {} : { resumed: true }),
+            sessionToken: token,
+            sessionId: session.sessionId,
+            registrationCode: session.registrationCode,
+            quiz: toPublicQuizInfo(quiz),
+            questions: quizFileProcessor.redactQuestions(questions),
+            answers: session.answers,
+            startTime: session.startTime,
+            timeLimit: session.timeLimit,
+            extraTime: session.extraTime ?? 0,
+            lateWindow: session.lateWindow ?? 0,
+            serverTime: Date.now(),
+        });
+    } catch (error) {
+        console.error('❌ [QuizSessions API] Failed to create quiz session:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Failed to start quiz session',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+// app/api/quizzes/route.ts
+import { NextResponse } from 'next/server';
+import { quizCatalog, toPublicQuizInfo } from '@/lib/quiz-catalog';
+
+/**
+ * List catalog quizzes with their availability, so the client can show
+ * open quizzes, count down to upcoming ones, or say that a quiz has closed.
+ */
+export async function GET() {
+  try {
+    const now = Date.now();
+    const quizzes = (await quizCatalog.getQuizzes()).map(quiz => toPublicQuizInfo(quiz, now));
+
+    return NextResponse.json({
+      success: true,
+      quizzes,
+      total: quizzes.length,
+      serverTime: now,
+      timestamp: new Date(now).toISOString()
+    });
+  } catch (error) {
+    console.error('❌ [Quizzes API] Error loading quiz catalog:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load quiz catalog',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        quizzes: [],
+        total: 0
+      },
+      { status: 500 }
+    );
+  }
+}
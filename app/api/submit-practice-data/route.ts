@@ -3,6 +3,9 @@ import { GoogleSpreadsheet } from 'google-spreadsheet';
 import { JWT } from 'google-auth-library';
 import { NextResponse } from 'next/server';
 import authorizedStudents from '@/data/authorized_students.json';
+import { getClientIp, rateLimiter, rateLimitedResponse, rateLimitMessage } from '@/lib/rate-limiter';
+import { readJsonBody } from '@/lib/api-validation';
+import { PracticeDataPayloadSchema } from '@/types/practice';
 
 const SPREADSHEET_ID = process.env.NEXT_PUBLIC_GOOGLE_PRACTICE_SHEET_ID;
 const SERVICE_ACCOUNT_EMAIL = process.env.NEXT_PUBLIC_GOOGLE_CLIENT_EMAIL;
@@ -18,7 +21,7 @@ const auth = (SERVICE_ACCOUNT_EMAIL && PRIVATE_KEY) ? new JWT({
     scopes: SCOPES,
 }) : null;
 
-// --- Interfaces and Utility Functions (Unchanged) ---
+// --- Interfaces and Utility Functions ---
 
 interface SheetRowData {
     [key: string]: any;
@@ -34,57 +37,6 @@ interface SheetRowData {
     totalFirstTrialSuccess: number;
     attempts: string;
 }
-interface PracticeDataPayload {
-    sessionId: string;
-    registrationCode: string | null;
-    category: string;
-    startTime: Date | string;
-    endTime: Date | string;
-    totalChallenges: number;
-    totalTimeSeconds: number;
-    totalQuestionsCompleted: number;
-    totalDontKnows: number;
-    totalFirstTrialSuccess: number;
-    attempts: any[];
-}
-
-// Utility function to safely convert to Date and then to ISO string
-const safeToISOString = (dateValue: Date | string): string => {
-    try {
-        if (dateValue instanceof Date) {
-            return dateValue.toISOString();
-        } else if (typeof dateValue === 'string') {
-            const date = new Date(dateValue);
-            if (!isNaN(date.getTime())) {
-                return date.toISOString();
-            } else {
-                return new Date().toISOString();
-            }
-        } else {
-            return new Date().toISOString();
-        }
-    } catch (error) {
-        return new Date().toISOString();
-    }
-};
-
-// Sanitize the payload to ensure all dates are properly handled
-const sanitizePayload = (payload: any): PracticeDataPayload => {
-    return {
-        ...payload,
-        startTime: safeToISOString(payload.startTime),
-        endTime: safeToISOString(payload.endTime),
-        sessionId: payload.sessionId || `session-${Date.now()}`,
-        registrationCode: payload.registrationCode || null,
-        category: payload.category || 'Unknown',
-        totalChallenges: Number(payload.totalChallenges) || 0,
-        totalTimeSeconds: Number(payload.totalTimeSeconds) || 0,
-        totalQuestionsCompleted: Number(payload.totalQuestionsCompleted) || 0,
-        totalDontKnows: Number(payload.totalDontKnows) || 0,
-        totalFirstTrialSuccess: Number(payload.totalFirstTrialSuccess) || 0,
-        attempts: Array.isArray(payload.attempts) ? payload.attempts : [],
-    };
-};
 
 async function sendGroupNotification(studentName: string, category: string) {
     const whatsappUrl = process.env.NEXT_PUBLIC_WHATSAPP_SERVICE_URL; 
@@ -126,15 +78,21 @@ export async function POST(request: Request) {
     const { searchParams } = new URL(request.url);
     const useSheet = searchParams.get('useSheet') === 'true';
 
+    const body = await readJsonBody(request, PracticeDataPayloadSchema);
+
+    if (!body.success) {
+        console.error('🛑 [Practice API] Submission rejected: Invalid payload.', body.error);
+        return NextResponse.json({ success: false, error: body.error }, { status: 400 });
+    }
+
     try {
-        const rawPayload = await request.json();
-        const sanitizedPayload = sanitizePayload(rawPayload);
-        const registrationCode = sanitizedPayload.registrationCode;
+        const sanitizedPayload = body.data;
+        const registrationCode = sanitizedPayload.registrationCode?.trim();
         
         // --- 1. REGISTRATION CODE VALIDATION ---
         
-        // Ensure registrationCode is present and is a string
-        if (!registrationCode || typeof registrationCode !== 'string') {
+        // Ensure registrationCode is present
+        if (!registrationCode) {
             console.error('🛑 [Practice API] Submission rejected: Missing registration code.');
             return NextResponse.json(
                 { success: false, error: 'Registration code is required for practice submission.' },
@@ -142,11 +100,19 @@ export async function POST(request: Request) {
             );
         }
 
+        const clientIp = getClientIp(request);
+        const rateLimit = rateLimiter.check('submit-practice-data', clientIp, registrationCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit) });
+        }
+
         const studentName = authorizedStudents[registrationCode as keyof typeof authorizedStudents];
         const isAuthorized = !!studentName;
 
         if (!isAuthorized) {
             console.error(`🛑 [Practice API] Unauthorized submission attempt: Code ${registrationCode} not found.`);
+            rateLimiter.recordInvalidCode('submit-practice-data', clientIp, registrationCode);
             return NextResponse.json(
                 { success: false, error: "Registration code not recognized by our partner institutions." },
                 { status: 403 }
@@ -162,8 +128,8 @@ export async function POST(request: Request) {
             sessionId: sanitizedPayload.sessionId,
             registrationCode: registrationCode, // Use the validated code
             category: sanitizedPayload.category,
-            startTime: sanitizedPayload.startTime as string,
-            endTime: sanitizedPayload.endTime as string,
+            startTime: sanitizedPayload.startTime.toISOString(),
+            endTime: sanitizedPayload.endTime.toISOString(),
             totalChallenges: sanitizedPayload.totalChallenges,
             totalTimeSeconds: sanitizedPayload.totalTimeSeconds,
             totalQuestionsCompleted: sanitizedPayload.totalQuestionsCompleted,
@@ -234,9 +200,6 @@ export async function POST(request: Request) {
             } else if (error.message.includes('NOT_FOUND')) {
                 errorMessage = 'Spreadsheet not found - check SPREADSHEET_ID';
                 statusCode = 404;
-            } else if (error.message.includes('toISOString')) {
-                errorMessage = 'Date conversion failed - invalid date format';
-                statusCode = 400;
             }
         }
         
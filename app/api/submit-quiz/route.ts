@@ -1,6 +1,12 @@
 // app/api/submit-quiz/route.ts
 import { NextResponse } from 'next/server';
-import { quizFileProcessor, isGoogleSheetsConfigured, getCurrentQuizNumber } from '@/lib/quiz-file-processor';
+import { quizFileProcessor, isGoogleSheetsConfigured } from '@/lib/quiz-file-processor';
+import { quizCatalog } from '@/lib/quiz-catalog';
+import { quizSessionStore, getSubmissionGraceMs } from '@/lib/quiz-session-store';
+import { quizGrader } from '@/lib/quiz-grader';
+import { getClientIp, rateLimiter, rateLimitedResponse, rateLimitMessage } from '@/lib/rate-limiter';
+import { readJsonBody } from '@/lib/api-validation';
+import { QuizSubmissionRequestSchema, type QuizSubmission } from '@/types/quiz';
 import authorizedStudents from '@/data/authorized_students.json';
 
 // --- CONSTANT FOR ERROR CHECKING ---
@@ -48,29 +54,28 @@ async function sendGroupNotification(studentName: string, quizName: string) {
 // MAIN POST HANDLER (FIXED)
 // ----------------------------------------------------------------------
 export async function POST(request: Request) {
-    let submissionData: any;
+    // 1. DEDICATED BLOCK FOR BODY PARSING AND VALIDATION
+    const body = await readJsonBody(request, QuizSubmissionRequestSchema);
+
+    if (!body.success) {
+        // This catches malformed JSON, an empty body and fields of the wrong type.
+        console.error('🛑 [SubmitQuiz API] Invalid submission body:', body.error);
 
-    // 1. DEDICATED BLOCK FOR JSON BODY PARSING
-    try {
-        submissionData = await request.json();
-    } catch (parseError) {
-        // This catches errors like malformed JSON or empty body.
-        console.error('🛑 [SubmitQuiz API] JSON Body Parsing Failed:', parseError);
-        
         return NextResponse.json(
             {
                 success: false,
-                error: 'Invalid request format. Please ensure data is correctly formatted JSON.',
-                details: parseError instanceof Error ? parseError.message : 'Unknown parsing error',
+                error: body.error,
                 googleSheetsSubmitted: false,
             },
             { status: 400 } // Bad Request: Client sent invalid data
         );
     }
+
+    const submissionData = body.data;
     
-    // 2. MAIN LOGIC BLOCK (Now safely using the parsed submissionData)
+    // 2. MAIN LOGIC BLOCK (Now safely using the validated submissionData)
     try {
-        const registrationCode = submissionData.registrationCode as string;
+        const registrationCode = submissionData.registrationCode;
         
         if (!registrationCode) {
             console.error('🛑 [SubmitQuiz API] Missing registrationCode in submission.');
@@ -80,9 +85,14 @@ export async function POST(request: Request) {
             );
         }
 
-        const quizNumber = getCurrentQuizNumber();
-        const quizName = "Quiz " + quizNumber;
-        
+        // --- RATE LIMIT ---
+        const clientIp = getClientIp(request);
+        const rateLimit = rateLimiter.check('submit-quiz', clientIp, registrationCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, error: rateLimitMessage(rateLimit), googleSheetsSubmitted: false });
+        }
+
         const studentName = authorizedStudents[registrationCode as keyof typeof authorizedStudents];
         const isAuthorized = !!studentName;
         
@@ -90,6 +100,7 @@ export async function POST(request: Request) {
             const customErrorMessage = "You are trying to make a submission with a registration code not recognised by any of our partner institutions.";
             
             console.error(`🛑 [SubmitQuiz API] Unauthorized submission attempt: Code ${registrationCode} not found.`);
+            rateLimiter.recordInvalidCode('submit-quiz', clientIp, registrationCode);
             return NextResponse.json(
                 {
                     success: false,
@@ -100,13 +111,130 @@ export async function POST(request: Request) {
             );
         }
         
+        // --- SERVER SESSION CHECK ---
+        // Timing comes from the server-side session, never from the client payload.
+        const sessionToken = submissionData.sessionToken;
+
+        if (!sessionToken) {
+            console.error(`🛑 [SubmitQuiz API] Missing sessionToken for ${registrationCode}.`);
+            return NextResponse.json(
+                { success: false, error: 'Quiz session is missing from submission data. Please start the quiz again.', googleSheetsSubmitted: false },
+                { status: 400 }
+            );
+        }
+
+        const { session, error: sessionError } = await quizSessionStore.getSessionByToken(sessionToken);
+
+        if (!session) {
+            console.error(`🛑 [SubmitQuiz API] Session lookup failed for ${registrationCode}: ${sessionError}`);
+            return NextResponse.json(
+                { success: false, error: 'Quiz session could not be verified. Please start the quiz again.', code: sessionError, googleSheetsSubmitted: false },
+                { status: sessionError === 'INVALID_TOKEN' ? 401 : 404 }
+            );
+        }
+
+        if (session.registrationCode.trim().toLowerCase() !== registrationCode.trim().toLowerCase()) {
+            console.error(`🛑 [SubmitQuiz API] Code ${registrationCode} does not match session ${session.sessionId}.`);
+            return NextResponse.json(
+                { success: false, error: 'The registration code does not match the one this quiz session was started with.', googleSheetsSubmitted: false },
+                { status: 403 }
+            );
+        }
+
+        if (session.submitted) {
+            return NextResponse.json(
+                { success: false, error: `${DUPLICATE_ERROR_MESSAGE}: ${registrationCode}`, message: 'Duplicate submission rejected.', googleSheetsSubmitted: true },
+                { status: 409 }
+            );
+        }
+
+        const quiz = await quizCatalog.getQuiz(session.quizId);
+
+        if (!quiz) {
+            console.error(`❌ [SubmitQuiz API] Quiz '${session.quizId}' for session ${session.sessionId} is no longer in the catalog.`);
+            return NextResponse.json(
+                { success: false, error: 'The quiz for this session could not be found.', googleSheetsSubmitted: false },
+                { status: 404 }
+            );
+        }
+
+        const quizName = quiz.title;
+        const now = Date.now();
+
+        // --- AVAILABILITY WINDOW CHECK ---
+        const closesAt = quiz.closesAt ? Date.parse(quiz.closesAt) : null;
+        const startedInWindow = quizCatalog.isOpen(quiz, session.startTime);
+        // Accommodated sessions may run past the closing time by their extra time and late window
+        const allowedAfterClose = (session.extraTime ?? 0) + (session.lateWindow ?? 0) + getSubmissionGraceMs();
+        const closedTooLongAgo = closesAt !== null && now > closesAt + allowedAfterClose;
+
+        if (!startedInWindow || closedTooLongAgo) {
+            console.warn(`⚠️ [SubmitQuiz API] Submission outside the ${quizName} window rejected for ${registrationCode}.`);
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: `${quizName} is closed. Submissions are no longer accepted.`,
+                    code: 'QUIZ_CLOSED',
+                    googleSheetsSubmitted: false,
+                },
+                { status: 403 }
+            );
+        }
+
+        if (!quizSessionStore.isWithinTimeLimit(session, now)) {
+            const elapsedSeconds = Math.round(quizSessionStore.getElapsedMs(session, now) / 1000);
+            console.warn(`⚠️ [SubmitQuiz API] Late submission rejected for ${registrationCode}: ${elapsedSeconds}s elapsed.`);
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'The time limit for this quiz has been exceeded. Submission rejected.',
+                    code: 'TIME_LIMIT_EXCEEDED',
+                    googleSheetsSubmitted: false,
+                },
+                { status: 403 }
+            );
+        }
+
+        // Only answers to the questions drawn for this student count
+        const issuedIds = new Set(session.questionIds ?? []);
+        const answers = Object.fromEntries(
+            Object.entries({ ...session.answers, ...submissionData.answers })
+                .filter(([questionId]) => issuedIds.size === 0 || issuedIds.has(questionId))
+        );
+        const verifiedSubmission: QuizSubmission = {
+            questionIds: session.questionIds ?? [],
+            totalQuestions: issuedIds.size || (submissionData.totalQuestions ?? 0),
+            registrationCode: session.registrationCode,
+            sessionId: session.sessionId,
+            startTime: new Date(session.startTime).toISOString(),
+            endTime: new Date(now).toISOString(),
+            totalTime: Math.round((now - session.startTime) / 1000),
+            answers,
+            answeredCount: Object.keys(answers).length,
+        };
+
         if (isGoogleSheetsConfigured()) {
+            const spreadsheetId = process.env.NEXT_PUBLIC_GOOGLE_TEST_SHEET_ID ?? '';
             const submissionResult = await quizFileProcessor.submitQuizResults(
-                submissionData, 
-                process.env.NEXT_PUBLIC_GOOGLE_TEST_SHEET_ID!
+                verifiedSubmission, 
+                spreadsheetId,
+                quiz
             );
             
             if (submissionResult.success) {
+                await quizSessionStore.markSubmitted(session);
+
+                // AI grading runs in the background and fills in the score columns later
+                if (submissionResult.sheetTabName && submissionResult.resolvedAnswers) {
+                    quizGrader.enqueue({
+                        spreadsheetId,
+                        sheetTabName: submissionResult.sheetTabName,
+                        registrationCode: verifiedSubmission.registrationCode,
+                        sessionId: verifiedSubmission.sessionId,
+                        totalQuestions: verifiedSubmission.totalQuestions,
+                        answers: submissionResult.resolvedAnswers,
+                    });
+                }
                 
                 sendGroupNotification(studentName, quizName); // Re-enable when ready
                 
@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { notebookProcessor, isNotebookProcessorConfigured } from '@/lib/notebookprocessor';
 import authorizedStudents from '@/data/authorized_students.json';
+import { getClientIp, rateLimiter, rateLimitedResponse, rateLimitMessage } from '@/lib/rate-limiter';
+import { readJsonBody } from '@/lib/api-validation';
+import { NotebookUploadSchema } from '@/types/notebook';
 
 // Define the Mentor Registration Codes
 const MENTOR_REG_CODES = [
@@ -53,10 +56,17 @@ export async function POST(req: NextRequest) {
 
     try {
         // 1. Get data from the client request
-        const data = await req.json();
-        const { registrationCode, firstName, lastName, notebookUrl, className } = data; 
+        const body = await readJsonBody(req, NotebookUploadSchema);
 
-        const trimmedCode = registrationCode?.trim();
+        if (!body.success) {
+            return NextResponse.json(
+                { success: false, message: `Submission failed: ${body.error}` },
+                { status: 400 }
+            );
+        }
+
+        const data = body.data;
+        const { registrationCode: trimmedCode, firstName, lastName, notebookUrl, className } = data;
         
         if (!trimmedCode) {
             return NextResponse.json(
@@ -65,11 +75,19 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const clientIp = getClientIp(req);
+        const rateLimit = rateLimiter.check('upload-notebook', clientIp, trimmedCode);
+
+        if (!rateLimit.allowed) {
+            return rateLimitedResponse(rateLimit, { success: false, message: `Submission failed: ${rateLimitMessage(rateLimit)}` });
+        }
+
         const authorizedStudentName = authorizedStudents[trimmedCode as keyof typeof authorizedStudents];
         const isAuthorized = !!authorizedStudentName;
         
         if (!isAuthorized) {
             console.error(`🛑 [Upload API] Unauthorized submission attempt: Code ${trimmedCode} not found.`);
+            rateLimiter.recordInvalidCode('upload-notebook', clientIp, trimmedCode);
             return NextResponse.json(
                 { success: false, message: 'Submission failed: Invalid registration code. Please check your credentials.' },
                 { status: 403 } 
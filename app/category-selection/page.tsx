@@ -9,6 +9,9 @@ import { Card } from '@/components/ui/Card';
 import { Select } from '@/components/ui/Select';
 import { Progress } from '@/components/ui/Progress';
 import { practiceDatabase } from '@/lib/database';
+import { tabCoordinator } from '@/lib/tab-coordinator';
+import { describeIssues } from '@/lib/api-validation';
+import { PracticeQuestionSchema } from '@/types/practice';
 
 const SHOULD_REFETCH_ALWAYS = process.env.NEXT_PUBLIC_NEW_PRACTICE_QUESTIONS_AVAILABLE === 'true';
 
@@ -117,7 +120,7 @@ export default function CategorySelectionPage() {
   /**
    * Save questions to client-side storage
    */
-  const saveQuestionsToStorage = useCallback(async (questions: any[]) => {
+  const saveQuestionsToStorage = useCallback(async (questions: unknown[]) => {
     console.log('💾 [CategorySelection] Saving questions to client storage:', questions.length);
     
     let savedCount = 0;
@@ -132,11 +135,20 @@ export default function CategorySelectionPage() {
       for (const question of batch) {
         try {
           console.log(`💾 [CategorySelection] Saving question ${savedCount + 1}/${questions.length}`);
-          
+
+          // A question the server sent in a shape this page does not know is counted as failed, not half-saved
+          const parsed = PracticeQuestionSchema.safeParse(question);
+          if (!parsed.success) {
+            throw new Error(`Invalid question: ${describeIssues(parsed.error)}`);
+          }
+          const { Question, Answer, Category, TestCases, Language, Seed, Tags, Hints } = parsed.data;
+
           await practiceDatabase.addDataScienceChallenge(
-            question.Question,
-            question.Answer,
-            question.Category
+            Question,
+            Answer,
+            Category,
+            TestCases,
+            { language: Language, seedSql: Seed, tags: Tags, hints: Hints }
           );
           savedCount++;
           
@@ -330,6 +342,13 @@ export default function CategorySelectionPage() {
   }, [loadInitialData, downloadPracticeQuestions]); // Dependencies remain correct
   // END FIX
 
+  // Keep the in-progress markers current while sessions are started, saved or finished in other tabs
+  useEffect(() => {
+    return tabCoordinator.subscribe((message) => {
+      if (message.type === 'active-sessions-changed') checkActiveSessions();
+    });
+  }, [checkActiveSessions]);
+
   /**
    * Handle initial download click
    */
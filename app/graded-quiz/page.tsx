@@ -1,45 +1,172 @@
 // app/graded-quiz/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Download, AlertCircle, CheckCircle, Clock, Loader2 } from 'lucide-react';
+import { ArrowLeft, Download, AlertCircle, CheckCircle, Clock, Loader2, ListChecks, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Progress } from '@/components/ui/Progress';
-// Import the new dialog component
-import { QuizUnavailableDialog } from '@/components/dialogs/QuizUnavailableDialog'; 
+import { QuizUnavailableDialog } from '@/components/dialogs/QuizUnavailableDialog';
+import storageService from '@/lib/storage';
+import type { QuizSessionData } from './session/page';
 
-// Import the environment variable for graded quiz status
-const GRADED_QUIZ_ENABLED = process.env.NEXT_PUBLIC_GRADED_QUIZ_ENABLED === 'true';
+// Questions are drawn per student when the session starts; before that only a summary is known
+interface QuizSummary {
+  totalQuestions: number;
+  categories: string[];
+}
+
+export interface QuizInfo {
+  id: string;
+  title: string;
+  timeLimitMinutes: number;
+  opensAt: string | null;
+  closesAt: string | null;
+  status: 'upcoming' | 'open' | 'closed';
+  resultsReleased: boolean;
+}
 
-interface QuizQuestion {
-  Question: string;
-  Answer: string;
-  Category: string;
-  Type: 'Practical' | 'Theoretical';
+// An unsubmitted attempt saved in this browser that the server says still has time left
+interface ResumableAttempt {
+  session: QuizSessionData;
+  remainingMs: number;
 }
 
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
 export default function GradedQuizPage() {
   const router = useRouter();
   const [loadingState, setLoadingState] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
-  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [summary, setSummary] = useState<QuizSummary | null>(null);
   const [error, setError] = useState<string>('');
   const [progress, setProgress] = useState(0);
-  const [quizNumber, setQuizNumber] = useState<1 | 2 | 3 | 4>(1);
-  // State for the Quiz Unavailable dialog
-  const [isQuizUnavailable, setIsQuizUnavailable] = useState(false); 
+  const [quizzes, setQuizzes] = useState<QuizInfo[]>([]);
+  const [catalogState, setCatalogState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [selectedQuiz, setSelectedQuiz] = useState<QuizInfo | null>(null);
+  // Difference between the server clock and this device, so countdowns match the server's schedule
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [resumableAttempts, setResumableAttempts] = useState<ResumableAttempt[]>([]);
 
-  // Check quiz status when component mounts
-  useEffect(() => {
-    if (!GRADED_QUIZ_ENABLED) {
-        setIsQuizUnavailable(true);
-    } else {
-        loadQuizQuestions();
+  const openQuizzes = quizzes.filter(quiz => quiz.status === 'open');
+  const nextUpcomingQuiz = quizzes
+    .filter(quiz => quiz.status === 'upcoming' && quiz.opensAt)
+    .sort((a, b) => Date.parse(a.opensAt as string) - Date.parse(b.opensAt as string))[0];
+  const lastClosedQuiz = quizzes
+    .filter(quiz => quiz.status === 'closed' && quiz.closesAt)
+    .sort((a, b) => Date.parse(b.closesAt as string) - Date.parse(a.closesAt as string))[0];
+  const timeUntilNextQuiz = nextUpcomingQuiz?.opensAt
+    ? Date.parse(nextUpcomingQuiz.opensAt) - (now + clockOffset)
+    : null;
+
+  const loadQuizCatalog = useCallback(async () => {
+    setCatalogState('loading');
+    setError('');
+
+    try {
+      const response = await fetch('/api/quizzes');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to load quizzes: ${response.status} ${response.statusText}`);
+      }
+
+      const catalog: QuizInfo[] = data.quizzes;
+      if (data.serverTime) {
+        setClockOffset(Date.parse(data.serverTime) - Date.now());
+      }
+      setQuizzes(catalog);
+      setCatalogState('ready');
+
+      // With a single open quiz, skip the picker and go straight to loading it
+      const open = catalog.filter(quiz => quiz.status === 'open');
+      if (open.length === 1) {
+        handleSelectQuiz(open[0]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load quizzes');
+      setCatalogState('error');
     }
   }, []);
 
-  const loadQuizQuestions = async () => {
+  useEffect(() => {
+    loadQuizCatalog();
+  }, [loadQuizCatalog]);
+
+  // Look for attempts interrupted by a closed tab or crashed browser
+  useEffect(() => {
+    const findResumableAttempts = async () => {
+      const saved = await storageService.getGradedQuizProgress<QuizSessionData>();
+      const attempts: ResumableAttempt[] = [];
+
+      for (const session of saved) {
+        try {
+          const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(session.sessionToken)}`);
+          const serverSession = await response.json().catch(() => ({}));
+
+          const deadline = response.ok && serverSession.success
+            ? serverSession.startTime + serverSession.timeLimit + (serverSession.lateWindow || 0)
+            : 0;
+
+          if (!response.ok || !serverSession.success || serverSession.submitted || serverSession.serverTime > deadline) {
+            // Submitted, expired or unknown to the server: nothing to resume
+            await storageService.clearGradedQuizProgress(session.sessionToken);
+            continue;
+          }
+
+          attempts.push({
+            session,
+            remainingMs: Math.max(0, serverSession.startTime + serverSession.timeLimit - serverSession.serverTime),
+          });
+        } catch (err) {
+          // Offline: keep the saved attempt for next time
+          console.warn('⚠️ Could not check saved quiz attempt:', err);
+        }
+      }
+
+      setResumableAttempts(attempts);
+    };
+
+    findResumableAttempts().catch(console.error);
+  }, []);
+
+  const handleResumeAttempt = (attempt: ResumableAttempt) => {
+    sessionStorage.setItem('gradedQuizRegistrationCode', attempt.session.registrationCode);
+    sessionStorage.setItem('gradedQuizSession', JSON.stringify(attempt.session));
+    router.push('/graded-quiz/session');
+  };
+
+  // Tick the countdown while a quiz is scheduled to open
+  useEffect(() => {
+    if (!nextUpcomingQuiz) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextUpcomingQuiz]);
+
+  // Reload the catalog once the next quiz opens so it appears in the picker
+  useEffect(() => {
+    if (timeUntilNextQuiz !== null && timeUntilNextQuiz <= 0 && catalogState === 'ready') {
+      loadQuizCatalog();
+    }
+  }, [timeUntilNextQuiz, catalogState, loadQuizCatalog]);
+
+  const handleSelectQuiz = (quiz: QuizInfo) => {
+    setSelectedQuiz(quiz);
+    setSummary(null);
+    loadQuizQuestions(quiz);
+  };
+
+  const loadQuizQuestions = async (quiz: QuizInfo) => {
     setLoadingState('loading');
     setError('');
     setProgress(0);
@@ -49,7 +176,7 @@ export default function GradedQuizPage() {
       setProgress(20);
       
       // Fetch the CSV file from the server
-      const response = await fetch('/api/quiz-questions');
+      const response = await fetch(`/api/quiz-questions?quizId=${encodeURIComponent(quiz.id)}`);
       
       setProgress(60);
       
@@ -61,12 +188,12 @@ export default function GradedQuizPage() {
       
       setProgress(80);
       
-      if (!data.questions || data.questions.length === 0) {
+      if (!data.total) {
         throw new Error('No questions found in the quiz file');
       }
       
-      setQuestions(data.questions);
-      setQuizNumber(data.quizNumber || 1);
+      setSummary({ totalQuestions: data.total, categories: data.categories || [] });
+      setSelectedQuiz(data.quiz || quiz);
       setLoadingState('success');
       setProgress(100);
       
@@ -79,11 +206,11 @@ export default function GradedQuizPage() {
 
   // ... (handleStartQuiz, handleRetry, handleBack remain the same)
   const handleStartQuiz = () => {
-    if (questions.length > 0) {
-      // Store questions and quiz number in session storage for the quiz session
+    if (summary && selectedQuiz) {
+      // Store the quiz details in session storage for the start page
       const quizData = {
-        questions,
-        quizNumber
+        totalQuestions: summary.totalQuestions,
+        quiz: selectedQuiz
       };
       sessionStorage.setItem('gradedQuizQuestions', JSON.stringify(quizData));
       router.push('/graded-quiz/start');
@@ -91,31 +218,27 @@ export default function GradedQuizPage() {
   };
 
   const handleRetry = () => {
-    loadQuizQuestions();
+    if (selectedQuiz) {
+      loadQuizQuestions(selectedQuiz);
+    } else {
+      loadQuizCatalog();
+    }
   };
 
   const handleBack = () => {
     router.back();
   };
 
-  // If the quiz is unavailable, render only the dialog
-  if (!GRADED_QUIZ_ENABLED && isQuizUnavailable) {
-      return (
-          <QuizUnavailableDialog 
-              isOpen={isQuizUnavailable} 
-              onClose={() => router.push('/')} // Navigate home when closing
-          />
-      );
-  }
-
-  // If the quiz is enabled, but the state suggests it should be unavailable (shouldn't happen 
-  // with the new useEffect logic, but as a fallback):
-  // You might want to remove this or adjust if you want a different fallback
-  if (!GRADED_QUIZ_ENABLED) {
+  // Nothing open and nothing scheduled: render only the dialog
+  if (catalogState === 'ready' && openQuizzes.length === 0 && !nextUpcomingQuiz && resumableAttempts.length === 0) {
     return (
-        <div className="min-h-screen flex items-center justify-center p-4">
-            <p className="text-xl font-semibold text-gray-500">Quiz Unavailable...</p>
-        </div>
+      <QuizUnavailableDialog
+        isOpen
+        reason={lastClosedQuiz ? 'closed' : 'none'}
+        quizTitle={lastClosedQuiz?.title}
+        closesAt={lastClosedQuiz?.closesAt}
+        onClose={() => router.push('/')}
+      />
     );
   }
 
@@ -140,6 +263,99 @@ export default function GradedQuizPage() {
       </header>
 
       <main className="max-w-4xl mx-auto px-4 py-8">
+        {/* Interrupted attempts - the timer kept running while the tab was closed */}
+        {resumableAttempts.map((attempt) => (
+          <Card key={attempt.session.sessionToken} className="p-6 mb-6 border-2 border-orange-200 bg-orange-50">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="space-y-1">
+                <h3 className="text-lg font-semibold text-gray-900">Resume {attempt.session.quizTitle}</h3>
+                <p className="text-sm text-gray-600">
+                  Registration code {attempt.session.registrationCode} • {Object.keys(attempt.session.userAnswers).length} of {attempt.session.questions.length} answered
+                </p>
+                <p className="text-sm font-medium text-orange-700">
+                  {attempt.remainingMs > 0
+                    ? `${formatCountdown(attempt.remainingMs)} remaining`
+                    : 'Time is up. Resume to submit your answers.'}
+                </p>
+              </div>
+              <Button
+                onClick={() => handleResumeAttempt(attempt)}
+                className="flex items-center gap-2 bg-orange-600 hover:bg-orange-700"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Resume
+              </Button>
+            </div>
+          </Card>
+        ))}
+
+        {/* Quiz Picker - shown until a quiz is selected */}
+        {!selectedQuiz && (
+          <Card className="p-8">
+            <div className="text-center space-y-6">
+              <div className="space-y-3">
+                <div className="mx-auto h-16 w-16 bg-purple-600 rounded-full flex items-center justify-center">
+                  <ListChecks className="h-8 w-8 text-white" />
+                </div>
+                <h2 className="text-3xl font-bold text-gray-900">Choose a Quiz</h2>
+              </div>
+
+              {catalogState === 'loading' && (
+                <div className="text-center space-y-4 py-8">
+                  <Loader2 className="h-12 w-12 text-purple-600 animate-spin mx-auto" />
+                  <p className="text-gray-600">Checking which quizzes are open...</p>
+                </div>
+              )}
+
+              {catalogState === 'error' && (
+                <div className="text-center space-y-4 py-8">
+                  <AlertCircle className="h-12 w-12 text-red-500 mx-auto" />
+                  <p className="text-gray-600">{error}</p>
+                  <Button onClick={handleRetry} className="flex items-center gap-2 mx-auto">
+                    <Download className="h-4 w-4" />
+                    Retry
+                  </Button>
+                </div>
+              )}
+
+              {catalogState === 'ready' && nextUpcomingQuiz?.opensAt && timeUntilNextQuiz !== null && (
+                <div className="text-center space-y-3 py-6 bg-white rounded-lg border border-purple-100">
+                  <Clock className="h-10 w-10 text-purple-500 mx-auto" />
+                  <p className="text-gray-600">
+                    {nextUpcomingQuiz.title} opens {new Date(nextUpcomingQuiz.opensAt).toLocaleString()}
+                  </p>
+                  <div className="text-3xl font-mono font-bold text-purple-700">
+                    {formatCountdown(timeUntilNextQuiz)}
+                  </div>
+                </div>
+              )}
+
+              {catalogState === 'ready' && openQuizzes.length > 0 && (
+                <div className="grid gap-4 text-left">
+                  {openQuizzes.map((quiz) => (
+                    <div key={quiz.id} className="flex items-center justify-between p-4 bg-white rounded-lg border border-purple-100">
+                      <div>
+                        <div className="font-semibold text-gray-900">{quiz.title}</div>
+                        <div className="text-sm text-gray-600">
+                          {quiz.timeLimitMinutes} min
+                          {quiz.closesAt && ` • Closes ${new Date(quiz.closesAt).toLocaleString()}`}
+                        </div>
+                      </div>
+                      <Button
+                        onClick={() => handleSelectQuiz(quiz)}
+                        className="bg-purple-600 hover:bg-purple-700"
+                      >
+                        Select
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {selectedQuiz && (
         <Card className="p-8">
           <div className="text-center space-y-6">
             {/* Header Section */}
@@ -154,7 +370,7 @@ export default function GradedQuizPage() {
             {/* ... (rest of the component logic for loading/success/error states) */}
             <div className="space-y-4">
               <div className="flex justify-between text-sm text-gray-600">
-                <span>Loading questions for Quiz {quizNumber}...</span>
+                <span>Loading questions for {selectedQuiz.title}...</span>
                 <span>{progress}%</span>
               </div>
               <Progress value={progress} className="h-2" />
@@ -165,7 +381,7 @@ export default function GradedQuizPage() {
               {loadingState === 'loading' && (
                 <div className="text-center space-y-4">
                   <Loader2 className="h-12 w-12 text-purple-600 animate-spin mx-auto" />
-                  <p className="text-gray-600">Downloading quiz questions for Quiz {quizNumber} from server...</p>
+                  <p className="text-gray-600">Downloading quiz questions for {selectedQuiz.title} from server...</p>
                 </div>
               )}
 
@@ -175,17 +391,17 @@ export default function GradedQuizPage() {
                   <div className="space-y-2">
                     <h3 className="text-xl font-semibold text-green-700">Questions Loaded Successfully!</h3>
                     <p className="text-gray-600">
-                      Ready to start Quiz {quizNumber} with {questions.length} questions.
+                      Ready to start {selectedQuiz.title} with {summary?.totalQuestions} questions.
                     </p>
                     <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
                       <div className="bg-green-50 p-3 rounded-lg">
                         <div className="font-semibold text-green-800">Total Questions</div>
-                        <div className="text-2xl font-bold text-green-600">{questions.length}</div>
+                        <div className="text-2xl font-bold text-green-600">{summary?.totalQuestions}</div>
                       </div>
                       <div className="bg-blue-50 p-3 rounded-lg">
                         <div className="font-semibold text-blue-800">Categories</div>
                         <div className="text-lg font-bold text-blue-600">
-                          {[...new Set(questions.map(q => q.Category))].length}
+                          {summary?.categories.length}
                         </div>
                       </div>
                     </div>
@@ -231,7 +447,7 @@ export default function GradedQuizPage() {
                   size="lg"
                 >
                   <Clock className="h-5 w-5" />
-                  Start Quiz {quizNumber}
+                  Start {selectedQuiz.title}
                 </Button>
               )}
             </div>
@@ -251,6 +467,7 @@ export default function GradedQuizPage() {
             )}
           </div>
         </Card>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,260 @@
+// app/graded-quiz/results/page.tsx
+'use client';
+
+import { AlertCircle, ArrowLeft, Award, Bot, Loader2, Search, UserCheck } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import Input from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { type QuizResult, QuizResultSchema } from '@/types/quiz';
+import type { QuizInfo } from '../page';
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return 'bg-gray-100 text-gray-600';
+  if (score >= 70) return 'bg-green-100 text-green-700';
+  if (score > 0) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-red-100 text-red-700';
+};
+
+export default function GradedQuizResultsPage() {
+  const router = useRouter();
+  const [releasedQuizzes, setReleasedQuizzes] = useState<QuizInfo[]>([]);
+  const [quizId, setQuizId] = useState('');
+  const [registrationCode, setRegistrationCode] = useState('');
+  const [isLoadingCatalog, setIsLoadingCatalog] = useState(true);
+  const [isLoadingResult, setIsLoadingResult] = useState(false);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Pre-fill the code used for the most recent quiz in this tab
+    setRegistrationCode(sessionStorage.getItem('gradedQuizRegistrationCode') || '');
+
+    const loadReleasedQuizzes = async () => {
+      try {
+        const response = await fetch('/api/quizzes');
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load quizzes');
+        }
+
+        const released: QuizInfo[] = data.quizzes.filter((quiz: QuizInfo) => quiz.resultsReleased);
+        setReleasedQuizzes(released);
+        if (released.length > 0) {
+          setQuizId(released[0].id);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load quizzes');
+      } finally {
+        setIsLoadingCatalog(false);
+      }
+    };
+
+    loadReleasedQuizzes();
+  }, []);
+
+  const handleViewResults = async () => {
+    const code = registrationCode.trim();
+
+    if (!code || !quizId) {
+      setError('Please choose a quiz and enter your registration code');
+      return;
+    }
+
+    setIsLoadingResult(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/quiz-results', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ registrationCode: code, quizId }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to load results (status ${response.status})`);
+      }
+
+      const parsed = QuizResultSchema.safeParse(data.result);
+      if (!parsed.success) {
+        throw new Error('The results could not be read. Please try again later.');
+      }
+
+      setResult(parsed.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load results');
+    } finally {
+      setIsLoadingResult(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              onClick={() => router.push('/')}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              Back
+            </Button>
+            <h1 className="text-xl font-semibold text-gray-900">Quiz Results</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Lookup */}
+        <Card className="p-8">
+          <div className="space-y-6">
+            <div className="text-center space-y-3">
+              <div className="mx-auto h-16 w-16 bg-purple-600 rounded-full flex items-center justify-center">
+                <Award className="h-8 w-8 text-white" />
+              </div>
+              <h2 className="text-3xl font-bold text-gray-900">View Your Results</h2>
+              <p className="text-gray-600">Results appear here once your mentors have released them.</p>
+            </div>
+
+            {isLoadingCatalog && (
+              <div className="text-center py-4">
+                <Loader2 className="h-8 w-8 text-purple-600 animate-spin mx-auto" />
+              </div>
+            )}
+
+            {!isLoadingCatalog && releasedQuizzes.length === 0 && (
+              <p className="text-center text-gray-600">No quiz results have been released yet. Please check back later.</p>
+            )}
+
+            {!isLoadingCatalog && releasedQuizzes.length > 0 && (
+              <div className="space-y-4">
+                <Select
+                  label="Quiz"
+                  value={quizId}
+                  onValueChange={setQuizId}
+                  options={releasedQuizzes.map(quiz => ({ value: quiz.id, label: quiz.title }))}
+                />
+                <Input
+                  id="registrationCode"
+                  label="Registration Code"
+                  type="text"
+                  value={registrationCode}
+                  onChange={(e) => {
+                    setRegistrationCode(e.target.value);
+                    setError('');
+                  }}
+                  placeholder="Enter your unique code (e.g., 89052035-191311)"
+                  className="font-mono"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleViewResults();
+                  }}
+                />
+                <Button
+                  onClick={handleViewResults}
+                  disabled={isLoadingResult || !registrationCode.trim()}
+                  className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700"
+                >
+                  {isLoadingResult ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                  View Results
+                </Button>
+              </div>
+            )}
+
+            {error && (
+              <p className="text-red-600 text-sm flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                {error}
+              </p>
+            )}
+          </div>
+        </Card>
+
+        {/* Result Summary */}
+        {result && (
+          <Card className="p-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+              <div className="bg-purple-50 p-4 rounded-lg">
+                <div className="text-sm font-semibold text-purple-800">Total Score</div>
+                <div className="text-3xl font-bold text-purple-600">
+                  {result.totalScore === null ? '—' : `${Math.round(result.totalScore)}%`}
+                </div>
+              </div>
+              <div className="bg-blue-50 p-4 rounded-lg">
+                <div className="text-sm font-semibold text-blue-800">Answered</div>
+                <div className="text-3xl font-bold text-blue-600">
+                  {result.answeredCount} / {result.totalQuestions}
+                </div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="text-sm font-semibold text-gray-800">Grading</div>
+                <div className="text-lg font-bold text-gray-700 capitalize mt-2">{result.gradingStatus}</div>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Per-question Review */}
+        {result?.questions.map((question, index) => (
+          <Card key={question.questionId} className="p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm font-medium">
+                  Question {index + 1}
+                </span>
+                {question.category && (
+                  <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-sm font-medium">
+                    {question.category}
+                  </span>
+                )}
+              </div>
+              <span className={`px-3 py-1 rounded-full text-sm font-bold ${getScoreColor(question.score)}`}>
+                {question.score === null ? 'Not graded' : `${Math.round(question.score)} / 100`}
+              </span>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-4 border-l-4 border-blue-500">
+              <p className="font-semibold text-gray-900">{question.question ?? 'Question text unavailable'}</p>
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-1">Your Answer</div>
+              <pre className="whitespace-pre-wrap text-sm bg-white border rounded-lg p-3 font-mono text-gray-800">
+                {question.answer || 'No answer provided.'}
+              </pre>
+            </div>
+
+            {question.feedback && (
+              <div className={`rounded-lg p-3 border ${question.feedbackSource === 'mentor' ? 'bg-green-50 border-green-200' : 'bg-purple-50 border-purple-200'}`}>
+                <div className="flex items-center gap-2 text-sm font-medium mb-1">
+                  {question.feedbackSource === 'mentor' ? (
+                    <><UserCheck className="h-4 w-4 text-green-700" /> <span className="text-green-700">Mentor Feedback</span></>
+                  ) : (
+                    <><Bot className="h-4 w-4 text-purple-700" /> <span className="text-purple-700">AI Feedback</span></>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{question.feedback}</p>
+              </div>
+            )}
+
+            {question.modelAnswer && (
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">Model Answer</div>
+                <pre className="whitespace-pre-wrap text-sm bg-blue-50 border border-blue-200 rounded-lg p-3 font-mono text-gray-800">
+                  {question.modelAnswer}
+                </pre>
+              </div>
+            )}
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -8,23 +8,7 @@ import { QuizQuestion } from './QuizQuestion';
 import { QuizNavigation } from './QuizNavigation';
 import { QuizProgress } from './QuizProgress';
 import { QuizSubmitDialog } from './QuizSubmitDialog';
-
-interface QuizQuestion {
-  Question: string;
-  Answer: string;
-  Category: string;
-  Type: 'Practical' | 'Theoretical';
-}
-
-interface QuizSessionData {
-  questions: QuizQuestion[];
-  startTime: number;
-  registrationCode: string;
-  quizNumber: 1 | 2 | 3 | 4;
-  userAnswers: { [questionIndex: number]: string };
-  currentQuestionIndex: number;
-  timeLimit: number;
-}
+import type { QuizSessionData } from '../page';
 
 interface GradedQuizSessionProps {
   sessionData: QuizSessionData;
@@ -78,10 +62,10 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [sessionData.currentQuestionIndex]);
 
-  const updateAnswer = (questionIndex: number, answer: string) => {
+  const updateAnswer = (questionId: string, answer: string) => {
     const updatedAnswers = {
       ...sessionData.userAnswers,
-      [questionIndex]: answer
+      [questionId]: answer
     };
     
     const updatedSession = {
@@ -117,6 +101,9 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
   const currentQuestion = sessionData.questions[sessionData.currentQuestionIndex];
   const totalQuestions = sessionData.questions.length;
   const answeredCount = Object.keys(sessionData.userAnswers).length;
+  const answeredIndices = sessionData.questions
+    .map((question, index) => (question.id in sessionData.userAnswers ? index : -1))
+    .filter(index => index >= 0);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -124,7 +111,9 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
       <QuizHeader
         timeRemaining={timeRemaining}
         registrationCode={sessionData.registrationCode}
-        quizNumber={sessionData.quizNumber}
+        quizTitle={sessionData.quizTitle}
+        timeLimit={sessionData.timeLimit}
+        extraTime={sessionData.extraTime ?? 0}
         totalQuestions={totalQuestions}
         onSubmit={handleSubmitQuiz}
       />
@@ -136,9 +125,9 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
             <QuizProgress
               totalQuestions={totalQuestions}
               currentIndex={sessionData.currentQuestionIndex}
-              answeredQuestions={Object.keys(sessionData.userAnswers).map(Number)}
+              answeredQuestions={answeredIndices}
               onQuestionSelect={navigateToQuestion}
-              quizNumber={sessionData.quizNumber}
+              quizTitle={sessionData.quizTitle}
             />
           </div>
 
@@ -149,8 +138,8 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
               question={currentQuestion}
               questionNumber={sessionData.currentQuestionIndex + 1}
               totalQuestions={totalQuestions}
-              answer={sessionData.userAnswers[sessionData.currentQuestionIndex] || ''}
-              onAnswerChange={(answer) => updateAnswer(sessionData.currentQuestionIndex, answer)}
+              answer={sessionData.userAnswers[currentQuestion.id] || ''}
+              onAnswerChange={(answer) => updateAnswer(currentQuestion.id, answer)}
             />
 
             {/* Navigation */}
@@ -173,7 +162,7 @@ export const GradedQuizSession: React.FC<GradedQuizSessionProps> = ({
         onConfirm={confirmSubmit}
         answeredCount={answeredCount}
         totalQuestions={totalQuestions}
-        quizNumber={sessionData.quizNumber}
+        quizTitle={sessionData.quizTitle}
       />
     </div>
   );
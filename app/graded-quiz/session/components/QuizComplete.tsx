@@ -7,6 +7,7 @@ import { CheckCircle, Clock, BarChart3, UploadCloud, AlertCircle, Edit } from 'l
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
+import storageService from '@/lib/storage';
 import { CompletedQuizSession } from '../page';
 
 interface QuizCompleteProps {
@@ -84,6 +85,7 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
     try {
       const submissionData = {
         registrationCode: overrideRegistrationCode || registrationCode,
+        sessionToken: localSessionData.sessionToken,
         sessionId: `quiz-${localSessionData.startTime}`,
         startTime: new Date(localSessionData.startTime).toISOString(),
         endTime: new Date(localSessionData.endTime).toISOString(),
@@ -91,7 +93,6 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
         totalQuestions,
         answeredCount,
         answers: localSessionData.userAnswers,
-        questions: localSessionData.questions,
       };
 
       console.log('📤 Submitting quiz data:', {
@@ -157,6 +158,8 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
           console.error("❌ Failed to update session storage:", storageError);
         }
 
+        // Nothing left to resume once the server has the submission
+        storageService.clearGradedQuizProgress(localSessionData.sessionToken).catch(console.error);
         setSubmitStatus('success');
       } else {
         const status = response.status;
@@ -164,7 +167,11 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
 
         let errorToDisplay = 'Submission failed due to an unknown API error.';
 
-        if (status === 403) {
+        if (status === 403 && responseData.code === 'TIME_LIMIT_EXCEEDED') {
+          errorToDisplay = responseData.error;
+        } else if (status === 401 || (status === 404 && responseData.code === 'SESSION_NOT_FOUND')) {
+          errorToDisplay = responseData.error || 'Your quiz session could not be verified.';
+        } else if (status === 403) {
           errorToDisplay = responseData.error || 'Authorization failed. Please check your registration code.';
           // Show registration input for 403 errors
           setShowRegistrationInput(true);
@@ -172,6 +179,7 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
           errorToDisplay = 'API endpoint not found. Please check if the server is running.';
         } else if (status == 409) {
           errorToDisplay = DUPLICATE_SUBMISSION_MESSAGE;
+          storageService.clearGradedQuizProgress(localSessionData.sessionToken).catch(console.error);
         } else if (status >= 500) {
           errorToDisplay = 'Server error. Please try again later.';
         } else {
@@ -423,12 +431,21 @@ export const QuizComplete: React.FC<QuizCompleteProps> = ({ sessionData }) => {
           )}
 
           {submitStatus === 'success' && (
-            <Button
-              onClick={() => router.push('/')}
-              className="w-full bg-purple-600 hover:bg-purple-700"
-            >
-              Return to Home
-            </Button>
+            <>
+              <Button
+                onClick={() => router.push('/')}
+                className="w-full bg-purple-600 hover:bg-purple-700"
+              >
+                Return to Home
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => router.push('/graded-quiz/results')}
+                className="w-full border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                View Results
+              </Button>
+            </>
           )}
 
           {(submitStatus === 'idle' || submitStatus === 'error') && !showRegistrationInput && !isSubmitting && !isZeroAnswerError && (
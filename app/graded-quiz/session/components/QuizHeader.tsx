@@ -9,7 +9,9 @@ interface QuizHeaderProps {
   registrationCode: string;
   totalQuestions: number;
   onSubmit: () => void;
-  quizNumber: 1 | 2 | 3 | 4; 
+  quizTitle: string;
+  timeLimit: number;
+  extraTime: number;
 }
 
 export const QuizHeader: React.FC<QuizHeaderProps> = ({
@@ -17,6 +19,8 @@ export const QuizHeader: React.FC<QuizHeaderProps> = ({
   registrationCode,
   totalQuestions,
   onSubmit,
+  timeLimit,
+  extraTime,
 }) => {
   const formatTime = (ms: number) => {
     const minutes = Math.floor(ms / 60000);
@@ -42,6 +46,12 @@ export const QuizHeader: React.FC<QuizHeaderProps> = ({
             <div className="text-sm text-gray-600">
               {totalQuestions} Questions
             </div>
+            <div className="text-sm text-gray-600">
+              {Math.round(timeLimit / 60000)} min limit
+              {extraTime > 0 && (
+                <span className="ml-1 text-green-700">(includes {Math.round(extraTime / 60000)} min extra time)</span>
+              )}
+            </div>
           </div>
 
           {/* Timer */}
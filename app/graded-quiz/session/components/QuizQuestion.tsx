@@ -2,17 +2,26 @@
 'use client';
 
 import { useState } from 'react';
-import { Cpu, Brain } from 'lucide-react';
+import { Cpu, Brain, ListChecks, Hash } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Textarea } from '@/components/ui/Textarea';
+import Input from '@/components/ui/Input';
+import type { QuizQuestionType, RedactedQuizQuestion } from '@/types/quiz';
+
+// Answers to choice questions are submitted as option letters (A, B, ...)
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+  Practical: 'Practical',
+  Theoretical: 'Theoretical',
+  MultipleChoice: 'Multiple Choice',
+  MultiSelect: 'Select All That Apply',
+  TrueFalse: 'True / False',
+  Numeric: 'Numeric',
+};
 
 interface QuizQuestionProps {
-  question: {
-    Question: string;
-    Answer: string;
-    Category: string;
-    Type: 'Practical' | 'Theoretical';
-  };
+  question: RedactedQuizQuestion;
   questionNumber: number;
   totalQuestions: number;
   answer: string;
@@ -33,14 +42,64 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
     setWordCount(value.trim() ? value.trim().split(/\s+/).length : 0);
   };
 
-  const getTypeIcon = (type: 'Practical' | 'Theoretical') => {
-    return type === 'Practical' ? <Cpu className="h-4 w-4" /> : <Brain className="h-4 w-4" />;
+  const getTypeIcon = (type: QuizQuestionType) => {
+    if (type === 'Practical') return <Cpu className="h-4 w-4" />;
+    if (type === 'Theoretical') return <Brain className="h-4 w-4" />;
+    if (type === 'Numeric') return <Hash className="h-4 w-4" />;
+    return <ListChecks className="h-4 w-4" />;
   };
 
-  const getTypeColor = (type: 'Practical' | 'Theoretical') => {
-    return type === 'Practical' 
-      ? 'bg-green-100 text-green-700 border-green-200' 
-      : 'bg-purple-100 text-purple-700 border-purple-200';
+  const getTypeColor = (type: QuizQuestionType) => {
+    if (type === 'Practical') return 'bg-green-100 text-green-700 border-green-200';
+    if (type === 'Theoretical') return 'bg-purple-100 text-purple-700 border-purple-200';
+    return 'bg-amber-100 text-amber-700 border-amber-200';
+  };
+
+  const selectedLetters = answer ? answer.split(',').filter(Boolean) : [];
+
+  const handleToggleOption = (letter: string) => {
+    const next = selectedLetters.includes(letter)
+      ? selectedLetters.filter(selected => selected !== letter)
+      : [...selectedLetters, letter];
+    onAnswerChange(next.sort().join(','));
+  };
+
+  const renderChoices = () => {
+    const isMultiSelect = question.Type === 'MultiSelect';
+
+    return (
+      <div className="space-y-3" role={isMultiSelect ? 'group' : 'radiogroup'}>
+        {question.Options.map((option, index) => {
+          const letter = question.Type === 'TrueFalse' ? option : optionLetter(index);
+          const isSelected = isMultiSelect ? selectedLetters.includes(letter) : answer === letter;
+
+          return (
+            <label
+              key={letter}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+                isSelected ? 'bg-blue-50 border-blue-500' : 'bg-white border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type={isMultiSelect ? 'checkbox' : 'radio'}
+                name={`answer-${questionNumber}`}
+                value={letter}
+                checked={isSelected}
+                onChange={() => (isMultiSelect ? handleToggleOption(letter) : onAnswerChange(letter))}
+                className="mt-1 h-4 w-4 text-blue-600"
+              />
+              <span className="text-gray-900">
+                {question.Type !== 'TrueFalse' && <strong className="mr-2">{letter}.</strong>}
+                {option}
+              </span>
+            </label>
+          );
+        })}
+        {isMultiSelect && (
+          <p className="text-sm text-gray-500">Select every option that applies.</p>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -58,7 +117,7 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
             <span className={`px-3 py-1 rounded-full text-sm font-medium border ${getTypeColor(question.Type)}`}>
               <div className="flex items-center gap-1">
                 {getTypeIcon(question.Type)}
-                {question.Type}
+                {TYPE_LABELS[question.Type]}
               </div>
             </span>
           </div>
@@ -78,20 +137,36 @@ export const QuizQuestion: React.FC<QuizQuestionProps> = ({
           Your Answer
         </label>
         
-        <Textarea
-          id={`answer-${questionNumber}`}
-          value={answer}
-          onChange={(e) => handleAnswerChange(e.target.value)}
-          placeholder={
-            question.Type === 'Practical'
-              ? "Write your code here..."
-              : "Write your explanation or answer here..."
-          }
-          rows={question.Type === 'Practical' ? 12 : 8}
-          className={`font-mono text-sm resize-none ${
-            question.Type === 'Practical' ? 'font-mono' : 'font-sans'
-          }`}
-        />
+        {(question.Type === 'MultipleChoice' || question.Type === 'MultiSelect' || question.Type === 'TrueFalse') && renderChoices()}
+
+        {question.Type === 'Numeric' && (
+          <Input
+            id={`answer-${questionNumber}`}
+            type="text"
+            inputMode="decimal"
+            value={answer}
+            onChange={(e) => onAnswerChange(e.target.value)}
+            placeholder="Enter a number"
+            className="font-mono max-w-xs"
+          />
+        )}
+
+        {(question.Type === 'Practical' || question.Type === 'Theoretical') && (
+          <Textarea
+            id={`answer-${questionNumber}`}
+            value={answer}
+            onChange={(e) => handleAnswerChange(e.target.value)}
+            placeholder={
+              question.Type === 'Practical'
+                ? "Write your code here..."
+                : "Write your explanation or answer here..."
+            }
+            rows={question.Type === 'Practical' ? 12 : 8}
+            className={`font-mono text-sm resize-none ${
+              question.Type === 'Practical' ? 'font-mono' : 'font-sans'
+            }`}
+          />
+        )}
 
         {/* Word Count for theoretical questions */}
         {question.Type === 'Theoretical' && (
@@ -1,68 +1,50 @@
 // app/graded-quiz/session/page.tsx
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { GradedQuizSession } from './components/GradedQuizSession';
 import { QuizComplete } from './components/QuizComplete';
 import { QuizLoading } from './components/QuizLoading';
-import { QuizUnavailableDialog } from '@/components/dialogs/QuizUnavailableDialog';
 import { Card } from '@/components/ui/Card'; 
 import { Button } from '@/components/ui/Button'; 
 import { AlertCircle } from 'lucide-react'; 
-
-// 2. Add the Graded Quiz Enabled check
-const GRADED_QUIZ_ENABLED = process.env.NEXT_PUBLIC_GRADED_QUIZ_ENABLED === 'true';
+import storageService from '@/lib/storage';
+import { RedactedQuizQuestionSchema, type QuizAnswers, type RedactedQuizQuestion } from '@/types/quiz';
 
 // --- Shared Interface Definitions ---
-export interface QuizQuestion {
-  Question: string;
-  Answer: string;
-  Category: string;
-  Type: 'Practical' | 'Theoretical';
-}
-
 export interface QuizSessionData {
-  questions: QuizQuestion[];
+  questions: RedactedQuizQuestion[];
   startTime: number;
   registrationCode: string;
-  quizNumber: 1 | 2 | 3 | 4;	
-  userAnswers: { [questionIndex: number]: string };
+  quizId: string;
+  quizTitle: string;
+  sessionToken: string;
+  userAnswers: QuizAnswers;
   currentQuestionIndex: number;
   timeLimit: number;
+  // Accommodation time already included in timeLimit
+  extraTime?: number;
   submitted?: boolean;
   endTime?: number;	
-  shuffled?: boolean;	
 }
 
-export type CompletedQuizSession = Required<Pick<QuizSessionData, 'endTime'>> & QuizSessionData;
+// Delay before unsaved answers are pushed to the server session
+const ANSWER_SYNC_DELAY_MS = 1500;
 
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const newArray = [...array]; // Create a copy to avoid mutating the original
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-};
+export type CompletedQuizSession = Required<Pick<QuizSessionData, 'endTime'>> & QuizSessionData;
 
 export default function GradedQuizSessionPage() {
   const router = useRouter();
   const [sessionData, setSessionData] = useState<QuizSessionData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  // 3. State for Quiz Unavailable Dialog
-  const [isQuizUnavailable, setIsQuizUnavailable] = useState(false);
+  const pendingAnswersRef = useRef<{ [questionId: string]: string }>({});
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
-    // 4. Check global quiz status first on mount
-    if (!GRADED_QUIZ_ENABLED) {
-        setIsQuizUnavailable(true);
-        setIsLoading(false); // Stop loading to render dialog
-        return; // Halt further execution
-    }
-
-    const loadSession = () => {
+    // Sessions started inside the availability window may finish after it closes; the server enforces this
+    const loadSession = async () => {
       try {
         const storedSession = sessionStorage.getItem('gradedQuizSession');
         if (!storedSession) {
@@ -71,6 +53,35 @@ export default function GradedQuizSessionPage() {
         }
 
         let parsedSession: QuizSessionData = JSON.parse(storedSession);
+
+        if (!parsedSession.sessionToken) {
+          throw new Error('This quiz session was not started on the server. Please start the quiz again.');
+        }
+
+        // The server owns the start time and limit; local copies are only a cache
+        const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(parsedSession.sessionToken)}`);
+        const serverSession = await response.json().catch(() => ({}));
+
+        if (!response.ok || !serverSession.success) {
+          throw new Error(serverSession.error || 'Unable to verify your quiz session. Please start the quiz again.');
+        }
+
+        const clockOffset = Date.now() - serverSession.serverTime;
+        const serverQuestions = RedactedQuizQuestionSchema.array().safeParse(serverSession.questions);
+        parsedSession = {
+          ...parsedSession,
+          registrationCode: serverSession.registrationCode,
+          // The server fixes the question order when the session starts, so a resume never reshuffles
+          questions: serverQuestions.success && serverQuestions.data.length > 0 ? serverQuestions.data : parsedSession.questions,
+          // Answers saved from this browser may be newer than the last server sync
+          userAnswers: { ...serverSession.answers, ...parsedSession.userAnswers },
+          startTime: serverSession.startTime + clockOffset,
+          timeLimit: serverSession.timeLimit,
+          extraTime: serverSession.extraTime,
+        };
+        parsedSession.currentQuestionIndex = Math.min(parsedSession.currentQuestionIndex, parsedSession.questions.length - 1);
+        sessionStorage.setItem('gradedQuizSession', JSON.stringify(parsedSession));
+        storageService.saveGradedQuizProgress(parsedSession).catch(console.error);
         
         // Check if session is already submitted/completed
         if (parsedSession.submitted && parsedSession.endTime) {
@@ -79,28 +90,6 @@ export default function GradedQuizSessionPage() {
           return;
         }
 
-        // 💡 SHUFFLING LOGIC
-        // Only shuffle if the session is NOT marked as shuffled yet.
-        if (!parsedSession.shuffled) {
-          //console.log('Shuffling quiz questions...');
-          const shuffledQuestions = shuffleArray(parsedSession.questions);
-          
-          // Recreate the session data with the new order and reset state keys	
-          // that rely on the old index (userAnswers).
-          // NOTE: It's critical to reset userAnswers as the indices no longer match the questions.
-          parsedSession = {
-            ...parsedSession,
-            questions: shuffledQuestions,
-            userAnswers: {}, // Reset answers for the new question order
-            currentQuestionIndex: 0, // Start at the first question
-            shuffled: true, // Mark as shuffled
-          };
-
-          // IMPORTANT: Save the shuffled session immediately to sessionStorage
-          // so a subsequent refresh doesn't re-shuffle.
-          sessionStorage.setItem('gradedQuizSession', JSON.stringify(parsedSession));
-        }
-
         setSessionData(parsedSession);
         setIsLoading(false);
       } catch (err) {
@@ -113,12 +102,98 @@ export default function GradedQuizSessionPage() {
     loadSession();
   }, [router]);
 
+  const flushPendingAnswers = useCallback(async (sessionToken: string) => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+    }
+
+    const answers = pendingAnswersRef.current;
+    if (Object.keys(answers).length === 0) return;
+    pendingAnswersRef.current = {};
+
+    try {
+      const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(sessionToken)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+      });
+
+      if (response.status === 429) {
+        // Saving too often; keep the answers queued for the next save
+        pendingAnswersRef.current = { ...answers, ...pendingAnswersRef.current };
+      }
+      if (!response.ok) {
+        console.warn('⚠️ Failed to save answers to the quiz session:', response.status);
+      }
+    } catch (err) {
+      // Keep the answers queued so the next change retries them
+      pendingAnswersRef.current = { ...answers, ...pendingAnswersRef.current };
+      console.warn('⚠️ Network error while saving answers:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    };
+  }, []);
+
+  // Push unsaved answers when the tab is hidden or closed; keepalive lets the request outlive the page
+  useEffect(() => {
+    const sessionToken = sessionData?.sessionToken;
+    if (!sessionToken) return;
+
+    const flushOnHide = () => {
+      const answers = pendingAnswersRef.current;
+      if (Object.keys(answers).length === 0) return;
+      pendingAnswersRef.current = {};
+
+      fetch(`/api/quiz-sessions/${encodeURIComponent(sessionToken)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+        keepalive: true,
+      }).catch(() => {
+        pendingAnswersRef.current = { ...answers, ...pendingAnswersRef.current };
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushOnHide();
+    };
+
+    window.addEventListener('pagehide', flushOnHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushOnHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [sessionData?.sessionToken]);
+
   const handleSessionUpdate = (updatedSession: QuizSessionData) => {
+    // Queue only the answers that changed since the last update
+    if (sessionData && updatedSession.userAnswers !== sessionData.userAnswers) {
+      for (const [questionId, answer] of Object.entries(updatedSession.userAnswers)) {
+        if (sessionData.userAnswers[questionId] !== answer) {
+          pendingAnswersRef.current[questionId] = answer;
+        }
+      }
+
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(() => {
+        flushPendingAnswers(updatedSession.sessionToken);
+      }, ANSWER_SYNC_DELAY_MS);
+    }
+
     setSessionData(updatedSession);
     sessionStorage.setItem('gradedQuizSession', JSON.stringify(updatedSession));
+    // IndexedDB outlives the tab, so the attempt can be resumed after a close or crash
+    storageService.saveGradedQuizProgress(updatedSession).catch(console.error);
   };
 
   const handleQuizComplete = (finalSession: QuizSessionData) => {
+    flushPendingAnswers(finalSession.sessionToken);
+
     const completedSession: CompletedQuizSession = { // Explicitly cast to the completed type
       ...finalSession,	
       endTime: Date.now(),
@@ -127,21 +202,12 @@ export default function GradedQuizSessionPage() {
     
     // Store the completed	
     sessionStorage.setItem('gradedQuizSession', JSON.stringify(completedSession));
+    storageService.saveGradedQuizProgress(completedSession).catch(console.error);
     
     // State is now the completed type, which triggers the render of QuizComplete
     setSessionData(completedSession);	
   };
 
-  // 5. Early return for Quiz Disabled
-  if (isQuizUnavailable) {
-      return (
-          <QuizUnavailableDialog 
-              isOpen={true} 
-              onClose={() => router.push('/')} // Navigate home when closing
-          />
-      );
-  }
-
   // --- Loading State ---
   if (isLoading) {
     return <QuizLoading />;
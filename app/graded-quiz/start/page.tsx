@@ -8,32 +8,16 @@ import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import Input from '@/components/ui/Input';
 import { QuizConfirmationDialog } from '@/components/dialogs/QuizConfirmationDialog';
-import { QuizUnavailableDialog } from '@/components/dialogs/QuizUnavailableDialog'; 
-
-
-// 2. Add the Graded Quiz Enabled check
-const GRADED_QUIZ_ENABLED = process.env.NEXT_PUBLIC_GRADED_QUIZ_ENABLED === 'true';
+import { QuizUnavailableDialog } from '@/components/dialogs/QuizUnavailableDialog';
+import type { QuizInfo } from '../page';
+import { QuizAnswersSchema, RedactedQuizQuestionSchema } from '@/types/quiz';
 
 // ... (Interface and constant definitions remain the same)
-interface QuizQuestion {
-  Question: string;
-  Answer: string;
-  Category: string;
-  Type: 'Practical' | 'Theoretical';
-}
-
 interface QuizData {
-  questions: QuizQuestion[];
-  quizNumber: 1 | 2 | 3 | 4;
+  totalQuestions: number;
+  quiz: QuizInfo;
 }
 
-const TIME_LIMIT_MINUTES = parseInt(
-  process.env.NEXT_PUBLIC_QUIZ_TIME_LIMIT ?? '60',
-  10
-);
-// Calculate time limit in milliseconds
-const TIME_LIMIT_MS = TIME_LIMIT_MINUTES * 60 * 1000;
-
 
 export default function GradedQuizStartPage() {
   const router = useRouter();
@@ -42,19 +26,15 @@ export default function GradedQuizStartPage() {
   const [quizData, setQuizData] = useState<QuizData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  // 3. State for Quiz Unavailable Dialog
-  const [isQuizUnavailable, setIsQuizUnavailable] = useState(false);
+  // Set when the server reports the quiz is outside its availability window
+  const [unavailableQuiz, setUnavailableQuiz] = useState<QuizInfo | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  // Time limit for this student, including any approved accommodation
+  const [timeLimitPreview, setTimeLimitPreview] = useState<{ timeLimit: number; extraTime: number } | null>(null);
     
   
   // Load questions from session storage (useEffect)
   useEffect(() => {
-    // 4. Check global quiz status first
-    if (!GRADED_QUIZ_ENABLED) {
-        setIsQuizUnavailable(true);
-        setIsLoading(false); // Stop loading to render dialog
-        return; // Halt further execution
-    }
-
     const loadQuestions = () => {
       try {
         const storedQuizData = sessionStorage.getItem('gradedQuizQuestions');
@@ -63,7 +43,7 @@ export default function GradedQuizStartPage() {
         }
 
         const parsedData: QuizData = JSON.parse(storedQuizData);
-        if (!parsedData.questions || parsedData.questions.length === 0) {
+        if (!parsedData.quiz || !parsedData.totalQuestions) {
           throw new Error('No questions available. Please load the quiz again.');
         }
 
@@ -84,7 +64,7 @@ export default function GradedQuizStartPage() {
     router.back();
   };
 
-  const handleStartQuiz = () => {
+  const handleStartQuiz = async () => {
     const code = registrationCode.trim();
 
     if (!code) {
@@ -98,34 +78,95 @@ export default function GradedQuizStartPage() {
     }
 
     setError('');
-    setShowConfirmation(true);
+    setIsStarting(true);
+
+    try {
+      const response = await fetch('/api/quiz-accommodations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ registrationCode: code, quizId: quizData?.quiz.id }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to check quiz time limit (status ${response.status})`);
+      }
+
+      setTimeLimitPreview({ timeLimit: data.timeLimit, extraTime: data.extraTime });
+      setShowConfirmation(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check quiz time limit');
+    } finally {
+      setIsStarting(false);
+    }
   };
 
-  const handleConfirmStart = () => {
+  const handleConfirmStart = async () => {
     if (!quizData) return;
 
     const code = registrationCode.trim();
+    setIsStarting(true);
+
+    try {
+      // The server records the real start time and binds the session to this code
+      const response = await fetch('/api/quiz-sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ registrationCode: code, quizId: quizData.quiz.id }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (data.quiz && data.quiz.status !== 'open') {
+        setShowConfirmation(false);
+        setUnavailableQuiz(data.quiz);
+        return;
+      }
 
-    // Store registration code in session storage
-    sessionStorage.setItem('gradedQuizRegistrationCode', code);
-
-    // Initialize quiz session
-    const quizSession = {
-      questions: quizData.questions,
-      registrationCode: code,
-      quizNumber: quizData.quizNumber,
-      startTime: Date.now(),
-      userAnswers: {} as { [questionIndex: number]: string },
-      currentQuestionIndex: 0,
-      timeLimit: TIME_LIMIT_MS,
-      submitted: false,
-    };
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to start quiz session (status ${response.status})`);
+      }
 
-    // Store the new session, which will overwrite any previous session data for this quiz.
-    sessionStorage.setItem('gradedQuizSession', JSON.stringify(quizSession));
+      // A question missing a field would only fail later, in the middle of the quiz
+      const questions = RedactedQuizQuestionSchema.array().safeParse(data.questions);
+      const answers = QuizAnswersSchema.safeParse(data.answers ?? {});
+      if (!questions.success || !answers.success) {
+        throw new Error('The quiz questions could not be read. Please try again.');
+      }
 
-    // Navigate to the actual quiz
-    router.push('/graded-quiz/session');
+      // Store registration code in session storage
+      sessionStorage.setItem('gradedQuizRegistrationCode', code);
+
+      // Translate the server start time onto the local clock for the countdown display
+      const clockOffset = Date.now() - data.serverTime;
+
+      // Initialize quiz session
+      const quizSession = {
+        // The server draws this student's questions from the quiz's pools
+        questions: questions.data,
+        registrationCode: data.registrationCode,
+        quizId: quizData.quiz.id,
+        quizTitle: quizData.quiz.title,
+        sessionToken: data.sessionToken,
+        extraTime: data.extraTime,
+        startTime: data.startTime + clockOffset,
+        // A resumed attempt comes back with the answers already saved on the server
+        userAnswers: answers.data,
+        currentQuestionIndex: 0,
+        timeLimit: data.timeLimit,
+        submitted: false,
+      };
+
+      // Store the new session, which will overwrite any previous session data for this quiz.
+      sessionStorage.setItem('gradedQuizSession', JSON.stringify(quizSession));
+
+      // Navigate to the actual quiz
+      router.push('/graded-quiz/session');
+    } catch (err) {
+      setShowConfirmation(false);
+      setError(err instanceof Error ? err.message : 'Failed to start quiz session');
+    } finally {
+      setIsStarting(false);
+    }
   };
 
   const handleCancelStart = () => {
@@ -136,11 +177,15 @@ export default function GradedQuizStartPage() {
     router.push('/graded-quiz');
   };
 
-  // 5. Early return for Quiz Disabled
-  if (isQuizUnavailable) {
+  // The window opened or closed while the student was on this page
+  if (unavailableQuiz) {
       return (
-          <QuizUnavailableDialog 
-              isOpen={true} 
+          <QuizUnavailableDialog
+              isOpen={true}
+              reason={unavailableQuiz.status === 'upcoming' ? 'upcoming' : 'closed'}
+              quizTitle={unavailableQuiz.title}
+              opensAt={unavailableQuiz.opensAt}
+              closesAt={unavailableQuiz.closesAt}
               onClose={() => router.push('/')} // Navigate home when closing
           />
       );
@@ -216,7 +261,7 @@ export default function GradedQuizStartPage() {
               <ArrowLeft className="h-5 w-5" />
               Back
             </Button>
-            <h1 className="text-xl font-semibold text-gray-900">Graded Quiz {quizData.quizNumber}</h1>
+            <h1 className="text-xl font-semibold text-gray-900">{quizData.quiz.title}</h1>
           </div>
         </div>
       </header>
@@ -231,7 +276,7 @@ export default function GradedQuizStartPage() {
                 <Shield className="h-8 w-8 text-white" />
               </div>
               <h2 className="text-2xl sm:text-3xl font-extrabold text-gray-900">
-                Begin Quiz {quizData.quizNumber}
+                Begin {quizData.quiz.title}
               </h2>
               <p className="text-gray-600 text-base md:text-lg max-w-md mx-auto">
                 Enter your unique registration code to start the quiz session.
@@ -248,7 +293,7 @@ export default function GradedQuizStartPage() {
                     <span className="font-medium text-gray-700">Total Questions</span>
                   </div>
                   <div className="text-xl font-bold text-purple-600">
-                    {quizData.questions.length}
+                    {quizData.totalQuestions}
                   </div>
                 </div>
 
@@ -258,7 +303,7 @@ export default function GradedQuizStartPage() {
                     <span className="font-medium text-gray-700">Time Limit</span>
                   </div>
                   <div className="text-xl font-bold text-blue-600">
-                    {TIME_LIMIT_MINUTES} min
+                    {quizData.quiz.timeLimitMinutes} min
                   </div>
                 </div>
               </div>
@@ -301,7 +346,7 @@ export default function GradedQuizStartPage() {
               <div className="flex items-start gap-3">
                 <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
                 <div className="text-sm text-yellow-800">
-                  <strong>Important Note:</strong> This is <b>Quiz {quizData.quizNumber}</b>. Please ensure you have practiced and reviewed your notes before attempting this quiz.
+                  <strong>Important Note:</strong> This is <b>{quizData.quiz.title}</b>. Please ensure you have practiced and reviewed your notes before attempting this quiz.
                 </div>
               </div>
             </div>
@@ -311,12 +356,12 @@ export default function GradedQuizStartPage() {
               <Button
                 onClick={handleStartQuiz}
                 // 🗹 FIXED: Removed check for isAlreadySubmitted in disabled and classname
-                disabled={!registrationCode.trim()}
+                disabled={!registrationCode.trim() || isStarting}
                 className={`flex items-center justify-center gap-2 px-8 py-3 w-full sm:w-auto text-lg font-bold transition duration-200 bg-purple-600 hover:bg-purple-700`}
                 size="lg"
               >
                 {/* 🗹 FIXED: Simplified button text */}
-                Start Quiz {quizData.quizNumber}
+                Start {quizData.quiz.title}
               </Button>
               <Button
                 variant="outline"
@@ -341,7 +386,7 @@ export default function GradedQuizStartPage() {
                 </li>
                 <li className="flex items-start gap-2">
                   <Clock className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
-                  <span>The quiz auto-submits when the {TIME_LIMIT_MINUTES}-minute time limit expires.</span>
+                  <span>The quiz auto-submits when the {quizData.quiz.timeLimitMinutes}-minute time limit expires.</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <Shield className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
@@ -359,7 +404,10 @@ export default function GradedQuizStartPage() {
         onClose={handleCancelStart}
         onConfirm={handleConfirmStart}
         registrationCode={registrationCode}
-        quizNumber={quizData.quizNumber}
+        quizTitle={quizData.quiz.title}
+        timeLimit={timeLimitPreview?.timeLimit ?? quizData.quiz.timeLimitMinutes * 60 * 1000}
+        extraTime={timeLimitPreview?.extraTime ?? 0}
+        isLoading={isStarting}
       />
     </div>
   );
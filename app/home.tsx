@@ -7,25 +7,29 @@ import { Settings, Key, Play, Award, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { ApiKeyDialog } from '@/components/dialogs/ApiKeyDialog';
-import storageService from '@/lib/storage';
+import { keyVault } from '@/lib/key-vault';
 
-const GRADED_QUIZ_ENABLED = process.env.NEXT_PUBLIC_GRADED_QUIZ_ENABLED === 'true';
+type GradedQuizStatus = 'open' | 'upcoming' | 'unavailable';
 
 
 export default function Home() {
 	const [apiKey, setApiKey] = useState<string | null>(null);
+	// The saved key is protected by a passphrase that has not been entered yet
+	const [isApiKeyLocked, setIsApiKeyLocked] = useState(false);
 	const [showApiKeyDialog, setShowApiKeyDialog] = useState(false);
 	const [isLoading, setIsLoading] = useState(true);
+	const [gradedQuizStatus, setGradedQuizStatus] = useState<GradedQuizStatus>('unavailable');
+	// Deployments evaluating with a local or mock provider do not need the student's Gemini key
+	const [requiresApiKey, setRequiresApiKey] = useState(true);
 	const router = useRouter();
+	const isGradedQuizAvailable = gradedQuizStatus !== 'unavailable';
 
 	// Load API key when component mounts
 	useEffect(() => {
 		const checkApiKey = async () => {
 			try {
-				const storedApiKey = await storageService.getItem('gemini_api_key');
-				
-				// FIX: Cast storedApiKey to the expected type (string | null)
-				setApiKey(storedApiKey as string | null);
+				setApiKey(await keyVault.getApiKey());
+				setIsApiKeyLocked(await keyVault.getStatus() === 'locked');
 			} catch (error) {
 				console.error('Error loading API key:', error);
 			} finally {
@@ -36,9 +40,43 @@ export default function Home() {
 		checkApiKey();
 	}, []);
 
+	useEffect(() => {
+		const checkEvaluationProvider = async () => {
+			try {
+				const response = await fetch('/api/evaluate-answer');
+				const data = await response.json();
+				if (response.ok) setRequiresApiKey(data.requiresApiKey !== false);
+			} catch (error) {
+				console.error('Error loading evaluation provider:', error);
+			}
+		};
+
+		checkEvaluationProvider();
+	}, []);
+
+	// Quiz availability comes from the server-side catalog schedule
+	useEffect(() => {
+		const checkGradedQuizzes = async () => {
+			try {
+				const response = await fetch('/api/quizzes');
+				const data = await response.json();
+				if (!response.ok || !data.success) return;
+
+				const statuses: string[] = data.quizzes.map((quiz: { status: string }) => quiz.status);
+				setGradedQuizStatus(statuses.includes('open') ? 'open' : statuses.includes('upcoming') ? 'upcoming' : 'unavailable');
+			} catch (error) {
+				console.error('Error loading graded quizzes:', error);
+			}
+		};
+
+		checkGradedQuizzes();
+	}, []);
+
 	// Handle "Begin Practice"
 	const handleBeginPractice = () => {
-		if (apiKey) {
+		if (isApiKeyLocked && requiresApiKey) {
+			router.push('/settings');
+		} else if (apiKey || !requiresApiKey) {
 			router.push('/category-selection');
 		} else {
 			setShowApiKeyDialog(true);
@@ -47,9 +85,11 @@ export default function Home() {
 
 	// Handle "Take Graded Quiz"
 	const handleGradedQuiz = () => {
-		if (!GRADED_QUIZ_ENABLED) return;
+		if (!isGradedQuizAvailable) return;
 		
-		if (apiKey) {
+		if (isApiKeyLocked && requiresApiKey) {
+			router.push('/settings');
+		} else if (apiKey || !requiresApiKey) {
 			// We'll implement the quiz loading logic in the next part
 			router.push('/graded-quiz');
 		} else {
@@ -60,8 +100,9 @@ export default function Home() {
 	// Save API key
 	const handleApiKeySave = async (newApiKey: string) => {
 		try {
-			await storageService.setItem('gemini_api_key', newApiKey.trim());
+			await keyVault.saveApiKey(newApiKey.trim());
 			setApiKey(newApiKey.trim());
+			setIsApiKeyLocked(false);
 			setShowApiKeyDialog(false);
 			router.push('/category-selection');
 		} catch (error) {
@@ -114,19 +155,19 @@ export default function Home() {
 						</Button>
 
 						{/* Graded Quiz Button */}
-						{GRADED_QUIZ_ENABLED && (
+						{isGradedQuizAvailable && (
 							<div className="space-y-2">
 								<Button
 									onClick={handleGradedQuiz}
-									disabled={!GRADED_QUIZ_ENABLED}
+									disabled={!isGradedQuizAvailable}
 									className={`w-full flex items-center justify-center gap-2 ${
-										GRADED_QUIZ_ENABLED 
+										isGradedQuizAvailable 
 											? 'bg-purple-600 hover:bg-purple-700' 
 											: 'bg-gray-400 cursor-not-allowed'
 									}`}
 									size="lg"
 								>
-									{GRADED_QUIZ_ENABLED ? (
+									{isGradedQuizAvailable ? (
 										<>
 											
 											Take Graded Quiz
@@ -139,7 +180,7 @@ export default function Home() {
 									)}
 								</Button>
 								
-								{!GRADED_QUIZ_ENABLED && (
+								{!isGradedQuizAvailable && (
 									<p className="text-xs text-gray-500">
 										Graded quizzes are currently disabled
 									</p>
@@ -160,11 +201,11 @@ export default function Home() {
 							<div className="flex items-center gap-2">
 								<div
 									className={`h-2 w-2 rounded-full ${
-										apiKey ? 'bg-green-500' : 'bg-red-500'
+										apiKey ? 'bg-green-500' : isApiKeyLocked ? 'bg-yellow-500' : 'bg-red-500'
 									}`}
 								/>
 								<span className="text-sm text-gray-600">
-									{apiKey ? 'Configured' : 'Not Set'}
+									{apiKey ? 'Configured' : isApiKeyLocked ? 'Locked' : 'Not Set'}
 								</span>
 							</div>
 						</div>
@@ -189,10 +230,23 @@ export default function Home() {
 								</Button>
 							</div>
 						)}
+
+						{isApiKeyLocked && (
+							<div className="mt-2">
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => router.push('/settings')}
+									className="w-full"
+								>
+									Unlock Key
+								</Button>
+							</div>
+						)}
 					</div>
 
 					{/* Quiz Status Indicator */}
-					{GRADED_QUIZ_ENABLED && (
+					{isGradedQuizAvailable && (
 						<div className="bg-purple-50 rounded-lg p-3 border border-purple-200">
 							<div className="flex items-center justify-between">
 								<div className="flex items-center gap-2">
@@ -200,12 +254,22 @@ export default function Home() {
 									<span className="text-sm font-medium text-purple-700">Graded Quiz</span>
 								</div>
 								<div className="flex items-center gap-2">
-									<div className="h-2 w-2 rounded-full bg-green-500" />
-									<span className="text-sm text-purple-600">Available</span>
+									<div className={`h-2 w-2 rounded-full ${gradedQuizStatus === 'open' ? 'bg-green-500' : 'bg-yellow-500'}`} />
+									<span className="text-sm text-purple-600">{gradedQuizStatus === 'open' ? 'Available' : 'Opens Soon'}</span>
 								</div>
 							</div>
 						</div>
 					)}
+
+					{/* Settings, including backup and restore */}
+					<Button
+						variant="ghost"
+						onClick={() => router.push('/settings')}
+						className="w-full flex items-center justify-center gap-2"
+					>
+						<Settings className="h-4 w-4" />
+						Settings &amp; Backup
+					</Button>
 				</Card>
 
 				{/* Features List */}
@@ -218,7 +282,7 @@ export default function Home() {
 						<div className="text-green-600 font-bold text-lg">100+</div>
 						<div className="text-xs text-gray-600">Challenges</div>
 					</div>
-					{GRADED_QUIZ_ENABLED && (
+					{isGradedQuizAvailable && (
 						<>
 							<div className="bg-white rounded-lg p-4 shadow-sm">
 								<div className="text-purple-600 font-bold text-lg">Quiz</div>
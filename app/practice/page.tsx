@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useEffect, useCallback, ChangeEvent } from 'react';
+import { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { ArrowLeft, Volume2, VolumeX, CheckCircle, XCircle, Play } from 'lucide-react';
+import { ArrowLeft, Volume2, VolumeX, CheckCircle, XCircle, Play, Terminal, AlertTriangle } from 'lucide-react';
 import { Suspense } from 'react'; 
 
 // UI Components
@@ -12,36 +12,33 @@ import { Textarea } from '@/components/ui/Textarea';
 import { ChallengeView } from '@/components/practice/ChallengeView';
 import { ProgressIndicator } from '@/components/practice/ProgressIndicator';
 import { FeedbackDisplay } from '@/components/practice/FeedbackDisplay';
+import { ExecutionOutput } from '@/components/practice/ExecutionOutput';
 import { PracticeControls } from '@/components/practice/ControlButtons';
 import { ConfirmationDialog } from '@/components/dialogs/ConfirmationDialog';
 import { PracticeComplete } from '@/components/practice/PracticeComplete';
+import { RegradedAnswers } from '@/components/practice/RegradedAnswers';
 
 // Libs/Database
-import { getApiKey } from '@/lib/storage';
+import { getApiKey } from '@/lib/key-vault';
+import { pythonRunner } from '@/lib/python-runner';
+import { sqlRunner } from '@/lib/sql-runner';
+import { LANGUAGE_NAMES, canRunInBrowser } from '@/lib/challenge-language';
+import { gradeFromTests } from '@/lib/test-cases';
+import { offlineEvaluator } from '@/lib/offline-evaluation';
+import { evaluationCache } from '@/lib/evaluation-cache';
+import { EVENT_STREAM_TYPE, firstSentence, isEventStream, readEvaluationStream } from '@/lib/evaluation-stream';
+import type { DataScienceChallenge, ExecutionResult, PracticeSession } from '@/types/challenge';
+import type { ChallengeAttempt, PendingRegrade, PracticeDataPayload } from '@/types/practice';
 import { practiceDatabase } from '@/lib/database';
-import { DataScienceChallenge, ChallengeAttempt, PracticeDataPayload, PracticeSession } from '@/lib/database';
+import { tabCoordinator } from '@/lib/tab-coordinator';
+import type { EvaluationRequest, EvaluationResponse as BaseEvaluationResponse } from '@/lib/evaluation-provider';
 
 // Define the API endpoint for evaluation
 const EVALUATION_API_ENDPOINT = '/api/evaluate-answer';
 
-interface EvaluationRequest {
-	instruction: string;
-	userCode: string;
-	expectedSolution: string;
-	language?: string;
-	context?: string;
-	apiKey?: string;
-}
-
-interface EvaluationResponse {
-	success: boolean;
-	feedback: string;
-	isCorrect: boolean;
-	score?: number;
-	suggestions?: string[];
-	errors?: string[];
-	confidence?: number;
-}
+type EvaluationResponse = BaseEvaluationResponse & {
+	provisional?: boolean; // Graded on the device while the evaluator was unreachable
+};
 
 interface TrialAttempt {
 	code: string;
@@ -55,6 +52,7 @@ interface CurrentChallengeAttemptState {
 	trials: number;
 	showAnswerClicked: boolean;
 	incorrectAttempts: TrialAttempt[];
+	promptTemplateVersion?: string;
 }
 
 interface PracticeState {
@@ -63,8 +61,14 @@ interface PracticeState {
 	userCode: string;
 	feedback: string;
 	isCorrect: boolean | null;
+	isProvisional: boolean;
+	previouslyEvaluatedAt: number | null; // Set when the feedback is a cached evaluation of the same code
+	verdict: EvaluationResponse['verdict'] | null; // Shown once the final evaluation arrives
+	isStreamingFeedback: boolean; // Feedback is still arriving from the evaluator
 	isShowingSampleAnswer: boolean;
 	isEvaluating: boolean;
+	isRunningCode: boolean;
+	executionResult: ExecutionResult | null;
 	isTtsEnabled: boolean;
 	showLeaveConfirmation: boolean;
 	isLoading: boolean;
@@ -92,8 +96,14 @@ function PracticePageContent() {
 		userCode: '',
 		feedback: '',
 		isCorrect: null,
+		isProvisional: false,
+		previouslyEvaluatedAt: null,
+		verdict: null,
+		isStreamingFeedback: false,
 		isShowingSampleAnswer: false,
 		isEvaluating: false,
+		isRunningCode: false,
+		executionResult: null,
 		isTtsEnabled: true,
 		showLeaveConfirmation: false,
 		isLoading: true,
@@ -111,8 +121,14 @@ function PracticePageContent() {
 		incorrectAttempts: [],
 	});
 
+	const [regradedAnswers, setRegradedAnswers] = useState<PendingRegrade[]>([]);
+	// This category was opened in another tab since; that tab now saves the session, and this one stops
+	const [isOpenElsewhere, setIsOpenElsewhere] = useState(false);
+
 	const [tts, setTts] = useState<SpeechSynthesisUtterance | null>(null);
 	const [isTtsReady, setIsTtsReady] = useState(false);
+	// Set once the first sentence of streaming feedback is being read, so the verdict is queued after it
+	const hasSpokenStreamedFeedback = useRef(false);
 
 	// NEW: Check for existing session on component mount
 	const checkExistingSession = useCallback(async () => {
@@ -219,6 +235,9 @@ function PracticePageContent() {
 
 	// NEW: Save session progress
 	const saveSessionProgress = useCallback(async () => {
+		// Saving here would overwrite the progress made in the other tab
+		if (isOpenElsewhere) return;
+
 		try {
 			if (!state.sessionId && state.challenges.length > 0) {
 				// Create new session
@@ -248,7 +267,84 @@ function PracticePageContent() {
 		} catch (error) {
 			console.error('❌ [PracticePage] Error saving session progress:', error);
 		}
-	}, [state.sessionId, state.challenges, state.allChallengeAttempts, state.currentChallengeIndex, state.sessionStartTime, category]);
+	}, [state.sessionId, state.challenges, state.allChallengeAttempts, state.currentChallengeIndex, state.sessionStartTime, category, isOpenElsewhere]);
+
+	// Tell other tabs practicing this category that this tab has it now, and hear when another one
+	// takes it or saves its session, which leaves this tab's copy stale
+	useEffect(() => {
+		tabCoordinator.announceSessionOpened(category);
+		return tabCoordinator.subscribe((message) => {
+			if (message.type === 'session-opened' && message.category === category) {
+				console.log(`🔀 [PracticePage] ${category} was opened in another tab`);
+				setIsOpenElsewhere(true);
+			} else if (message.type === 'active-sessions-changed' && (message.category === category || message.category === null)) {
+				console.log(`🔀 [PracticePage] ${category} session was changed in another tab`);
+				setIsOpenElsewhere(true);
+			}
+		});
+	}, [category]);
+
+	// Take the session back from the other tab. It is reloaded first, so saving resumes from the
+	// progress the other tab saved rather than overwriting it with this tab's stale copy.
+	const handleContinueHere = async () => {
+		tabCoordinator.announceSessionOpened(category);
+
+		try {
+			const savedSession = await practiceDatabase.getActivePracticeSession(category);
+
+			setState(prev => ({
+				...prev,
+				userCode: '',
+				feedback: '',
+				isCorrect: null,
+				isProvisional: false,
+				previouslyEvaluatedAt: null,
+				verdict: null,
+				isStreamingFeedback: false,
+				isShowingSampleAnswer: false,
+				executionResult: null,
+			}));
+
+			if (!savedSession || !(await loadSessionData(savedSession))) {
+				// The other tab finished or discarded the session, so start a new one
+				console.log(`ℹ️ [PracticePage] No saved ${category} session to continue; starting a new one`);
+				setState(prev => ({
+					...prev,
+					challenges: [],
+					currentChallengeIndex: 0,
+					sessionId: undefined,
+					sessionStartTime: Date.now(),
+					allChallengeAttempts: [],
+					isLoading: true,
+				}));
+			}
+
+			setIsOpenElsewhere(false);
+		} catch (error) {
+			console.error('❌ [PracticePage] Error reloading session from the other tab:', error);
+		}
+	};
+
+	/**
+	 * Send answers graded offline to the evaluator and show the ones that have a final verdict.
+	 */
+	const regradeOfflineAnswers = useCallback(async () => {
+		await offlineEvaluator.regradePending();
+		const regrades = await practiceDatabase.getPendingRegrades();
+		setRegradedAnswers(regrades.filter(regrade => regrade.status === 'REGRADED'));
+	}, []);
+
+	// Re-grade on load and whenever the connection comes back
+	useEffect(() => {
+		regradeOfflineAnswers();
+		window.addEventListener('online', regradeOfflineAnswers);
+		return () => window.removeEventListener('online', regradeOfflineAnswers);
+	}, [regradeOfflineAnswers]);
+
+	const handleDismissRegrade = async (id: string) => {
+		await practiceDatabase.removePendingRegrade(id);
+		setRegradedAnswers(prev => prev.filter(regrade => regrade.id !== id));
+	};
 
 	// Initialize TTS
 	useEffect(() => {
@@ -259,8 +355,17 @@ function PracticePageContent() {
 		}
 	}, []);
 
-	const speakText = (text: string) => {
+	const speakText = (text: string, queue = false) => {
 		if (tts && isTtsReady && state.isTtsEnabled) {
+			if (queue) {
+				// Read after whatever is already being spoken, e.g. the start of streamed feedback
+				const utterance = new SpeechSynthesisUtterance(text);
+				utterance.voice = tts.voice;
+				utterance.rate = tts.rate;
+				utterance.pitch = tts.pitch;
+				window.speechSynthesis.speak(utterance);
+				return;
+			}
 			window.speechSynthesis.cancel();
 			tts.text = text;
 			window.speechSynthesis.speak(tts);
@@ -283,6 +388,10 @@ function PracticePageContent() {
 					challenges: [],
 					feedback: `No questions found for category: ${category}\n\nPlease load a questions file or select a different category.`,
 					isCorrect: null,
+					isProvisional: false,
+					previouslyEvaluatedAt: null,
+					verdict: null,
+					isStreamingFeedback: false,
 					isLoading: false,
 				}));
 				speakText("No questions available for this category. Please load a questions file.");
@@ -296,6 +405,10 @@ function PracticePageContent() {
 				challenges: shuffledChallenges,
 				currentChallengeIndex: 0,
 				isCorrect: null,
+				isProvisional: false,
+				previouslyEvaluatedAt: null,
+				verdict: null,
+				isStreamingFeedback: false,
 				isLoading: false,
 			}));
 
@@ -318,6 +431,10 @@ function PracticePageContent() {
 				...prev,
 				feedback: 'Error loading challenges. Please try again.',
 				isCorrect: null,
+				isProvisional: false,
+				previouslyEvaluatedAt: null,
+				verdict: null,
+				isStreamingFeedback: false,
 				isLoading: false,
 			}));
 		}
@@ -348,12 +465,47 @@ function PracticePageContent() {
 	// Safe access to current challenge
 	const currentChallenge = state.challenges[state.currentChallengeIndex];
 	const totalChallenges = state.challenges.length;
+	const currentLanguage = currentChallenge?.language ?? 'python';
+	const languageName = LANGUAGE_NAMES[currentLanguage];
+
+	// Start loading the challenge's runtime while the student reads it
+	useEffect(() => {
+		const runner = currentLanguage === 'sql' ? sqlRunner : currentLanguage === 'python' ? pythonRunner : null;
+		runner?.preload().catch(error => {
+			console.warn(`⚠️ [PracticePage] ${LANGUAGE_NAMES[currentLanguage]} runtime could not be preloaded:`, error);
+		});
+	}, [currentLanguage]);
 
 	const handleCodeChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
 		const code = e.target.value;
 		setState(prev => ({ ...prev, userCode: code }));
 	};
 
+	/**
+	 * Run the student's code in the Pyodide worker, or a SQL query against the challenge's seeded
+	 * SQLite database, and show the result under the editor. Challenges with test cases run them
+	 * too, and SQL queries are compared with the reference solution, so "Run Code" already shows
+	 * what passes. R code cannot run in the browser and returns null.
+	 */
+	const runUserCode = async (code: string): Promise<ExecutionResult | null> => {
+		if (!canRunInBrowser(currentLanguage)) return null;
+
+		setState(prev => ({ ...prev, isRunningCode: true, executionResult: null }));
+		const testCases = currentChallenge?.testCases;
+		const executionResult = currentLanguage === 'sql'
+			? await sqlRunner.run(code, currentChallenge?.seedSql, currentChallenge?.solution)
+			: testCases?.length
+				? await pythonRunner.runTests(code, testCases)
+				: await pythonRunner.run(code);
+		setState(prev => ({ ...prev, isRunningCode: false, executionResult }));
+		return executionResult;
+	};
+
+	const handleRunCode = async () => {
+		if (!state.userCode.trim() || state.isRunningCode) return;
+		await runUserCode(state.userCode);
+	};
+
 	const isDontKnowResponse = (userInput: string): boolean => {
 		if (!userInput.trim()) return false;
 
@@ -381,11 +533,23 @@ function PracticePageContent() {
 		});
 	};
 
-	const handleEvaluationResult = (result: EvaluationResponse) => {
+	/**
+	 * When the challenge has test cases, they decide correctness and the score;
+	 * the evaluator only contributes the written feedback.
+	 */
+	const applyTestGrade = (result: EvaluationResponse, executionResult: ExecutionResult | null): EvaluationResponse => {
+		const grade = gradeFromTests(executionResult);
+		return grade ? { ...result, ...grade } : result;
+	};
+
+	const handleEvaluationResult = (result: EvaluationResponse, cachedAt?: number) => {
 		const cleanedFeedback = cleanFeedbackText(result.feedback);
 
 		// 1. Log the attempt details
 		logTrial(result.isCorrect, state.userCode, cleanedFeedback);
+		if (result.promptTemplate) {
+			setCurrentAttempt(prev => ({ ...prev, promptTemplateVersion: result.promptTemplate }));
+		}
 
 		// 2. Update the main UI state
 		setState(prev => ({
@@ -393,14 +557,22 @@ function PracticePageContent() {
 			feedback: cleanedFeedback,
 			isEvaluating: false,
 			isCorrect: result.isCorrect,
+			isProvisional: !!result.provisional,
+			previouslyEvaluatedAt: cachedAt ?? result.cachedAt ?? null,
+			verdict: result.verdict ?? (result.isCorrect ? 'CORRECT' : 'INCORRECT'),
+			isStreamingFeedback: false,
 		}));
 
-		// 3. Provide TTS feedback
-		if (result.isCorrect) {
-			speakText("Correct! Please click next to continue to the next challenge.");
+		// 3. Provide TTS feedback, after the sentence already read out while the feedback streamed
+		const queue = hasSpokenStreamedFeedback.current;
+		hasSpokenStreamedFeedback.current = false;
+		if (result.isCorrect && result.provisional) {
+			speakText("This looks correct for now. It will be re-graded when the evaluator is available. Please click next to continue.", queue);
+		} else if (result.isCorrect) {
+			speakText("Correct! Please click next to continue to the next challenge.", queue);
 		} else {
 			const additionalText = "\n\nYou can enter 'show answer' or 'I don't know' in the box to see a sample answer.";
-			speakText("Not quite right. Please go through the provided feedback and try again.");
+			speakText("Not quite right. Please go through the provided feedback and try again.", queue);
 			setState(prev => ({
 				...prev,
 				feedback: cleanedFeedback + additionalText
@@ -408,7 +580,22 @@ function PracticePageContent() {
 		}
 	};
 
-	const handleSubmit = async () => {
+	/**
+	 * Show feedback as the evaluator writes it, and start reading it aloud once the first sentence is complete.
+	 */
+	const handleStreamedFeedback = (feedback: string) => {
+		setState(prev => ({ ...prev, feedback, isStreamingFeedback: true }));
+
+		if (!hasSpokenStreamedFeedback.current) {
+			const sentence = firstSentence(cleanFeedbackText(feedback));
+			if (sentence) {
+				hasSpokenStreamedFeedback.current = true;
+				speakText(sentence);
+			}
+		}
+	};
+
+	const submitAnswer = async (forceRefresh = false) => {
 		if (!state.userCode.trim() && !state.isShowingSampleAnswer) {
 			setState(prev => ({
 				...prev,
@@ -432,14 +619,50 @@ function PracticePageContent() {
 			return;
 		}
 
-		setState(prev => ({ ...prev, isEvaluating: true, isCorrect: null }));
+		setState(prev => ({ ...prev, isEvaluating: true, isCorrect: null, isProvisional: false, previouslyEvaluatedAt: null, verdict: null }));
+		hasSpokenStreamedFeedback.current = false;
+
+		// The same code was evaluated before, so reuse that verdict instead of spending another evaluation
+		if (!forceRefresh) {
+			const cached = await evaluationCache.get<EvaluationResponse>(currentChallenge.id, state.userCode);
+			if (cached) {
+				setState(prev => ({ ...prev, executionResult: cached.executionResult ?? null }));
+				handleEvaluationResult(cached.response, cached.cachedAt);
+				return;
+			}
+		}
+
+		let executionResult: ExecutionResult | null = null;
+
+		/**
+		 * Grade on this device so the session can continue, and queue the answer for re-grading.
+		 */
+		const evaluateOffline = async (reason: string) => {
+			const input = {
+				challengeId: currentChallenge.id,
+				category,
+				instruction: currentChallenge.instruction,
+				userCode: state.userCode,
+				expectedSolution: currentChallenge.solution,
+				language: currentLanguage,
+				executionResult,
+			};
+			const evaluation = await offlineEvaluator.evaluate(input);
+			await offlineEvaluator.queueRegrade(input, evaluation);
+			handleEvaluationResult({ ...evaluation, feedback: `${evaluation.feedback}\n\n${reason}` });
+		};
 
 		try {
-			// Get the API key from storage
+			// Get the API key from the key vault (null while it is locked). Deployments using a local or
+			// mock provider do not need one, so the route decides whether a missing key is an error.
 			const apiKey = await getApiKey();
-			
-			if (!apiKey) {
-				throw new Error('API key not found. Please configure your Gemini API key in settings.');
+
+			// Run the code first so the evaluator sees what it actually does
+			executionResult = await runUserCode(state.userCode);
+
+			if (!navigator.onLine) {
+				await evaluateOffline('**OFFLINE:** You appear to be offline.');
+				return;
 			}
 
 			// Prepare the payload 
@@ -447,14 +670,19 @@ function PracticePageContent() {
 				instruction: currentChallenge.instruction,
 				userCode: state.userCode,
 				expectedSolution: currentChallenge.solution,
-				apiKey: apiKey, 
+				language: currentLanguage,
+				category: currentChallenge.category || category,
+				...(executionResult && { executionResult }),
+				...(apiKey && { apiKey }),
+				...(forceRefresh && { forceRefresh }),
 			};
 
-			// Use fetch to call the Route Handler
+			// Use fetch to call the Route Handler, asking for the feedback to be streamed
 			const response = await fetch(EVALUATION_API_ENDPOINT, {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
+					Accept: `${EVENT_STREAM_TYPE}, application/json`,
 				},
 				body: JSON.stringify(payload),
 			});
@@ -473,8 +701,21 @@ function PracticePageContent() {
 			}
             
             // If response is OK
-			const result: EvaluationResponse = await response.json();
-			handleEvaluationResult(result);
+			let streamedFeedback = '';
+			const result: EvaluationResponse = isEventStream(response)
+				? await readEvaluationStream<EvaluationResponse>(response, {
+					onFeedback: text => {
+						streamedFeedback += text;
+						handleStreamedFeedback(streamedFeedback);
+					},
+				})
+				: await response.json();
+			const gradedResult = applyTestGrade(result, executionResult);
+			handleEvaluationResult(gradedResult);
+			evaluationCache.set(currentChallenge.id, state.userCode, gradedResult, executionResult);
+
+			// The evaluator is reachable again, so earlier offline answers can get their final verdict
+			regradeOfflineAnswers();
 
 		} catch (error) {
 			console.error('Error evaluating code:', error);
@@ -486,29 +727,48 @@ function PracticePageContent() {
                 
                 // Refine messages for common errors returned by the Route Handler
                 // The route handler now sends the exact message for validation and API errors.
-                if (error.message.includes('API key not found')) {
+                if (error.message.includes('API key not found') || error.message.includes('API key is required')) {
                     feedbackMessage = 'Evaluation failed: Gemini API key not configured. Please check your settings.';
                 } else if (error.message.includes('Invalid API key provided.') || error.message.includes('API key not valid')) {
 					// Catch both the Route's simplified message and the detailed Gemini message
 					feedbackMessage = `**API KEY ERROR:** The provided Gemini API Key is invalid or not authorized. Please leave the practice session and update your key in the homepage. \n\nDetails: ${error.message}`;
 				} else if (error.message.includes('Rate limit exceeded')) {
 					feedbackMessage = `**RATE LIMIT EXCEEDED:** You have sent too many requests. Please try again later. \n\nDetails: ${error.message}`;
+				} else if (error.message.includes('Could not reach')) {
+					feedbackMessage = `**SERVICE ERROR:** ${error.message}`;
 				} else if (error.message.includes('Service unavailable') || error.message.includes('503')) {
 					feedbackMessage = `**SERVICE ERROR:** The Gemini AI service is temporarily unavailable. Please try again in a few moments.`;
+				} else if (error instanceof TypeError) {
+					// fetch rejects with a TypeError when the request never reaches the server
+					feedbackMessage = '**OFFLINE:** Could not reach the server. Check your connection.';
 				}
             }
 
+			// Grade on this device instead of stalling the session
+			try {
+				await evaluateOffline(feedbackMessage);
+				return;
+			} catch (offlineError) {
+				console.error('Offline evaluation failed:', offlineError);
+			}
+
 			setState(prev => ({
 				...prev,
 				feedback: feedbackMessage,
 				isEvaluating: false,
 				isCorrect: false,
+				isStreamingFeedback: false,
 			}));
 			// We still log this attempt as a trial
 			logTrial(false, state.userCode, feedbackMessage);
 		}
 	};
 
+	const handleSubmit = () => submitAnswer();
+
+	// Ask the evaluator again even though this code has a cached verdict
+	const handleReevaluate = () => submitAnswer(true);
+
 	const handleDontKnowResponse = () => {
 		if (!currentChallenge) {
 			setState(prev => ({
@@ -530,7 +790,12 @@ function PracticePageContent() {
 			isShowingSampleAnswer: true,
 			feedback: `You requested the answer. Please study the sample solution below, then click 'Hide Answer' to clear your input and try again.`,
 			isCorrect: false, // Mark as incorrect since they didn't solve it
+			isProvisional: false,
+			previouslyEvaluatedAt: null,
+			verdict: null,
+			isStreamingFeedback: false,
 			userCode: '', // Clear user code to force them to re-implement
+			executionResult: null,
 		}));
 
 		speakText("Here's a sample answer. Please study it and try to implement it in your own words. Click Hide Answer to retake the challenge.");
@@ -565,6 +830,7 @@ function PracticePageContent() {
 			timeSpentSeconds,
 			incorrectAttempts: currentAttempt.incorrectAttempts,
 			timestamp: new Date(), // <-- The missing required property
+			...(currentAttempt.promptTemplateVersion && { promptTemplateVersion: currentAttempt.promptTemplateVersion }),
 		};
 
 		setState(prev => ({
@@ -595,7 +861,12 @@ function PracticePageContent() {
 			userCode: '',
 			feedback: '',
 			isCorrect: null,
+			isProvisional: false,
+			previouslyEvaluatedAt: null,
+			verdict: null,
+			isStreamingFeedback: false,
 			isShowingSampleAnswer: false,
+			executionResult: null,
 		}));
 
 		// 3. Reset the current attempt state for the NEW challenge
@@ -619,6 +890,7 @@ function PracticePageContent() {
 			feedback: '',
 			isShowingSampleAnswer: false,
 			userCode: '',
+			executionResult: null,
 			isCorrect: false, // Setting to false ensures the primary button says 'Resubmit'
 		}));
 	};
@@ -769,6 +1041,26 @@ function PracticePageContent() {
 			</header>
 
 			<main className="max-w-6xl mx-auto px-4 py-6">
+				{/* Open in Another Tab Banner */}
+				{isOpenElsewhere && (
+					<div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+						<div className="flex items-center justify-between gap-3">
+							<div className="flex items-center gap-3">
+								<AlertTriangle className="h-5 w-5 text-yellow-600" />
+								<div>
+									<h3 className="font-medium text-yellow-800">Open in Another Tab</h3>
+									<p className="text-sm text-yellow-700">
+										{category} practice was opened or saved in another tab, so progress in this tab is no longer saved. Continue here to pick up from the latest saved progress.
+									</p>
+								</div>
+							</div>
+							<Button variant="outline" size="sm" onClick={handleContinueHere}>
+								Continue Here
+							</Button>
+						</div>
+					</div>
+				)}
+
 				{/* Session Resume Banner */}
 				{showResumeBanner && (
 					<div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
@@ -785,6 +1077,12 @@ function PracticePageContent() {
 				)}
 
 				<div className="space-y-6">
+					{/* Final verdicts for answers graded offline */}
+					<RegradedAnswers
+						regrades={regradedAnswers}
+						onDismiss={handleDismissRegrade}
+					/>
+
 					{/* Progress Indicator */}
 					<ProgressIndicator
 						current={state.currentChallengeIndex + 1}
@@ -803,13 +1101,27 @@ function PracticePageContent() {
 					{/* Code Input */}
 					<Card>
 						<div className="p-6 space-y-4">
-							<label className="block text-sm font-medium text-gray-700">
-								Write your Python code here:
-							</label>
+							<div className="flex items-center justify-between">
+								<label className="block text-sm font-medium text-gray-700">
+									Write your {currentLanguage === 'sql' ? 'SQL query' : `${languageName} code`} here:
+								</label>
+								{canRunInBrowser(currentLanguage) && (
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={handleRunCode}
+										disabled={!state.userCode.trim() || state.isRunningCode || state.isEvaluating || state.isShowingSampleAnswer}
+										className="flex items-center gap-2"
+									>
+										<Terminal className="h-4 w-4" />
+										{currentLanguage === 'sql' ? 'Run Query' : 'Run Code'}
+									</Button>
+								)}
+							</div>
 							<Textarea
 								value={state.userCode}
 								onChange={handleCodeChange}
-								placeholder="Write your Python code here..."
+								placeholder={currentLanguage === 'sql' ? 'SELECT ...' : `Write your ${languageName} code here...`}
 								rows={8}
 								disabled={state.isShowingSampleAnswer || state.isEvaluating}
 								className="font-mono text-sm"
@@ -834,11 +1146,23 @@ function PracticePageContent() {
 						}
 					/>
 
+					{/* Execution Output */}
+					<ExecutionOutput
+						result={state.executionResult}
+						isRunning={state.isRunningCode}
+					/>
+
 					{/* Feedback */}
 					{state.feedback && (
 						<FeedbackDisplay
 							feedback={state.feedback}
+							provisional={state.isProvisional}
+							previouslyEvaluatedAt={state.previouslyEvaluatedAt}
+							verdict={state.verdict ?? undefined}
+							isStreaming={state.isStreamingFeedback}
+							onReevaluate={state.isEvaluating ? undefined : handleReevaluate}
 							sampleAnswer={currentChallenge.solution}
+							language={currentLanguage}
 							showSampleAnswer={state.isShowingSampleAnswer}
 							onHideAnswer={handleHideAnswer}
 						/>
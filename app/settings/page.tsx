@@ -0,0 +1,439 @@
+// app/settings/page.tsx
+'use client';
+
+import { AlertCircle, ArrowLeft, CheckCircle, Download, Key, Loader2, Lock, Upload } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { ConfirmationDialog } from '@/components/dialogs/ConfirmationDialog';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import Input from '@/components/ui/Input';
+import { BACKUP_SECTION_LABELS, type BackupSection, backupService, type RestorePreview } from '@/lib/backup';
+import { type ApiKeyProtection, type ApiKeyStatus, keyVault } from '@/lib/key-vault';
+import storageService from '@/lib/storage';
+import type { Backup, RestoreMode } from '@/types/backup';
+
+const RESTORE_MODES: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Keep everything on this device and add what the backup has. Settings on this device are kept.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Make this device match the backup. Anything not in the backup is deleted.',
+  },
+];
+
+interface RestoreState {
+  fileName: string;
+  backup: Backup | null;
+  mode: RestoreMode;
+  preview: RestorePreview | null;
+  error: string | null;
+  result: string | null;
+}
+
+const INITIAL_RESTORE_STATE: RestoreState = {
+  fileName: '',
+  backup: null,
+  mode: 'merge',
+  preview: null,
+  error: null,
+  result: null,
+};
+
+export default function SettingsPage() {
+  const [apiKeyStatus, setApiKeyStatus] = useState<ApiKeyStatus>('none');
+  const [apiKeyProtection, setApiKeyProtection] = useState<ApiKeyProtection | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [apiKeyMessage, setApiKeyMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isUpdatingApiKey, setIsUpdatingApiKey] = useState(false);
+  const [lastBackup, setLastBackup] = useState<Date | null>(null);
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [restore, setRestore] = useState<RestoreState>(INITIAL_RESTORE_STATE);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [showReplaceConfirmation, setShowReplaceConfirmation] = useState(false);
+  const router = useRouter();
+
+  const loadApiKeyStatus = useCallback(async () => {
+    try {
+      setApiKeyStatus(await keyVault.getStatus());
+      setApiKeyProtection(await keyVault.getProtection());
+    } catch (error) {
+      console.error('❌ [Settings] Error reading API key status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeyStatus();
+    storageService.getLastBackupTime().then(setLastBackup).catch(console.error);
+  }, [loadApiKeyStatus]);
+
+  // Runs a key vault change, then shows its outcome and the new status
+  const updateApiKey = async (change: () => Promise<string>) => {
+    setIsUpdatingApiKey(true);
+    setApiKeyMessage(null);
+
+    try {
+      setApiKeyMessage({ type: 'success', text: await change() });
+      setPassphrase('');
+    } catch (error) {
+      console.error('❌ [Settings] Error updating API key:', error);
+      setApiKeyMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not update the API key.' });
+    } finally {
+      await loadApiKeyStatus();
+      setIsUpdatingApiKey(false);
+    }
+  };
+
+  const handleUnlock = () => updateApiKey(async () => {
+    if (!(await keyVault.unlock(passphrase))) {
+      throw new Error('That passphrase is not correct.');
+    }
+    return 'API key unlocked until you close DeamV.';
+  });
+
+  const handleSetPassphrase = () => updateApiKey(async () => {
+    await keyVault.setPassphrase(passphrase);
+    return 'Your API key is now protected by your passphrase. You will enter it each time you open DeamV.';
+  });
+
+  const handleRemovePassphrase = () => updateApiKey(async () => {
+    await keyVault.setPassphrase(null);
+    return 'Passphrase removed. Your API key is encrypted with this device\'s key.';
+  });
+
+  const handleRemoveApiKey = () => updateApiKey(async () => {
+    await keyVault.removeApiKey();
+    return 'API key removed from this device.';
+  });
+
+  // Dry run: recompute what the restore would change whenever the backup or mode changes
+  const loadPreview = useCallback(async (backup: Backup, mode: RestoreMode) => {
+    try {
+      const preview = await backupService.previewRestore(backup, mode);
+      setRestore(prev => ({ ...prev, preview }));
+    } catch (error) {
+      console.error('❌ [Settings] Error previewing restore:', error);
+      setRestore(prev => ({ ...prev, preview: null, error: 'Could not read the data on this device to compare with the backup.' }));
+    }
+  }, []);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    setBackupError(null);
+
+    try {
+      const { fileName, contents } = await backupService.exportBackup({ includeApiKey });
+
+      const blob = new Blob([contents], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setLastBackup(await storageService.getLastBackupTime());
+    } catch (error) {
+      console.error('❌ [Settings] Error creating backup:', error);
+      setBackupError(error instanceof Error ? error.message : 'Could not create the backup.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input, so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (!file) return;
+
+    const parsed = await backupService.parseBackup(await file.text());
+    if (!parsed.success) {
+      setRestore({ ...INITIAL_RESTORE_STATE, fileName: file.name, error: parsed.error });
+      return;
+    }
+
+    setRestore({ ...INITIAL_RESTORE_STATE, fileName: file.name, backup: parsed.data });
+    await loadPreview(parsed.data, INITIAL_RESTORE_STATE.mode);
+  };
+
+  const handleModeChange = async (mode: RestoreMode) => {
+    setRestore(prev => ({ ...prev, mode, preview: null, result: null }));
+    if (restore.backup) await loadPreview(restore.backup, mode);
+  };
+
+  const handleRestore = async () => {
+    if (!restore.backup) return;
+    setShowReplaceConfirmation(false);
+    setIsRestoring(true);
+
+    try {
+      await backupService.restoreBackup(restore.backup, restore.mode);
+      await loadApiKeyStatus();
+      setRestore({
+        ...INITIAL_RESTORE_STATE,
+        result: `Restored the backup from ${new Date(restore.backup.createdAt).toLocaleString()}.`,
+      });
+    } catch (error) {
+      console.error('❌ [Settings] Error restoring backup:', error);
+      setRestore(prev => ({ ...prev, error: 'The backup could not be restored. Please try again.' }));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const hasChanges = restore.preview !== null && Object.values(restore.preview)
+    .some(diff => diff.added + diff.updated + diff.removed > 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              onClick={() => router.push('/')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Settings
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* API key */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Key className="h-5 w-5 text-gray-500" />
+              API key
+            </h2>
+            <p className="text-sm text-gray-600">
+              {apiKeyStatus === 'none'
+                ? 'No API key is saved. Add one from the home screen.'
+                : apiKeyStatus === 'locked'
+                  ? 'Your API key is locked with a passphrase. Enter it to use the key until you close DeamV.'
+                  : apiKeyProtection === 'passphrase'
+                    ? 'Your API key is protected by your passphrase and unlocked until you close DeamV.'
+                    : 'Your API key is encrypted with a key that never leaves this device. Add a passphrase to require it each time you open DeamV.'}
+            </p>
+          </div>
+
+          {apiKeyMessage && (
+            <p className={`text-sm ${apiKeyMessage.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+              {apiKeyMessage.text}
+            </p>
+          )}
+
+          {(apiKeyStatus === 'locked' || (apiKeyStatus === 'unlocked' && apiKeyProtection === 'device')) && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={apiKeyStatus === 'locked' ? 'Passphrase' : 'New passphrase (at least 8 characters)'}
+                autoComplete={apiKeyStatus === 'locked' ? 'current-password' : 'new-password'}
+              />
+              <Button
+                onClick={apiKeyStatus === 'locked' ? handleUnlock : handleSetPassphrase}
+                disabled={isUpdatingApiKey || !passphrase}
+                className="flex items-center gap-2 shrink-0"
+              >
+                {isUpdatingApiKey ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+                {apiKeyStatus === 'locked' ? 'Unlock' : 'Add Passphrase'}
+              </Button>
+            </div>
+          )}
+
+          {apiKeyStatus !== 'none' && (
+            <div className="flex gap-2">
+              {apiKeyStatus === 'unlocked' && apiKeyProtection === 'passphrase' && (
+                <Button variant="outline" size="sm" onClick={handleRemovePassphrase} disabled={isUpdatingApiKey}>
+                  Remove Passphrase
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleRemoveApiKey} disabled={isUpdatingApiKey}>
+                Remove Key
+              </Button>
+            </div>
+          )}
+        </Card>
+
+        {/* Back up */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Back up your data</h2>
+            <p className="text-sm text-gray-600">
+              Download your challenges, progress, practice history and settings as one file. Restore it on a new phone or
+              browser to pick up where you left off. Your API key is left out unless you include it below.
+            </p>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Last backup: {lastBackup ? lastBackup.toLocaleString() : 'never'}
+          </p>
+
+          {apiKeyStatus !== 'none' && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeApiKey}
+                onChange={(e) => setIncludeApiKey(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Include my API key. It is saved in the file in plain text, so anyone with the file can use it.
+              </span>
+            </label>
+          )}
+
+          {backupError && (
+            <p className="text-sm text-red-600">{backupError}</p>
+          )}
+
+          <Button
+            onClick={handleBackup}
+            disabled={isBackingUp}
+            className="flex items-center gap-2"
+          >
+            {isBackingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download Backup
+          </Button>
+        </Card>
+
+        {/* Restore */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Restore from a backup</h2>
+            <p className="text-sm text-gray-600">
+              Choose a backup file to see what it would change. Nothing is changed until you restore.
+            </p>
+          </div>
+
+          <label className="inline-flex items-center gap-2 cursor-pointer rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+            <Upload className="h-4 w-4" />
+            {restore.fileName || 'Choose Backup File'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+          </label>
+
+          {restore.error && (
+            <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{restore.error}</span>
+            </div>
+          )}
+
+          {restore.result && (
+            <div className="flex items-start gap-2 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{restore.result}</span>
+            </div>
+          )}
+
+          {restore.backup && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Backup made {new Date(restore.backup.createdAt).toLocaleString()}
+              </p>
+
+              {/* Restore mode */}
+              <div className="grid gap-3 sm:grid-cols-2">
+                {RESTORE_MODES.map(({ value, label, description }) => (
+                  <label
+                    key={value}
+                    className={`cursor-pointer rounded-lg border p-3 ${
+                      restore.mode === value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="restore-mode"
+                        value={value}
+                        checked={restore.mode === value}
+                        onChange={() => handleModeChange(value)}
+                      />
+                      <span className="font-medium text-gray-900">{label}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-600">{description}</p>
+                  </label>
+                ))}
+              </div>
+
+              {/* Dry-run preview */}
+              {restore.preview ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 font-medium">Data</th>
+                      <th className="py-2 font-medium text-right">Added</th>
+                      <th className="py-2 font-medium text-right">Updated</th>
+                      <th className="py-2 font-medium text-right">Removed</th>
+                      <th className="py-2 font-medium text-right">Unchanged</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.keys(BACKUP_SECTION_LABELS) as BackupSection[]).map(section => {
+                      const diff = restore.preview?.[section];
+                      if (!diff) return null;
+                      return (
+                        <tr key={section} className="border-b last:border-0 text-gray-700">
+                          <td className="py-2">{BACKUP_SECTION_LABELS[section]}</td>
+                          <td className="py-2 text-right text-green-700">{diff.added}</td>
+                          <td className="py-2 text-right text-blue-700">{diff.updated}</td>
+                          <td className="py-2 text-right text-red-700">{diff.removed}</td>
+                          <td className="py-2 text-right text-gray-500">{diff.unchanged}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ) : (
+                <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
+              )}
+
+              <Button
+                onClick={() => (restore.mode === 'replace' ? setShowReplaceConfirmation(true) : handleRestore())}
+                disabled={isRestoring || !hasChanges}
+                className="flex items-center gap-2"
+              >
+                {isRestoring && <Loader2 className="h-4 w-4 animate-spin" />}
+                {hasChanges ? 'Restore Backup' : 'Nothing to Restore'}
+              </Button>
+            </div>
+          )}
+        </Card>
+      </main>
+
+      <ConfirmationDialog
+        isOpen={showReplaceConfirmation}
+        onClose={() => setShowReplaceConfirmation(false)}
+        onConfirm={handleRestore}
+        title="Replace data on this device?"
+        message="Everything on this device that is not in the backup will be deleted. This cannot be undone."
+        confirmText="Replace"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
 import { Dialog } from '@/components/ui/Dialog';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
+import type { NotebookUpload } from '@/types/notebook';
 
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
     label: string;
@@ -40,14 +41,8 @@ const Select: React.FC<SelectProps> = ({ label, options, ...props }) => (
 );
 
 
-// 1. UPDATED INTERFACE to include registrationCode
-interface NotebookUploadData {
-    firstName: string;
-    lastName: string;
-    className: string;
-    notebookUrl: string;
-    registrationCode: string; // <-- NEW FIELD
-}
+// The same shape the upload route validates
+type NotebookUploadData = NotebookUpload;
 
 interface NotebookUploadDialogProps {
 	isOpen: boolean;
@@ -1,7 +1,7 @@
 // components/dialogs/QuizConfirmationDialog.tsx
 'use client';
 
-import { Shield, AlertTriangle } from 'lucide-react';
+import { Shield, AlertTriangle, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Dialog } from '@/components/ui/Dialog';
 
@@ -11,8 +11,9 @@ interface QuizConfirmationDialogProps {
 	onConfirm: () => void;
 	registrationCode: string;
 	isLoading?: boolean;
-	// FIX: Add the missing 'quizNumber' property
-	quizNumber: 1 | 2 | 3 | 4;
+	quizTitle: string;
+	timeLimit: number;
+	extraTime?: number;
 }
 
 export const QuizConfirmationDialog: React.FC<QuizConfirmationDialogProps> = ({
@@ -20,7 +21,9 @@ export const QuizConfirmationDialog: React.FC<QuizConfirmationDialogProps> = ({
 	onClose,
 	onConfirm,
 	registrationCode,
-	quizNumber, // Destructure the new prop
+	quizTitle,
+	timeLimit,
+	extraTime = 0,
 	isLoading = false,
 }) => {
 	return (
@@ -34,7 +37,7 @@ export const QuizConfirmationDialog: React.FC<QuizConfirmationDialogProps> = ({
 				{/* Title */}
 				<div className="space-y-2">
 					<h3 className="text-xl font-semibold text-gray-900">
-						Confirm Quiz {quizNumber} Details {/* Use quizNumber in title */}
+						Confirm {quizTitle} Details
 					</h3>
 					<div className="text-sm text-gray-600 space-y-3">
 						<div>Please confirm that this is your correct registration code:</div>
@@ -43,8 +46,15 @@ export const QuizConfirmationDialog: React.FC<QuizConfirmationDialogProps> = ({
 								{registrationCode}
 							</code>
 						</div>
+						<div className="flex items-center justify-center gap-2 text-gray-700">
+							<Clock className="h-4 w-4 text-purple-600" />
+							<span>
+								Time limit: <strong>{Math.round(timeLimit / 60000)} minutes</strong>
+								{extraTime > 0 && ` (includes ${Math.round(extraTime / 60000)} minutes of approved extra time)`}
+							</span>
+						</div>
 						<div className="text-xs text-gray-500">
-                            You are about to start <strong>Quiz {quizNumber}</strong>. This code cannot be changed once the quiz starts.
+                            You are about to start <strong>{quizTitle}</strong>. This code cannot be changed once the quiz starts.
 						</div>
 					</div>
 				</div>
@@ -64,7 +74,7 @@ export const QuizConfirmationDialog: React.FC<QuizConfirmationDialogProps> = ({
 						disabled={isLoading}
 						className="flex-1 bg-purple-600 hover:bg-purple-700"
 					>
-						{isLoading ? 'Starting...' : `Yes, Start Quiz ${quizNumber}`}
+						{isLoading ? 'Starting...' : `Yes, Start ${quizTitle}`}
 					</Button>
 				</div>
 			</div>
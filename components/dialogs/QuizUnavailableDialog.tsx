@@ -1,29 +1,60 @@
 // components/dialogs/QuizUnavailableDialog.tsx
-import { Lock, AlertTriangle } from 'lucide-react';
+import { Lock, AlertTriangle, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { useRouter } from 'next/navigation';
 
+export type QuizUnavailableReason = 'upcoming' | 'closed' | 'none';
+
 interface QuizUnavailableDialogProps {
     isOpen: boolean;
     onClose: () => void;
+    reason?: QuizUnavailableReason;
+    quizTitle?: string;
+    opensAt?: string | null;
+    closesAt?: string | null;
 }
 
-export function QuizUnavailableDialog({ isOpen, onClose }: QuizUnavailableDialogProps) {
+const formatWindowTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(undefined, {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+export function QuizUnavailableDialog({
+    isOpen,
+    onClose,
+    reason = 'none',
+    quizTitle = 'The graded quiz',
+    opensAt,
+    closesAt,
+}: QuizUnavailableDialogProps) {
     const router = useRouter();
 
     if (!isOpen) return null;
 
+    const title = reason === 'upcoming' ? 'Quiz Not Open Yet' : reason === 'closed' ? 'Quiz Closed' : 'No Quiz Available';
+    const message =
+        reason === 'upcoming' && opensAt
+            ? `${quizTitle} opens on ${formatWindowTime(opensAt)}. Please come back then.`
+            : reason === 'closed' && closesAt
+                ? `${quizTitle} closed on ${formatWindowTime(closesAt)}. Submissions are no longer accepted.`
+                : reason === 'closed'
+                    ? `${quizTitle} has closed. Submissions are no longer accepted.`
+                    : 'There is no graded quiz open right now. Please check back when notified otherwise.';
+    const Icon = reason === 'upcoming' ? CalendarClock : reason === 'closed' ? Lock : AlertTriangle;
+
     return (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
             <Card className="max-w-sm w-full p-6 text-center shadow-2xl space-y-4">
                 <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center">
-                    <AlertTriangle className="h-8 w-8 text-red-600" />
+                    <Icon className="h-8 w-8 text-red-600" />
                 </div>
-                <h3 className="text-xl font-bold text-red-800">Quiz Unavailable</h3>
-                <p className="text-gray-600">
-                    The graded quiz is currently disabled by the administrator. Please check back when notified otherwise.
-                </p>
+                <h3 className="text-xl font-bold text-red-800">{title}</h3>
+                <p className="text-gray-600">{message}</p>
                 <Button
                     onClick={() => {
                         onClose();
@@ -37,5 +68,3 @@ export function QuizUnavailableDialog({ isOpen, onClose }: QuizUnavailableDialog
         </div>
     );
 }
-
-// NOTE: You would need to ensure the imports for Button and Card are correct for your project setup.
@@ -1,16 +1,22 @@
 import React from 'react';
-import { Code, Lightbulb, Clock, BarChart3, Tag, Play } from 'lucide-react';
+import { Code, Lightbulb, Clock, BarChart3, Tag, Play, Database, HelpCircle } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { CodeDisplay } from './CodeDisplay';
+import { LANGUAGE_NAMES } from '@/lib/challenge-language';
+import type { ChallengeLanguage, DataScienceChallenge } from '@/types/challenge';
 
-interface Challenge {
-  id?: string;
-  instruction: string;
-  solution: string;
-  category: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
-  estimatedTime?: number; // in minutes
-}
+// Only the text fields are needed; stored challenges and previews both fit
+type Challenge = Pick<DataScienceChallenge, 'instruction' | 'solution' | 'category'> & Partial<DataScienceChallenge>;
+
+// Fenced code blocks in instructions, with or without a language tag
+const CODE_BLOCK_PATTERN = /```(?:python|py|r|sql)?\n?([\s\S]*?)```/gi;
+
+const LANGUAGE_TIPS: Record<ChallengeLanguage, string[]> = {
+  python: ['Read the problem carefully before coding', 'Use meaningful variable names', 'Always import used packages'],
+  r: ['Read the problem carefully before coding', 'Use meaningful variable names', 'Load the packages you use with library()'],
+  sql: ['Read the problem carefully before writing the query', 'Check table and column names in the schema', 'Use ORDER BY only when the task asks for sorted results'],
+};
 
 interface ChallengeViewProps {
   challenge?: Challenge | null;
@@ -57,7 +63,7 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
     
     // Add basic formatting for code blocks and lists
     return instruction
-      .replace(/```python\n?([\s\S]*?)```/g, '<pre class="bg-gray-100 p-3 rounded-lg my-2 overflow-x-auto"><code class="text-sm">$1</code></pre>')
+      .replace(CODE_BLOCK_PATTERN, '<pre class="bg-gray-100 p-3 rounded-lg my-2 overflow-x-auto"><code class="text-sm">$1</code></pre>')
       .replace(/`([^`]+)`/g, '<code class="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">$1</code>')
       .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
       .replace(/\n/g, '<br />');
@@ -96,6 +102,8 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
     return `${minutes} mins`;
   };
 
+  const language = challenge.language ?? 'python';
+
   // Safe category check
   const shouldShowCategoryInfo = showCategoryInfo && 
     challenge?.category && 
@@ -145,13 +153,22 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
               )}
             </h2>
             <p className="text-sm text-gray-600">
-              Write Python code to complete the task below
+              {language === 'sql'
+                ? 'Write a SQL query to complete the task below'
+                : `Write ${LANGUAGE_NAMES[language]} code to complete the task below`}
             </p>
           </div>
         </div>
 
         {/* Challenge Metadata */}
         <div className="flex items-center gap-2">
+          {language !== 'python' && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium text-purple-600 bg-purple-100">
+              <Code className="h-3 w-3" />
+              {LANGUAGE_NAMES[language]}
+            </span>
+          )}
+
           {challenge.difficulty && (
             <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(challenge.difficulty)}`}>
               <BarChart3 className="h-3 w-3" />
@@ -165,6 +182,13 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
               {getEstimatedTimeText(challenge.estimatedTime)}
             </span>
           )}
+
+          {challenge.tags?.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium text-gray-600 bg-gray-100">
+              <Tag className="h-3 w-3" />
+              {tag}
+            </span>
+          ))}
         </div>
       </div>
 
@@ -209,6 +233,17 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
         </div>
       </Card>
 
+      {/* Tables the query runs against */}
+      {language === 'sql' && challenge.seedSql && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Database className="h-4 w-4 text-gray-600" />
+            <h4 className="text-sm font-medium text-gray-900">Database</h4>
+          </div>
+          <CodeDisplay code={challenge.seedSql} language="sql" />
+        </div>
+      )}
+
       {/* Tips & Hints Section */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Tips Card */}
@@ -218,11 +253,26 @@ const ChallengeView: React.FC<ChallengeViewProps> = ({
             <h4 className="text-sm font-medium text-yellow-800">Pro Tips</h4>
           </div>
           <ul className="text-sm text-yellow-700 space-y-1">
-            <li>• Read the problem carefully before coding</li>
-            <li>• Use meaningful variable names</li>
-            <li>• Always import used packages</li>
+            {LANGUAGE_TIPS[language].map(tip => (
+              <li key={tip}>• {tip}</li>
+            ))}
           </ul>
         </Card>
+
+        {/* Hints written for this challenge */}
+        {challenge.hints && challenge.hints.length > 0 && (
+          <Card className="p-4 bg-green-50 border-green-200">
+            <div className="flex items-center gap-2 mb-2">
+              <HelpCircle className="h-4 w-4 text-green-600" />
+              <h4 className="text-sm font-medium text-green-800">Hints</h4>
+            </div>
+            <ul className="text-sm text-green-700 space-y-1">
+              {challenge.hints.map(hint => (
+                <li key={hint}>• {hint}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
       </div>
 
       {/* Challenge Progress (Mini) */}
@@ -345,7 +395,7 @@ const ChallengeInstruction: React.FC<ChallengeInstructionProps> = ({
           className="text-gray-700 text-sm leading-relaxed prose prose-sm max-w-none"
           dangerouslySetInnerHTML={{ 
             __html: instruction
-              .replace(/```python\n?([\s\S]*?)```/g, '<pre class="bg-gray-100 p-2 rounded my-1 overflow-x-auto text-xs"><code>$1</code></pre>')
+              .replace(CODE_BLOCK_PATTERN, '<pre class="bg-gray-100 p-2 rounded my-1 overflow-x-auto text-xs"><code>$1</code></pre>')
               .replace(/`([^`]+)`/g, '<code class="bg-gray-100 px-1 rounded text-xs font-mono">$1</code>')
               .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
               .replace(/\n/g, '<br />')
@@ -3,15 +3,19 @@ import {
     Code,
 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
+import { LANGUAGE_NAMES } from '@/lib/challenge-language';
+import type { ChallengeLanguage } from '@/types/challenge';
 
 // Read-only code display component
 interface CodeDisplayProps {
     code: string;
+    language?: ChallengeLanguage; // Labels the block; unlabelled when unset
     className?: string;
 }
 
 const CodeDisplay: React.FC<CodeDisplayProps> = ({
     code,
+    language,
     className = '',
 }) => {
     const safeCode = typeof code === 'string'
@@ -27,6 +31,12 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({
 
     return (
         <Card className={`overflow-hidden ${className}`}>
+            {language && (
+                <div className="flex items-center gap-2 bg-gray-800 px-4 py-2 text-xs font-medium text-gray-300">
+                    <Code className="h-3 w-3" />
+                    {LANGUAGE_NAMES[language]}
+                </div>
+            )}
             <div
                 className="bg-gray-900 p-4 font-mono text-sm text-white overflow-x-auto"
                 style={noSelectStyle}
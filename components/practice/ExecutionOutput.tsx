@@ -0,0 +1,100 @@
+// components/practice/ExecutionOutput.tsx
+
+import { AlertTriangle, CheckCircle, Clock, Loader2, Terminal, XCircle } from 'lucide-react';
+import type React from 'react';
+import { Card } from '@/components/ui/Card';
+import type { ExecutionResult } from '@/types/challenge';
+
+interface ExecutionOutputProps {
+  result: ExecutionResult | null;
+  isRunning?: boolean;
+  className?: string;
+}
+
+const ExecutionOutput: React.FC<ExecutionOutputProps> = ({
+  result,
+  isRunning = false,
+  className = '',
+}) => {
+  if (!isRunning && !result) return null;
+
+  const hasOutput = !!result?.output?.trim();
+  const totalTests = result?.totalTests ?? 0;
+  const passedTests = result?.passedTests ?? 0;
+
+  return (
+    <Card className={`overflow-hidden ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-900 text-gray-100">
+        <div className="flex items-center gap-2">
+          <Terminal className="h-4 w-4" />
+          <span className="text-sm font-medium">Output</span>
+        </div>
+        {isRunning ? (
+          <span className="flex items-center gap-1 text-xs text-gray-300">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Running...
+          </span>
+        ) : (
+          <div className="flex items-center gap-3">
+            {totalTests > 0 && (
+              <span className={`text-xs font-medium ${passedTests === totalTests ? 'text-green-400' : 'text-yellow-300'}`}>
+                {passedTests}/{totalTests} tests passed
+              </span>
+            )}
+            {result?.executionTime !== undefined && (
+              <span className="flex items-center gap-1 text-xs text-gray-300">
+                <Clock className="h-3 w-3" />
+                {result.executionTime} ms
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Body */}
+      {!isRunning && result && (
+        <div className="bg-gray-950 p-4 space-y-3 max-h-80 overflow-auto">
+          {hasOutput && (
+            <pre className="whitespace-pre-wrap text-sm font-mono text-gray-100">{result.output}</pre>
+          )}
+
+          {result.error && (
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
+              <pre className="whitespace-pre-wrap text-sm font-mono text-red-300">{result.error}</pre>
+            </div>
+          )}
+
+          {!hasOutput && !result.error && totalTests === 0 && (
+            <p className="text-sm font-mono text-gray-400">Code ran successfully with no output.</p>
+          )}
+
+          {result.testResults && result.testResults.length > 0 && (
+            <div className={`space-y-2 ${hasOutput || result.error ? 'border-t border-gray-800 pt-3' : ''}`}>
+              {result.testResults.map((test, index) => (
+                <div key={`${test.description}:${test.expectedOutput}`} className="flex items-start gap-2">
+                  {test.passed ? (
+                    <CheckCircle className="h-4 w-4 text-green-400 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-mono text-gray-100">{test.description || `Test ${index + 1}`}</p>
+                    {!test.passed && (
+                      <pre className="whitespace-pre-wrap text-xs font-mono text-gray-400 mt-1">
+                        {test.error || `Expected: ${test.expectedOutput}\nGot:      ${test.actualOutput || '(no output)'}`}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export { ExecutionOutput };
@@ -12,11 +12,16 @@ import {
   ThumbsUp,
   ThumbsDown,
   Volume2,
-  VolumeX
+  VolumeX,
+  History,
+  RefreshCw,
+  Loader2
 } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { CodeDisplay } from './CodeDisplay';
+import { LANGUAGE_NAMES } from '@/lib/challenge-language';
+import type { ChallengeLanguage } from '@/types/challenge';
 
 
 export const parseFeedback = (text: string, defaultVerdict?: 'CORRECT' | 'INCORRECT' | 'PARTIAL') => {
@@ -35,6 +40,7 @@ interface FeedbackDisplayProps {
   type?: 'success' | 'error' | 'warning' | 'info' | 'evaluation';
   verdict?: 'CORRECT' | 'INCORRECT' | 'PARTIAL';
   sampleAnswer?: string;
+  language?: ChallengeLanguage;
   userCode?: string;
   showSampleAnswer?: boolean;
   onHideAnswer?: () => void;
@@ -43,6 +49,10 @@ interface FeedbackDisplayProps {
   showTTS?: boolean;
   onToggleTTS?: () => void;
   isTtsEnabled?: boolean;
+  provisional?: boolean; // Graded on the device; the AI re-grades it later
+  previouslyEvaluatedAt?: number | null; // Cached verdict for the same code
+  onReevaluate?: () => void;
+  isStreaming?: boolean; // Feedback is still arriving; the verdict is shown once it is complete
 }
 
 
@@ -51,6 +61,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
   type = 'info',
   verdict,
   sampleAnswer,
+  language = 'python',
   userCode,
   showSampleAnswer = false,
   onHideAnswer,
@@ -59,6 +70,10 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
   showTTS = true,
   onToggleTTS,
   isTtsEnabled = true,
+  provisional = false,
+  previouslyEvaluatedAt,
+  onReevaluate,
+  isStreaming = false,
 }) => {
   const [isCopied, setIsCopied] = useState(false);
   const [userRating, setUserRating] = useState<'helpful' | 'not-helpful' | null>(null);
@@ -66,7 +81,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
 
   // Use the globally defined parseFeedback
   const { verdict: parsedVerdict, text: cleanFeedback } = parseFeedback(feedback, verdict);
-  const finalVerdict = verdict || parsedVerdict;
+  const finalVerdict = isStreaming ? undefined : verdict || parsedVerdict;
 
   // Determine feedback type based on verdict
   const getFeedbackType = () => {
@@ -147,17 +162,17 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
       .replace(/\n/g, '<br />');
   };
 
-  const shouldTruncate = cleanFeedback.length > 300 && !showFullFeedback;
+  const shouldTruncate = cleanFeedback.length > 300 && !showFullFeedback && !isStreaming;
   const displayText = shouldTruncate 
     ? cleanFeedback.substring(0, 300) + '...' 
     : cleanFeedback;
 
-  // Auto-expand feedback for short messages
+  // Auto-expand feedback for short messages, and for streamed feedback the student is already reading
   useEffect(() => {
-    if (cleanFeedback.length <= 300) {
+    if (cleanFeedback.length <= 300 || isStreaming) {
       setShowFullFeedback(true);
     }
-  }, [cleanFeedback]);
+  }, [cleanFeedback, isStreaming]);
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -168,7 +183,22 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
           <div className="flex items-center gap-3">
             <IconComponent className={`h-6 w-6 ${config.color}`} />
             <div>
-              <h3 className="font-semibold text-gray-900">{config.title}</h3>
+              <h3 className="font-semibold text-gray-900">{provisional ? 'Provisional Feedback' : config.title}</h3>
+              {provisional && (
+                <p className="text-sm text-gray-600">Checked on this device. The AI will re-grade this answer when it is available.</p>
+              )}
+              {isStreaming && (
+                <p className="flex items-center gap-1 text-sm text-gray-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Evaluating...
+                </p>
+              )}
+              {previouslyEvaluatedAt && (
+                <p className="flex items-center gap-1 text-sm text-gray-600">
+                  <History className="h-4 w-4" />
+                  Previously evaluated on {new Date(previouslyEvaluatedAt).toLocaleString()}
+                </p>
+              )}
               {finalVerdict && (
                 <p className="text-sm text-gray-600">
                   {finalVerdict === 'CORRECT' && 'Your solution is correct!'}
@@ -180,6 +210,19 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Fresh evaluation of a cached verdict */}
+            {previouslyEvaluatedAt && onReevaluate && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onReevaluate}
+                className="flex items-center gap-1"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Re-evaluate
+              </Button>
+            )}
+
             {/* TTS Toggle */}
             {showTTS && onToggleTTS && (
               <Button
@@ -221,9 +264,12 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
               __html: formatFeedbackText(displayText) 
             }}
           />
+          {isStreaming && (
+            <span className="inline-block h-4 w-2 bg-gray-400 animate-pulse align-middle" aria-hidden="true" />
+          )}
 
           {/* Show More/Less Toggle */}
-          {cleanFeedback.length > 300 && (
+          {cleanFeedback.length > 300 && !isStreaming && (
             <button
               onClick={() => setShowFullFeedback(!showFullFeedback)}
               className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors"
@@ -261,6 +307,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
           
           <CodeDisplay
             code={sampleAnswer}
+            language={language}
           />
 
           <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
@@ -281,6 +328,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <CodeDisplay
             code={userCode}
+            language={language}
           />
           
           {finalVerdict === 'CORRECT' && (
@@ -307,7 +355,7 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({
               </h4>
               <ul className="text-sm text-orange-800 space-y-1">
                 <li>• Read the problem statement carefully</li>
-                <li>• Review Python syntax and common patterns</li>
+                <li>• Review {LANGUAGE_NAMES[language]} syntax and common patterns</li>
                 <li>• Don't hesitate to use the "I don't know" option if stuck</li>
               </ul>
             </div>
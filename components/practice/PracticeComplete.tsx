@@ -6,7 +6,8 @@ import { CheckCircle, UploadCloud, CornerDownLeft, Repeat2, Database, Award, Ale
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import Input from '@/components/ui/Input';
-import { practiceDatabase, PracticeDataPayload, PendingUpload } from '@/lib/database';
+import { practiceDatabase } from '@/lib/database';
+import type { PendingUpload, PracticeDataPayload } from '@/types/practice';
 
 const API_ENDPOINT = '/api/submit-practice-data';
 
@@ -0,0 +1,73 @@
+// components/practice/RegradedAnswers.tsx
+
+import { CheckCircle, RefreshCw, X, XCircle } from 'lucide-react';
+import type React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type { PendingRegrade } from '@/types/practice';
+
+interface RegradedAnswersProps {
+  regrades: PendingRegrade[];
+  onDismiss: (id: string) => void;
+  className?: string;
+}
+
+const verdictLabel = (isCorrect: boolean, score?: number) =>
+  `${isCorrect ? 'Correct' : 'Not correct'}${score !== undefined ? ` (${score}/100)` : ''}`;
+
+/**
+ * Final AI verdicts for answers that were graded provisionally while the evaluator was unreachable.
+ */
+const RegradedAnswers: React.FC<RegradedAnswersProps> = ({ regrades, onDismiss, className = '' }) => {
+  if (regrades.length === 0) return null;
+
+  return (
+    <Card className={`border-blue-200 ${className}`}>
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5 text-blue-600" />
+          <h3 className="font-medium text-blue-800">Offline answers re-graded</h3>
+        </div>
+
+        {regrades.map(regrade => {
+          const isCorrect = regrade.result?.isCorrect ?? false;
+          const changed = isCorrect !== (regrade.provisionalVerdict === 'CORRECT');
+
+          return (
+            <div key={regrade.id} className="flex items-start gap-3 rounded-md bg-blue-50 p-3">
+              {isCorrect ? (
+                <CheckCircle className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+              )}
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-medium text-gray-900 line-clamp-2">{regrade.instruction}</p>
+                <p className="text-sm text-gray-700">
+                  {verdictLabel(isCorrect, regrade.result?.score)}
+                  {changed && (
+                    <span className="text-gray-500">
+                      {' '}· provisional result was {regrade.provisionalVerdict.toLowerCase()} ({regrade.provisionalScore}/100)
+                    </span>
+                  )}
+                </p>
+                {regrade.result?.feedback && (
+                  <p className="text-sm text-gray-600 whitespace-pre-wrap">{regrade.result.feedback}</p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDismiss(regrade.id)}
+                aria-label="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export { RegradedAnswers };
@@ -0,0 +1,27 @@
+// Copy the sql.js SQLite build into public/sqljs, so SQL practice answers run against a
+// database served from our own origin instead of a CDN.
+const fs = require('node:fs');
+const path = require('node:path');
+
+const SOURCE_DIR = path.join(__dirname, 'node_modules', 'sql.js', 'dist');
+const TARGET_DIR = path.join(__dirname, 'public', 'sqljs');
+
+const FILES = ['sql-wasm.js', 'sql-wasm.wasm'];
+
+function copySqlJsAssets() {
+  fs.mkdirSync(TARGET_DIR, { recursive: true });
+
+  for (const fileName of FILES) {
+    fs.copyFileSync(path.join(SOURCE_DIR, fileName), path.join(TARGET_DIR, fileName));
+    console.log(`📄 ${fileName}`);
+  }
+
+  console.log(`✅ sql.js assets ready in ${TARGET_DIR}`);
+}
+
+try {
+  copySqlJsAssets();
+} catch (error) {
+  console.error('❌ Failed to copy sql.js assets:', error);
+  process.exit(1);
+}
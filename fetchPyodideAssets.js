@@ -0,0 +1,82 @@
+// Download the Pyodide runtime and the Python packages practice code may import into public/pyodide,
+// so the in-browser interpreter is served from our own origin instead of a CDN.
+const fs = require('node:fs');
+const path = require('node:path');
+
+const PYODIDE_VERSION = '0.27.7';
+const SOURCE_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+const TARGET_DIR = path.join(__dirname, 'public', 'pyodide');
+
+const CORE_FILES = [
+  'pyodide.js',
+  'pyodide.asm.js',
+  'pyodide.asm.wasm',
+  'python_stdlib.zip',
+  'pyodide-lock.json',
+];
+
+// Packages students use in the practice challenges; their dependencies are added automatically
+const PACKAGES = (process.env.PYODIDE_PACKAGES || 'numpy,pandas')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+async function download(fileName) {
+  const target = path.join(TARGET_DIR, fileName);
+  if (fs.existsSync(target)) return;
+
+  const response = await fetch(SOURCE_URL + fileName);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${fileName}: ${response.status} ${response.statusText}`);
+  }
+
+  fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`⬇️  ${fileName}`);
+}
+
+function resolvePackages(lock, names) {
+  const resolved = new Set();
+  const pending = [...names];
+
+  while (pending.length > 0) {
+    const name = pending.pop().toLowerCase();
+    if (resolved.has(name)) continue;
+
+    const entry = lock.packages[name];
+    if (!entry) {
+      throw new Error(`Package '${name}' is not part of Pyodide ${PYODIDE_VERSION}`);
+    }
+
+    resolved.add(name);
+    pending.push(...entry.depends);
+  }
+
+  return [...resolved].map(name => lock.packages[name].file_name);
+}
+
+async function fetchPyodideAssets() {
+  // Files are only downloaded when missing, so start over when the pinned version changes
+  const versionFile = path.join(TARGET_DIR, '.version');
+  if (fs.existsSync(versionFile) && fs.readFileSync(versionFile, 'utf8').trim() !== PYODIDE_VERSION) {
+    fs.rmSync(TARGET_DIR, { recursive: true, force: true });
+  }
+
+  fs.mkdirSync(TARGET_DIR, { recursive: true });
+  fs.writeFileSync(versionFile, PYODIDE_VERSION);
+
+  for (const fileName of CORE_FILES) {
+    await download(fileName);
+  }
+
+  const lock = JSON.parse(fs.readFileSync(path.join(TARGET_DIR, 'pyodide-lock.json'), 'utf8'));
+  for (const fileName of resolvePackages(lock, PACKAGES)) {
+    await download(fileName);
+  }
+
+  console.log(`✅ Pyodide ${PYODIDE_VERSION} assets ready in ${TARGET_DIR}`);
+}
+
+fetchPyodideAssets().catch(error => {
+  console.error('❌ Failed to fetch Pyodide assets:', error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+// instrumentation.ts
+// Runs once when the server starts. Grading jobs live in memory, so submissions a restart left
+// ungraded are queued again from the rows still marked pending in the results sheet.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const spreadsheetId = process.env.NEXT_PUBLIC_GOOGLE_TEST_SHEET_ID;
+  if (!spreadsheetId) return;
+
+  const { quizCatalog } = await import('@/lib/quiz-catalog');
+  const { quizGrader } = await import('@/lib/quiz-grader');
+
+  try {
+    const quizzes = await quizCatalog.getQuizzes();
+    await quizGrader.resumePending(spreadsheetId, [...new Set(quizzes.map(quiz => quiz.sheetTabName))]);
+  } catch (error) {
+    // Startup goes on; the rows stay pending for the next restart
+    console.error('❌ [Instrumentation] Failed to resume pending quiz grading:', error);
+  }
+}
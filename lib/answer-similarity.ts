@@ -0,0 +1,96 @@
+// lib/answer-similarity.ts
+// Model-free comparison of an answer with the expected solution, shared by the mock
+// provider, the offline practice evaluator and the evaluation caches.
+
+/**
+ * Drop comments, blank lines and quote style so formatting alone does not count as a difference.
+ * Only for similarity: programs that behave differently can normalize to the same text.
+ */
+export const normalizeCode = (value: string): string =>
+  value
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(Boolean)
+    .join('\n')
+    .replace(/"/g, "'")
+    .replace(/\s+/g, ' ');
+
+export const normalizeText = (value: string): string =>
+  value.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Jaccard similarity of the two token sets.
+ */
+export const tokenSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(/\W+/).filter(Boolean));
+  const tokensB = new Set(b.split(/\W+/).filter(Boolean));
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  const intersection = [...tokensA].filter(token => tokensB.has(token)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+};
+
+/**
+ * The code as a cache key, with comments, blank lines and trailing whitespace dropped. Comments are
+ * found by scanning string literals, so a `#` inside a string stays, and strings and indentation
+ * are kept exactly: unlike normalizeCode, two programs that behave differently never share a key.
+ * `#` starts a comment in Python and R; SQL `--` comments are kept.
+ */
+export const normalizeCodeForCacheKey = (value: string): string => {
+  const code = value.replace(/\r\n?/g, '\n');
+  const lines: string[] = [];
+  let line = '';
+  let quote: string | null = null;
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (quote) {
+      // A backslash escapes the next character, including a quote, even in raw strings
+      if (char === '\\' && i + 1 < code.length) {
+        line += code.slice(i, i + 2);
+        i += 2;
+      } else if (code.startsWith(quote, i)) {
+        line += quote;
+        i += quote.length;
+        quote = null;
+      } else {
+        line += char;
+        i++;
+      }
+    } else if (char === '"' || char === "'" || char === '`') {
+      const triple = char.repeat(3);
+      quote = char !== '`' && code.startsWith(triple, i) ? triple : char;
+      line += quote;
+      i += quote.length;
+    } else if (char === '#') {
+      while (i < code.length && code[i] !== '\n') i++;
+    } else if (char === '\n') {
+      // Only newlines outside strings end a line here, so blank lines inside a string are kept
+      lines.push(line.trimEnd());
+      line = '';
+      i++;
+    } else {
+      line += char;
+      i++;
+    }
+  }
+  lines.push(line.trimEnd());
+
+  return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * SHA-256 of the code normalized for a cache key, so resubmissions that only change comments
+ * or blank lines share a key. Uses WebCrypto, which the browser and the server both provide.
+ */
+export const hashNormalizedCode = async (code: string): Promise<string> => {
+  const normalized = normalizeCodeForCacheKey(code);
+  // WebCrypto is missing on plain-HTTP origins; the normalized code is a longer but equally stable key
+  if (!globalThis.crypto?.subtle) return normalized;
+
+  const bytes = new TextEncoder().encode(normalized);
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,79 @@
+// lib/api-validation.ts
+// Checks what reaches an API route against the shared schemas in types/, so a malformed request
+// is turned away with a 400 naming the bad fields instead of failing somewhere inside the handler.
+import type { z } from 'zod';
+
+// --- INTERFACES ---
+export type ValidationResult<T> = { success: true; data: T } | { success: false; error: string; tooLarge?: boolean };
+
+// --- CONFIGURATION ---
+export const INVALID_JSON_MESSAGE = 'Invalid request format. Please ensure data is correctly formatted JSON.';
+export const BODY_TOO_LARGE_MESSAGE = 'Request body is too large.';
+
+/**
+ * One line per problem, prefixed with the field it is about, e.g. `answers.q1: Invalid input: expected string, received number`.
+ */
+export const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+export const validateInput = <T extends z.ZodType>(schema: T, value: unknown): ValidationResult<z.output<T>> => {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: describeIssues(result.error) };
+};
+
+/**
+ * Read the body as text, giving up once it passes `maxBytes`. Resolves null when it is too large.
+ */
+const readLimitedText = async (request: Request, maxBytes: number): Promise<string | null> => {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes || !request.body) {
+    return declared > maxBytes ? null : '';
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Read and validate a JSON body. A body that is not JSON at all fails with INVALID_JSON_MESSAGE,
+ * and one over `maxBytes`, when given, fails with BODY_TOO_LARGE_MESSAGE and `tooLarge` set.
+ */
+export const readJsonBody = async <T extends z.ZodType>(request: Request, schema: T, maxBytes?: number): Promise<ValidationResult<z.output<T>>> => {
+  let body: unknown;
+  try {
+    if (maxBytes === undefined) {
+      body = await request.json();
+    } else {
+      const text = await readLimitedText(request, maxBytes);
+      if (text === null) {
+        return { success: false, error: BODY_TOO_LARGE_MESSAGE, tooLarge: true };
+      }
+      body = JSON.parse(text);
+    }
+  } catch {
+    return { success: false, error: INVALID_JSON_MESSAGE };
+  }
+  return validateInput(schema, body);
+};
+
+/**
+ * Validate the query string, with each parameter as a string.
+ */
+export const readSearchParams = <T extends z.ZodType>(request: Request, schema: T): ValidationResult<z.output<T>> =>
+  validateInput(schema, Object.fromEntries(new URL(request.url).searchParams));
@@ -0,0 +1,414 @@
+// lib/backup.ts
+// One backup file for everything a student has on this device: challenges, progress, sessions,
+// queued uploads and regrades, settings and preferences. Files are versioned, checksummed and
+// validated before anything is written, and can be merged into the device or replace it.
+
+import { describeIssues, type ValidationResult } from '@/lib/api-validation';
+import { practiceDatabase } from '@/lib/database';
+import { keyVault } from '@/lib/key-vault';
+import { SCHEMA_VERSION } from '@/lib/practice-store';
+import storageService, { BACKUP_PREFERENCE_KEYS } from '@/lib/storage';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  type Backup,
+  type BackupData,
+  BackupSchema,
+  type PracticeDataSnapshot,
+  type RestoreMode,
+} from '@/types/backup';
+import type { DataScienceChallenge, PracticeSession, UserProgress } from '@/types/challenge';
+import type { PendingRegrade } from '@/types/practice';
+
+// --- INTERFACES ---
+export type BackupSection = keyof BackupData;
+
+// What a restore does to one section, counted in records (one record for progress and settings)
+export interface SectionDiff {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export type RestorePreview = Record<BackupSection, SectionDiff>;
+
+export interface BackupOptions {
+  // Put the API key in the file, in plain text. Off unless the student asks for it.
+  includeApiKey?: boolean;
+}
+
+interface RestorePlan {
+  data: BackupData;
+  preview: RestorePreview;
+}
+
+// --- CONFIGURATION ---
+export const BACKUP_SECTION_LABELS: Record<BackupSection, string> = {
+  challenges: 'Challenges',
+  sessions: 'Practice sessions',
+  activeSessions: 'Sessions in progress',
+  pendingUploads: 'Pending uploads',
+  pendingRegrades: 'Pending regrades',
+  progress: 'Progress',
+  settings: 'Settings',
+  preferences: 'Preferences',
+  apiKey: 'API key',
+};
+
+/**
+ * JSON with object keys sorted, so the same data always serializes the same way whatever order
+ * its keys were written in. Dates serialize as ISO strings, exactly as they appear in the file.
+ */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  );
+
+const isSame = (a: unknown, b: unknown): boolean => canonicalJson(a) === canonicalJson(b);
+
+const checksum = async (data: unknown): Promise<string> => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('This browser cannot checksum backups. Open DeamV over https and try again.');
+  }
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(data)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const time = (date: Date | string | undefined): number => (date ? new Date(date).getTime() : 0);
+
+const emptyDiff = (): SectionDiff => ({ added: 0, updated: 0, removed: 0, unchanged: 0 });
+
+/**
+ * Combine keyed records. Replace takes the backup's records as they are; merge keeps every local
+ * record and adds the backup's, taking the backup's copy of a shared key only when `isNewer` says so.
+ */
+const planRecords = <T>(
+  local: Record<string, T>,
+  incoming: Record<string, T>,
+  mode: RestoreMode,
+  isNewer: (incoming: T, local: T) => boolean
+): { records: Record<string, T>; diff: SectionDiff } => {
+  const records: Record<string, T> = mode === 'replace' ? {} : { ...local };
+  const diff = emptyDiff();
+
+  for (const [key, record] of Object.entries(incoming)) {
+    const existing = local[key];
+    if (existing === undefined) {
+      records[key] = record;
+      diff.added++;
+    } else if (isSame(record, existing)) {
+      records[key] = existing;
+      diff.unchanged++;
+    } else if (mode === 'replace' || isNewer(record, existing)) {
+      records[key] = record;
+      diff.updated++;
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  if (mode === 'replace') {
+    diff.removed = Object.keys(local).filter(key => !(key in incoming)).length;
+  }
+
+  return { records, diff };
+};
+
+/**
+ * A single record such as progress or settings: `merge` decides what a merge keeps when both sides have one.
+ */
+const planValue = <T>(
+  local: T | null,
+  incoming: T | null,
+  mode: RestoreMode,
+  merge: (incoming: T, local: T) => T
+): { value: T | null; diff: SectionDiff } => {
+  const value = mode === 'replace' ? incoming : local && incoming ? merge(incoming, local) : local ?? incoming;
+  const diff = emptyDiff();
+
+  if (!local && value) diff.added = 1;
+  else if (local && !value) diff.removed = 1;
+  else if (local && value) diff[isSame(local, value) ? 'unchanged' : 'updated'] = 1;
+
+  return { value, diff };
+};
+
+const byId = <T extends { id: string }>(records: T[]): Record<string, T> =>
+  Object.fromEntries(records.map(record => [record.id, record]));
+
+// The same question downloaded on two devices gets a different id on each
+const challengeKey = (challenge: DataScienceChallenge): string =>
+  `${challenge.category.toLowerCase()}\n${challenge.instruction.trim()}`;
+
+// A session that got further is newer; the same session only moves forward
+const isSessionNewer = (incoming: PracticeSession, local: PracticeSession): boolean =>
+  incoming.isCompleted !== local.isCompleted ? incoming.isCompleted : incoming.currentIndex > local.currentIndex;
+
+const isRegradeNewer = (incoming: PendingRegrade, local: PendingRegrade): boolean =>
+  incoming.status !== local.status
+    ? incoming.status === 'REGRADED'
+    : time(incoming.lastAttempt) > time(local.lastAttempt);
+
+/**
+ * Progress from two devices: every completed challenge, the best score for each, and the most
+ * recently practiced stats for each category. Practice time is the larger of the two rather than
+ * the sum, so restoring the same backup twice does not count its time twice.
+ */
+const mergeProgress = (incoming: UserProgress, local: UserProgress): UserProgress => {
+  const scores = { ...local.scores };
+  for (const [challengeId, score] of Object.entries(incoming.scores)) {
+    scores[challengeId] = Math.max(score, scores[challengeId] ?? score);
+  }
+
+  const categories = { ...local.categories };
+  for (const [category, stats] of Object.entries(incoming.categories)) {
+    const existing = categories[category];
+    if (!existing || time(stats.lastPracticed) > time(existing.lastPracticed)) {
+      categories[category] = stats;
+    }
+  }
+
+  return {
+    ...local,
+    completedChallenges: Array.from(new Set([...local.completedChallenges, ...incoming.completedChallenges])),
+    scores,
+    totalPracticeTime: Math.max(local.totalPracticeTime, incoming.totalPracticeTime),
+    categories,
+  };
+};
+
+/**
+ * Point every reference to a challenge id in `idMap` at its replacement: progress, sessions and
+ * the offline queues. Used when a merge swaps this device's copy of a question for the backup's.
+ */
+const remapChallengeIds = (snapshot: PracticeDataSnapshot, idMap: Map<string, string>): PracticeDataSnapshot => {
+  if (idMap.size === 0) return snapshot;
+
+  const remap = (challengeId: string): string => idMap.get(challengeId) ?? challengeId;
+  const remapSession = (session: PracticeSession): PracticeSession => ({
+    ...session,
+    // Positions in `challenges` are what currentIndex counts, so nothing is dropped there
+    challenges: session.challenges.map(remap),
+    completed: Array.from(new Set(session.completed.map(remap))),
+  });
+
+  let progress = snapshot.progress;
+  if (progress) {
+    const scores: Record<string, number> = {};
+    for (const [challengeId, score] of Object.entries(progress.scores)) {
+      const id = remap(challengeId);
+      scores[id] = Math.max(score, scores[id] ?? score);
+    }
+    progress = {
+      ...progress,
+      completedChallenges: Array.from(new Set(progress.completedChallenges.map(remap))),
+      scores,
+    };
+  }
+
+  return {
+    ...snapshot,
+    sessions: snapshot.sessions.map(remapSession),
+    activeSessions: Object.fromEntries(
+      Object.entries(snapshot.activeSessions).map(([category, session]) => [category, remapSession(session)])
+    ),
+    pendingUploads: snapshot.pendingUploads.map(upload => ({
+      ...upload,
+      payload: {
+        ...upload.payload,
+        attempts: upload.payload.attempts.map(attempt => ({ ...attempt, challengeId: remap(attempt.challengeId) })),
+      },
+    })),
+    pendingRegrades: snapshot.pendingRegrades.map(regrade => ({ ...regrade, challengeId: remap(regrade.challengeId) })),
+    progress,
+  };
+};
+
+// --- BACKUP SERVICE CLASS ---
+class BackupService {
+  /**
+   * A backup of everything on this device, with its checksum.
+   */
+  async createBackup({ includeApiKey = false }: BackupOptions = {}): Promise<Backup> {
+    // Reading the vault first also moves a plain-text key left by an older version out of the settings
+    const apiKeyStatus = await keyVault.getStatus();
+    if (includeApiKey && apiKeyStatus === 'locked') {
+      throw new Error('Unlock your API key before including it in a backup.');
+    }
+
+    const apiKey = includeApiKey ? await keyVault.getApiKey() : null;
+    const data: BackupData = {
+      ...await practiceDatabase.exportData(),
+      preferences: await storageService.exportPreferences(),
+      ...(apiKey && { apiKey }),
+    };
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      dataVersion: SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      checksum: await checksum(data),
+      data,
+    };
+  }
+
+  /**
+   * The contents and file name of a new backup file, recorded as the last backup time.
+   */
+  async exportBackup(options: BackupOptions = {}): Promise<{ fileName: string; contents: string }> {
+    const backup = await this.createBackup(options);
+    await storageService.updateLastBackupTime();
+    console.log(`💾 [BackupService] Backed up ${backup.data.challenges.length} challenges and ${backup.data.sessions.length} sessions`);
+
+    return {
+      fileName: `deamv-backup-${backup.createdAt.slice(0, 10)}.json`,
+      contents: JSON.stringify(backup, null, 2),
+    };
+  }
+
+  /**
+   * Read a backup file. It fails, naming the problem, when the file is not a DeamV backup, comes
+   * from a newer version of the app, has been changed since it was written or does not validate.
+   */
+  async parseBackup(contents: string): Promise<ValidationResult<Backup>> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(contents);
+    } catch {
+      return { success: false, error: 'This file is not a DeamV backup: it is not valid JSON.' };
+    }
+
+    const header = raw as Partial<Record<keyof Backup, unknown>> | null;
+    if (!header || typeof header !== 'object' || header.format !== BACKUP_FORMAT) {
+      return { success: false, error: 'This file is not a DeamV backup.' };
+    }
+    if (
+      typeof header.version !== 'number' || header.version > BACKUP_VERSION ||
+      typeof header.dataVersion !== 'number' || header.dataVersion > SCHEMA_VERSION
+    ) {
+      return { success: false, error: 'This backup was made by a newer version of DeamV. Update the app and try again.' };
+    }
+
+    // Checked against the data as written, before validation normalizes it
+    if (header.checksum !== await checksum(header.data)) {
+      return { success: false, error: 'This backup is damaged or has been edited: its checksum does not match.' };
+    }
+
+    const result = BackupSchema.safeParse(raw);
+    if (!result.success) {
+      return { success: false, error: `This backup is not valid: ${describeIssues(result.error)}` };
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * What restoring `backup` would change, without changing anything.
+   */
+  async previewRestore(backup: Backup, mode: RestoreMode): Promise<RestorePreview> {
+    return (await this.planRestore(backup, mode, await practiceDatabase.exportData())).preview;
+  }
+
+  /**
+   * Restore `backup` into this device and return what changed. The restore is planned again from
+   * the data as it is when the write lock is taken, so a save in another tab since the preview is kept.
+   */
+  async restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestorePreview> {
+    const { data, preview } = await practiceDatabase.updateData(async (local) => {
+      const plan = await this.planRestore(backup, mode, local);
+      const { preferences: _preferences, apiKey: _apiKey, ...snapshot } = plan.data;
+      return { snapshot, result: plan };
+    });
+
+    await storageService.importPreferences(data.preferences);
+    if (data.apiKey && (preview.apiKey.added || preview.apiKey.updated)) {
+      await keyVault.saveApiKey(data.apiKey);
+    }
+
+    console.log(`✅ [BackupService] Restored backup from ${backup.createdAt} (${mode})`);
+    return preview;
+  }
+
+  private async planRestore(backup: Backup, mode: RestoreMode, localData: PracticeDataSnapshot): Promise<RestorePlan> {
+    const localPreferences = await storageService.exportPreferences();
+    const incoming = backup.data;
+
+    // A merge swaps this device's copy of a question for the backup's copy under the backup's id,
+    // since that is the id the backed-up sessions and progress refer to. This device's sessions,
+    // progress and queues are moved onto the backup's id with it, so none of them is orphaned.
+    const backupChallengeIds = new Set(incoming.challenges.map(challenge => challenge.id));
+    const backupIdsByKey = new Map<string, string>();
+    for (const challenge of incoming.challenges) {
+      if (!backupIdsByKey.has(challengeKey(challenge))) backupIdsByKey.set(challengeKey(challenge), challenge.id);
+    }
+    const duplicateChallenges = mode === 'merge'
+      ? localData.challenges.filter(challenge => !backupChallengeIds.has(challenge.id) && backupIdsByKey.has(challengeKey(challenge)))
+      : [];
+    const duplicateChallengeIds = new Set(duplicateChallenges.map(challenge => challenge.id));
+    const local = remapChallengeIds(
+      localData,
+      new Map(duplicateChallenges.map(challenge => [challenge.id, backupIdsByKey.get(challengeKey(challenge)) as string]))
+    );
+    const challenges = planRecords(
+      byId(local.challenges.filter(challenge => !duplicateChallengeIds.has(challenge.id))),
+      byId(incoming.challenges),
+      mode,
+      (backupChallenge, localChallenge) => time(backupChallenge.updatedAt) > time(localChallenge.updatedAt)
+    );
+    // Counted as updates, plus a removal for any further local copies of the same question
+    const swappedChallenges = new Set(duplicateChallenges.map(challengeKey)).size;
+    challenges.diff.added -= swappedChallenges;
+    challenges.diff.updated += swappedChallenges;
+    challenges.diff.removed += duplicateChallenges.length - swappedChallenges;
+    const sessions = planRecords(byId(local.sessions), byId(incoming.sessions), mode, isSessionNewer);
+    const activeSessions = planRecords(local.activeSessions, incoming.activeSessions, mode, isSessionNewer);
+    const pendingUploads = planRecords(byId(local.pendingUploads), byId(incoming.pendingUploads), mode,
+      (backupUpload, localUpload) => time(backupUpload.lastAttempt) > time(localUpload.lastAttempt));
+    const pendingRegrades = planRecords(byId(local.pendingRegrades), byId(incoming.pendingRegrades), mode, isRegradeNewer);
+    const progress = planValue(local.progress, incoming.progress, mode, mergeProgress);
+    // Settings on this device win a merge
+    const settings = planValue(local.settings, incoming.settings, mode, (_backupSettings, localSettings) => localSettings);
+    // A merge only fills in preferences this device has not set. Keys this version does not back up are left out.
+    const incomingPreferences = Object.fromEntries(
+      Object.entries(incoming.preferences).filter(([key]) => BACKUP_PREFERENCE_KEYS.includes(key))
+    );
+    const preferences = planRecords(localPreferences, incomingPreferences, mode, () => false);
+    // The key only changes when the backup carries one, and a key locked behind a passphrase is left alone
+    const apiKeyStatus = await keyVault.getStatus();
+    const apiKey = incoming.apiKey && apiKeyStatus !== 'locked'
+      ? planValue(await keyVault.getApiKey(), incoming.apiKey, mode, (_backupKey, localKey) => localKey)
+      : { value: null, diff: { ...emptyDiff(), unchanged: apiKeyStatus === 'none' ? 0 : 1 } };
+
+    return {
+      data: {
+        challenges: Object.values(challenges.records),
+        sessions: Object.values(sessions.records),
+        activeSessions: activeSessions.records,
+        pendingUploads: Object.values(pendingUploads.records),
+        pendingRegrades: Object.values(pendingRegrades.records),
+        progress: progress.value,
+        settings: settings.value,
+        preferences: preferences.records,
+        ...(apiKey.value && { apiKey: apiKey.value }),
+      },
+      preview: {
+        challenges: challenges.diff,
+        sessions: sessions.diff,
+        activeSessions: activeSessions.diff,
+        pendingUploads: pendingUploads.diff,
+        pendingRegrades: pendingRegrades.diff,
+        progress: progress.diff,
+        settings: settings.diff,
+        preferences: preferences.diff,
+        apiKey: apiKey.diff,
+      },
+    };
+  }
+}
+
+// Create singleton instance
+export const backupService = new BackupService();
@@ -0,0 +1,15 @@
+// lib/challenge-columns.ts
+// Optional list columns of challenge files, shared by the upload importer and the Drive importer.
+
+// Hints are sentences and may contain commas, so they are separated by `|`
+export const TAG_SEPARATOR = ',';
+export const HINT_SEPARATOR = '|';
+
+/**
+ * Split a list cell into trimmed entries. A blank cell is an empty list.
+ */
+export const parseListColumn = (value: string | undefined, separator: string): string[] =>
+  (value ?? '')
+    .split(separator)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
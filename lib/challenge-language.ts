@@ -0,0 +1,28 @@
+// lib/challenge-language.ts
+// What each practice challenge language needs from the page, the importers and the evaluator.
+import { type ChallengeLanguage, ChallengeLanguageSchema } from '@/types/challenge';
+
+// --- CONFIGURATION ---
+export const CHALLENGE_LANGUAGES: readonly ChallengeLanguage[] = ChallengeLanguageSchema.options;
+
+export const LANGUAGE_NAMES: Record<ChallengeLanguage, string> = {
+  python: 'Python',
+  r: 'R',
+  sql: 'SQL',
+};
+
+/**
+ * Language from an import column. Blank means Python; anything unrecognised is null so the
+ * importer can reject the row instead of running it in the wrong interpreter.
+ */
+export const parseChallengeLanguage = (value?: string | null): ChallengeLanguage | null => {
+  const normalized = value?.trim().toLowerCase() ?? '';
+  if (!normalized) return 'python';
+  return CHALLENGE_LANGUAGES.find(language => language === normalized) ?? null;
+};
+
+/**
+ * Whether answers in this language can run in the browser. R has no in-browser runtime here,
+ * so R answers go to the evaluator without an execution result.
+ */
+export const canRunInBrowser = (language: ChallengeLanguage = 'python'): boolean => language !== 'r';
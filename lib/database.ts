@@ -1,5 +1,10 @@
 // lib/database.ts
 import localforage from 'localforage';
+import { fromStoredChallenge, practiceStore, STORES, type StoredChallenge, type StoreName, toStoredChallenge } from '@/lib/practice-store';
+import { tabCoordinator } from '@/lib/tab-coordinator';
+import type { PracticeDataSnapshot } from '@/types/backup';
+import type { AppSettings, DataScienceChallenge, PracticeSession, TestCase, UserProgress } from '@/types/challenge';
+import type { PendingRegrade, PendingUpload, PracticeDataPayload } from '@/types/practice';
 
 // Configure localForage
 localforage.config({
@@ -9,115 +14,20 @@ localforage.config({
   description: 'DeamV Practice App Database'
 });
 
-// =========================================================================
-// TYPES
-// =========================================================================
-
-export interface DataScienceChallenge {
-  id: string;
-  instruction: string;
-  solution: string;
-  category: string;
-  difficulty?: 'beginner' | 'intermediate' | 'advanced';
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface PracticeSession {
-  id: string;
-  category: string;
-  challenges: string[]; // challenge IDs
-  completed: string[]; // completed challenge IDs
-  currentIndex: number;
-  score: number;
-  startTime: Date;
-  endTime?: Date;
-  isCompleted: boolean;
-}
-
-export interface UserProgress {
-  userId: string;
-  completedChallenges: string[];
-  scores: { [challengeId: string]: number };
-  totalPracticeTime: number;
-  categories: {
-    [category: string]: {
-      completed: number;
-      total: number;
-      averageScore: number;
-      lastPracticed: Date;
-    }
-  };
-}
-
-export interface AppSettings {
-  apiKey?: string;
-  theme: 'light' | 'dark' | 'system';
-  ttsEnabled: boolean;
-  ttsRate: number;
-  ttsPitch: number;
-  autoPlayInstructions: boolean;
-  difficulty: 'beginner' | 'intermediate' | 'advanced' | 'all';
-}
-
-// --- NEW TYPES for Practice Logging ---
-
-export interface ChallengeAttempt {
-  challengeId: string;
-  isCorrect: boolean; // Was the *final* attempt correct?
-  trials: number; // Total number of submission attempts for this challenge
-  gotOnFirstTrial: boolean;
-  showAnswerClicked: boolean; // Did the user click "Show Answer" or use the equivalent phrase?
-  timeSpentSeconds: number; // Time spent on this specific challenge
-  timestamp: Date; // Added missing timestamp property
-  incorrectAttempts: {
-    code: string; // The code submitted for the incorrect trial
-    feedback: string;
-    timestamp: Date;
-  }[];
-}
-
-export interface PracticeDataPayload {
-  sessionId: string;
-  registrationCode: string | null; // User's code for tracking
-  category: string;
-  startTime: Date;
-  endTime: Date;
-  totalChallenges: number;
-  // Summary Stats
-  totalTimeSeconds: number;
-  totalQuestionsCompleted: number;
-  totalDontKnows: number;
-  totalFirstTrialSuccess: number;
-  // Detailed Data
-  attempts: ChallengeAttempt[];
-}
-
-export interface PendingUpload {
-  id: string;
-  payload: PracticeDataPayload;
-  attempts: number;
-  lastAttempt: Date;
-  status: 'PENDING' | 'FAILED';
-}
-
 // =========================================================================
 // DATABASE KEYS
 // =========================================================================
 
+// Single records that stay in localforage; everything else lives in the object stores in lib/practice-store.ts
 const DB_KEYS = {
-  CHALLENGES: 'data_science_challenges',
-  SESSIONS: 'practice_sessions',
   USER_PROGRESS: 'user_progress',
   SETTINGS: 'app_settings',
-  CATEGORIES: 'available_categories',
   LAST_SYNC: 'last_sync_time',
-  // NEW KEY for failed uploads
-  PENDING_UPLOADS: 'pending_practice_uploads',
-  // NEW KEY for active practice sessions by category
-  ACTIVE_SESSIONS: 'active_practice_sessions',
 } as const;
 
+// Every write takes this cross-tab lock, so two tabs never interleave a read-modify-write
+const WRITE_LOCK = 'practice-database';
+
 // =========================================================================
 // DATABASE HELPER CLASS
 // =========================================================================
@@ -128,25 +38,27 @@ class PracticeDatabase {
   async addDataScienceChallenge(
     instruction: string, 
     solution: string, 
-    category: string = 'General'
+    category: string = 'General',
+    testCases: TestCase[] = [],
+    { language, seedSql, tags, hints }: Pick<DataScienceChallenge, 'language' | 'seedSql' | 'tags' | 'hints'> = {}
   ): Promise<string> {
     try {
-      const challenges = await this.getDataScienceChallenges();
       const newChallenge: DataScienceChallenge = {
         id: this.generateId(),
         instruction: instruction.trim(),
         solution: solution.trim(),
         category: category.trim() || 'General',
         difficulty: this.estimateDifficulty(instruction, solution),
+        ...(testCases.length > 0 && { testCases }),
+        ...(language && language !== 'python' && { language }),
+        ...(seedSql?.trim() && { seedSql: seedSql.trim() }),
+        ...(tags && tags.length > 0 && { tags }),
+        ...(hints && hints.length > 0 && { hints }),
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      challenges.push(newChallenge);
-      await localforage.setItem(DB_KEYS.CHALLENGES, challenges);
-      
-      // Update categories cache
-      await this.updateCategoriesCache();
+      await this.write(() => practiceStore.put(STORES.CHALLENGES, toStoredChallenge(newChallenge)));
       
       return newChallenge.id;
     } catch (error) {
@@ -157,16 +69,13 @@ class PracticeDatabase {
 
   async getDataScienceChallengesByCategory(category: string, count?: number): Promise<DataScienceChallenge[]> {
     try {
-      const allChallenges = await this.getDataScienceChallenges();
-      
       let filteredChallenges: DataScienceChallenge[];
 
       if (category === 'General') {
-        filteredChallenges = allChallenges;
+        filteredChallenges = await this.getDataScienceChallenges();
       } else {
-        filteredChallenges = allChallenges.filter(challenge => 
-          challenge.category.toLowerCase() === category.toLowerCase()
-        );
+        filteredChallenges = (await practiceStore.getAllByIndex<StoredChallenge>(STORES.CHALLENGES, 'categoryKey', category.toLowerCase()))
+          .map(fromStoredChallenge);
       }
       
       // If count is provided, shuffle and slice the array
@@ -190,8 +99,8 @@ class PracticeDatabase {
 
   async getDataScienceChallenges(): Promise<DataScienceChallenge[]> {
     try {
-      const challenges = await localforage.getItem<DataScienceChallenge[]>(DB_KEYS.CHALLENGES);
-      return challenges || [];
+      const challenges = await practiceStore.getAll<StoredChallenge>(STORES.CHALLENGES);
+      return challenges.map(fromStoredChallenge);
     } catch (error) {
       console.error('Error getting challenges:', error);
       return [];
@@ -200,8 +109,8 @@ class PracticeDatabase {
 
   async getChallengeById(id: string): Promise<DataScienceChallenge | null> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      return challenges.find(challenge => challenge.id === id) || null;
+      const challenge = await practiceStore.get<StoredChallenge>(STORES.CHALLENGES, id);
+      return challenge ? fromStoredChallenge(challenge) : null;
     } catch (error) {
       console.error('Error getting challenge by ID:', error);
       return null;
@@ -213,19 +122,27 @@ class PracticeDatabase {
     updates: Partial<DataScienceChallenge>
   ): Promise<boolean> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      const index = challenges.findIndex(challenge => challenge.id === id);
-      
-      if (index === -1) return false;
-      
-      challenges[index] = {
-        ...challenges[index],
-        ...updates,
-        updatedAt: new Date()
-      };
-      
-      await localforage.setItem(DB_KEYS.CHALLENGES, challenges);
-      return true;
+      let found = false;
+
+      // Read and write in one transaction, so a concurrent update cannot be lost
+      await this.write(() => practiceStore.transaction(STORES.CHALLENGES, 'readwrite', (transaction) => {
+        const store = transaction.objectStore(STORES.CHALLENGES);
+        const request = store.get(id);
+        request.onsuccess = () => {
+          const challenge = request.result as StoredChallenge | undefined;
+          if (!challenge) return;
+
+          found = true;
+          store.put(toStoredChallenge({
+            ...fromStoredChallenge(challenge),
+            ...updates,
+            id,
+            updatedAt: new Date()
+          }));
+        };
+      }));
+
+      return found;
     } catch (error) {
       console.error('Error updating challenge:', error);
       return false;
@@ -234,14 +151,7 @@ class PracticeDatabase {
 
   async deleteChallenge(id: string): Promise<boolean> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      const filteredChallenges = challenges.filter(challenge => challenge.id !== id);
-      
-      await localforage.setItem(DB_KEYS.CHALLENGES, filteredChallenges);
-      
-      // Update categories cache
-      await this.updateCategoriesCache();
-      
+      await this.write(() => practiceStore.delete(STORES.CHALLENGES, id));
       return true;
     } catch (error) {
       console.error('Error deleting challenge:', error);
@@ -251,8 +161,7 @@ class PracticeDatabase {
 
   async clearDataScienceChallenges(): Promise<void> {
     try {
-      await localforage.removeItem(DB_KEYS.CHALLENGES);
-      await localforage.removeItem(DB_KEYS.CATEGORIES);
+      await this.write(() => practiceStore.clear(STORES.CHALLENGES));
     } catch (error) {
       console.error('Error clearing challenges:', error);
       throw error;
@@ -263,12 +172,13 @@ class PracticeDatabase {
 
   async getAllCategories(): Promise<string[]> {
     try {
-      const cachedCategories = await localforage.getItem<string[]>(DB_KEYS.CATEGORIES);
-      if (cachedCategories) {
-        return cachedCategories;
-      }
-      
-      return await this.updateCategoriesCache();
+      const categories = await practiceStore.uniqueIndexKeys(STORES.CHALLENGES, 'category');
+      const uniqueCategories = categories.filter((category): category is string =>
+        typeof category === 'string' && category !== '' && category !== 'General'
+      );
+
+      // Always include 'General' as the first category
+      return ['General', ...uniqueCategories];
     } catch (error) {
       console.error('Error getting categories:', error);
       return ['General'];
@@ -277,33 +187,14 @@ class PracticeDatabase {
 
   async getChallengesByDifficulty(difficulty: string): Promise<DataScienceChallenge[]> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      return challenges.filter(challenge => 
-        challenge.difficulty === difficulty
-      );
+      const challenges = await practiceStore.getAllByIndex<StoredChallenge>(STORES.CHALLENGES, 'difficulty', difficulty);
+      return challenges.map(fromStoredChallenge);
     } catch (error) {
       console.error('Error getting challenges by difficulty:', error);
       return [];
     }
   }
 
-  private async updateCategoriesCache(): Promise<string[]> {
-    try {
-      const challenges = await this.getDataScienceChallenges();
-      const categories = [...new Set(challenges.map(challenge => challenge.category))];
-      const uniqueCategories = categories.filter(category => category && category !== 'General');
-      
-      // Always include 'General' as the first category
-      const allCategories = ['General', ...uniqueCategories];
-      
-      await localforage.setItem(DB_KEYS.CATEGORIES, allCategories);
-      return allCategories;
-    } catch (error) {
-      console.error('Error updating categories cache:', error);
-      return ['General'];
-    }
-  }
-
   // ===== ACTIVE PRACTICE SESSION OPERATIONS (NEW) =====
 
   /**
@@ -311,10 +202,7 @@ class PracticeDatabase {
    */
   async getActivePracticeSession(category: string): Promise<PracticeSession | null> {
     try {
-      const activeSessions = await localforage.getItem<{[category: string]: PracticeSession}>(DB_KEYS.ACTIVE_SESSIONS);
-      if (!activeSessions) return null;
-      
-      const session = activeSessions[category];
+      const session = await practiceStore.get<PracticeSession>(STORES.ACTIVE_SESSIONS, category);
       if (!session) return null;
       
       // Verify session is still valid (not completed)
@@ -335,9 +223,8 @@ class PracticeDatabase {
    */
   async saveActivePracticeSession(category: string, sessionData: PracticeSession): Promise<boolean> {
     try {
-      const activeSessions = await localforage.getItem<{[category: string]: PracticeSession}>(DB_KEYS.ACTIVE_SESSIONS) || {};
-      activeSessions[category] = sessionData;
-      await localforage.setItem(DB_KEYS.ACTIVE_SESSIONS, activeSessions);
+      await this.write(() => practiceStore.put(STORES.ACTIVE_SESSIONS, sessionData, category));
+      tabCoordinator.notifyActiveSessionsChanged(category);
       return true;
     } catch (error) {
       console.error('Error saving practice session:', error);
@@ -350,11 +237,8 @@ class PracticeDatabase {
    */
   async removeActivePracticeSession(category: string): Promise<boolean> {
     try {
-      const activeSessions = await localforage.getItem<{[category: string]: PracticeSession}>(DB_KEYS.ACTIVE_SESSIONS);
-      if (!activeSessions || !activeSessions[category]) return true;
-      
-      delete activeSessions[category];
-      await localforage.setItem(DB_KEYS.ACTIVE_SESSIONS, activeSessions);
+      await this.write(() => practiceStore.delete(STORES.ACTIVE_SESSIONS, category));
+      tabCoordinator.notifyActiveSessionsChanged(category);
       return true;
     } catch (error) {
       console.error('Error removing practice session:', error);
@@ -375,8 +259,8 @@ class PracticeDatabase {
    */
   async getAllActivePracticeSessions(): Promise<{[category: string]: PracticeSession}> {
     try {
-      const activeSessions = await localforage.getItem<{[category: string]: PracticeSession}>(DB_KEYS.ACTIVE_SESSIONS);
-      return activeSessions || {};
+      const entries = await practiceStore.entries<PracticeSession>(STORES.ACTIVE_SESSIONS);
+      return Object.fromEntries(entries.map(([category, session]) => [String(category), session]));
     } catch (error) {
       console.error('Error getting all active sessions:', error);
       return {};
@@ -388,7 +272,8 @@ class PracticeDatabase {
    */
   async clearAllActivePracticeSessions(): Promise<boolean> {
     try {
-      await localforage.removeItem(DB_KEYS.ACTIVE_SESSIONS);
+      await this.write(() => practiceStore.clear(STORES.ACTIVE_SESSIONS));
+      tabCoordinator.notifyActiveSessionsChanged(null);
       return true;
     } catch (error) {
       console.error('Error clearing all active sessions:', error);
@@ -403,7 +288,8 @@ class PracticeDatabase {
       const progress = await localforage.getItem<UserProgress>(DB_KEYS.USER_PROGRESS);
       
       if (!progress) {
-        // Initialize default progress
+        // Default progress, saved with the first completed challenge. Not saved here: this read runs
+        // without the write lock, and could overwrite progress another tab has just saved.
         const defaultProgress: UserProgress = {
           userId: 'default',
           completedChallenges: [],
@@ -412,7 +298,6 @@ class PracticeDatabase {
           categories: {}
         };
         
-        await this.saveUserProgress(defaultProgress);
         return defaultProgress;
       }
       
@@ -432,7 +317,7 @@ class PracticeDatabase {
 
   async saveUserProgress(progress: UserProgress): Promise<void> {
     try {
-      await localforage.setItem(DB_KEYS.USER_PROGRESS, progress);
+      await this.write(() => localforage.setItem(DB_KEYS.USER_PROGRESS, progress));
     } catch (error) {
       console.error('Error saving user progress:', error);
       throw error;
@@ -445,66 +330,58 @@ class PracticeDatabase {
     timeSpent: number
   ): Promise<void> {
     try {
-      const progress = await this.getUserProgress();
-      const challenge = await this.getChallengeById(challengeId);
-      
-      if (!challenge) return;
+      // Read, update and save under one lock, so a completion in another tab is not lost
+      await this.write(async () => {
+        const progress = await this.getUserProgress();
+        const challenge = await this.getChallengeById(challengeId);
       
-      // Update completed challenges
-      if (!progress.completedChallenges.includes(challengeId)) {
-        progress.completedChallenges.push(challengeId);
-      }
+        if (!challenge) return;
       
-      // Update score
-      progress.scores[challengeId] = score;
+        // Update completed challenges
+        if (!progress.completedChallenges.includes(challengeId)) {
+          progress.completedChallenges.push(challengeId);
+        }
       
-      // Update practice time
-      progress.totalPracticeTime += timeSpent;
+        // Update score
+        progress.scores[challengeId] = score;
       
-      // Update category progress
-      const category = challenge.category;
-      if (!progress.categories[category]) {
-        progress.categories[category] = {
-          completed: 0,
-          total: 0,
-          averageScore: 0,
-          lastPracticed: new Date()
-        };
-      }
+        // Update practice time
+        progress.totalPracticeTime += timeSpent;
       
-      const categoryStats = progress.categories[category];
+        // Update category progress
+        const category = challenge.category;
+        if (!progress.categories[category]) {
+          progress.categories[category] = {
+            completed: 0,
+            total: 0,
+            averageScore: 0,
+            lastPracticed: new Date()
+          };
+        }
       
-      // PERFORMANCE NOTE: This is an expensive operation as it requires
-      // multiple async calls inside a loop. For a full fix, this section
-      // would need to be rewritten to pre-fetch all challenges.
-      // For now, we'll keep the logic but wrap it in an IIFE to use await.
-      await (async () => {
-        const allChallenges = await this.getDataScienceChallenges();
-
-        const completedChallengesDetails = progress.completedChallenges
-          .map(id => allChallenges.find(c => c.id === id))
-          .filter((c): c is DataScienceChallenge => c !== undefined);
-
-        categoryStats.completed = completedChallengesDetails.filter(c => c.category === category).length;
-        
-        categoryStats.total = (await this.getDataScienceChallengesByCategory(category)).length;
+        const categoryStats = progress.categories[category];
+
+        // Only this category's challenges are read, through the category index
+        const categoryChallengeIds = new Set(
+          (await this.getDataScienceChallengesByCategory(category)).map(c => c.id)
+        );
+
+        categoryStats.completed = progress.completedChallenges.filter(id => categoryChallengeIds.has(id)).length;
+        categoryStats.total = categoryChallengeIds.size;
 
         // Calculate average score for category
         const categoryScores = Object.entries(progress.scores)
-          .filter(([id]) => {
-            const c = allChallenges.find(c => c.id === id);
-            return c?.category === category;
-          })
+          .filter(([id]) => categoryChallengeIds.has(id))
           .map(([, score]) => score);
-        
+      
         categoryStats.averageScore = categoryScores.length > 0 
           ? categoryScores.reduce((sum, score) => sum + score, 0) / categoryScores.length
           : 0;
-      })(); // Immediately invoke the async function
       
-      categoryStats.lastPracticed = new Date();
+        categoryStats.lastPracticed = new Date();
       
-      await this.saveUserProgress(progress);
+        await localforage.setItem(DB_KEYS.USER_PROGRESS, progress);
+      });
     } catch (error) {
       console.error('Error updating challenge progress:', error);
       // Ignoring throw error here for now to match provided code style
@@ -525,7 +402,6 @@ class PracticeDatabase {
 
   async createPracticeSession(category: string, challengeIds: string[]): Promise<string> {
     try {
-      const sessions = await this.getPracticeSessions();
       const newSession: PracticeSession = {
         id: this.generateId(),
         category,
@@ -537,11 +413,12 @@ class PracticeDatabase {
         isCompleted: false
       };
       
-      sessions.push(newSession);
-      await localforage.setItem(DB_KEYS.SESSIONS, sessions);
-      
       // Also save as active session
-      await this.saveActivePracticeSession(category, newSession);
+      await this.write(() => practiceStore.transaction([STORES.SESSIONS, STORES.ACTIVE_SESSIONS], 'readwrite', (transaction) => {
+        transaction.objectStore(STORES.SESSIONS).put(newSession);
+        transaction.objectStore(STORES.ACTIVE_SESSIONS).put(newSession, category);
+      }));
+      tabCoordinator.notifyActiveSessionsChanged(category);
       
       return newSession.id;
     } catch (error) {
@@ -552,8 +429,7 @@ class PracticeDatabase {
 
   async getPracticeSessions(): Promise<PracticeSession[]> {
     try {
-      const sessions = await localforage.getItem<PracticeSession[]>(DB_KEYS.SESSIONS);
-      return sessions || [];
+      return await practiceStore.getAll<PracticeSession>(STORES.SESSIONS);
     } catch (error) {
       console.error('Error getting practice sessions:', error);
       return [];
@@ -562,8 +438,7 @@ class PracticeDatabase {
 
   async getSessionById(id: string): Promise<PracticeSession | null> {
     try {
-      const sessions = await this.getPracticeSessions();
-      return sessions.find(session => session.id === id) || null;
+      return (await practiceStore.get<PracticeSession>(STORES.SESSIONS, id)) ?? null;
     } catch (error) {
       console.error('Error getting session by ID:', error);
       return null;
@@ -576,34 +451,44 @@ class PracticeDatabase {
     score: number
   ): Promise<void> {
     try {
-      const sessions = await this.getPracticeSessions();
-      const sessionIndex = sessions.findIndex(session => session.id === sessionId);
-      
-      if (sessionIndex === -1) return;
-      
-      const session = sessions[sessionIndex];
-      
-      // Update completed challenges
-      if (!session.completed.includes(completedChallengeId)) {
-        session.completed.push(completedChallengeId);
-      }
-      
-      // Update score
-      session.score += score;
-      session.currentIndex++;
-      
-      // Check if session is completed
-      if (session.currentIndex >= session.challenges.length) {
-        session.isCompleted = true;
-        session.endTime = new Date();
-        // Remove from active sessions when completed
-        await this.removeActivePracticeSession(session.category);
-      } else {
-        // Update active session
-        await this.saveActivePracticeSession(session.category, session);
-      }
-      
-      await localforage.setItem(DB_KEYS.SESSIONS, sessions);
+      let category: string | null = null;
+
+      await this.write(() => practiceStore.transaction([STORES.SESSIONS, STORES.ACTIVE_SESSIONS], 'readwrite', (transaction) => {
+        const sessions = transaction.objectStore(STORES.SESSIONS);
+        const activeSessions = transaction.objectStore(STORES.ACTIVE_SESSIONS);
+        const request = sessions.get(sessionId);
+
+        request.onsuccess = () => {
+          const session = request.result as PracticeSession | undefined;
+          if (!session) return;
+
+          category = session.category;
+
+          // Update completed challenges
+          if (!session.completed.includes(completedChallengeId)) {
+            session.completed.push(completedChallengeId);
+          }
+
+          // Update score
+          session.score += score;
+          session.currentIndex++;
+
+          // Check if session is completed
+          if (session.currentIndex >= session.challenges.length) {
+            session.isCompleted = true;
+            session.endTime = new Date();
+            // Remove from active sessions when completed
+            activeSessions.delete(session.category);
+          } else {
+            // Update active session
+            activeSessions.put(session, session.category);
+          }
+
+          sessions.put(session);
+        };
+      }));
+
+      if (category !== null) tabCoordinator.notifyActiveSessionsChanged(category);
     } catch (error) {
       console.error('Error updating session progress:', error);
       throw error;
@@ -648,30 +533,18 @@ class PracticeDatabase {
 
   async saveAppSettings(settings: AppSettings): Promise<void> {
     try {
-      await localforage.setItem(DB_KEYS.SETTINGS, settings);
+      await this.write(() => localforage.setItem(DB_KEYS.SETTINGS, settings));
     } catch (error) {
       console.error('Error saving app settings:', error);
       throw error;
     }
   }
 
-  async updateApiKey(apiKey: string): Promise<void> {
-    try {
-      const settings = await this.getAppSettings();
-      settings.apiKey = apiKey;
-      await this.saveAppSettings(settings);
-    } catch (error) {
-      console.error('Error updating API key:', error);
-      throw error;
-    }
-  }
-
   // ===== PENDING UPLOADS OPERATIONS (NEW) =====
 
   async getPendingUploads(): Promise<PendingUpload[]> {
       try {
-          const uploads = await localforage.getItem<PendingUpload[]>(DB_KEYS.PENDING_UPLOADS);
-          return uploads || [];
+          return await practiceStore.getAll<PendingUpload>(STORES.PENDING_UPLOADS);
       } catch (error) {
           console.error('Error getting pending uploads:', error);
           return [];
@@ -680,7 +553,6 @@ class PracticeDatabase {
 
   async addPendingUpload(payload: PracticeDataPayload): Promise<void> {
       try {
-          const uploads = await this.getPendingUploads();
           const newUpload: PendingUpload = {
               id: this.generateId(),
               payload,
@@ -688,8 +560,7 @@ class PracticeDatabase {
               lastAttempt: new Date(),
               status: 'PENDING',
           };
-          uploads.push(newUpload);
-          await localforage.setItem(DB_KEYS.PENDING_UPLOADS, uploads);
+          await this.write(() => practiceStore.put(STORES.PENDING_UPLOADS, newUpload));
       } catch (error) {
           console.error('Error adding pending upload:', error);
           throw error;
@@ -698,16 +569,8 @@ class PracticeDatabase {
 
   async updatePendingUpload(upload: PendingUpload): Promise<void> {
       try {
-          let uploads = await this.getPendingUploads();
-          const index = uploads.findIndex(u => u.id === upload.id);
-          
-          if (index !== -1) {
-              uploads[index] = upload;
-          } else {
-              uploads.push(upload); // Should not happen, but safe to add
-          }
-
-          await localforage.setItem(DB_KEYS.PENDING_UPLOADS, uploads);
+          // Adds the upload if it is missing, which should not happen but is safe
+          await this.write(() => practiceStore.put(STORES.PENDING_UPLOADS, upload));
       } catch (error) {
           console.error('Error updating pending upload:', error);
           throw error;
@@ -716,21 +579,69 @@ class PracticeDatabase {
 
   async removePendingUpload(id: string): Promise<void> {
       try {
-          let uploads = await this.getPendingUploads();
-          uploads = uploads.filter(u => u.id !== id);
-          await localforage.setItem(DB_KEYS.PENDING_UPLOADS, uploads);
+          await this.write(() => practiceStore.delete(STORES.PENDING_UPLOADS, id));
       } catch (error) {
           console.error('Error removing pending upload:', error);
           throw error;
       }
   }
 
+  // ===== PENDING REGRADES OPERATIONS =====
+
+  async getPendingRegrades(): Promise<PendingRegrade[]> {
+      try {
+          return await practiceStore.getAll<PendingRegrade>(STORES.PENDING_REGRADES);
+      } catch (error) {
+          console.error('Error getting pending regrades:', error);
+          return [];
+      }
+  }
+
+  async addPendingRegrade(regrade: Omit<PendingRegrade, 'id' | 'attempts' | 'createdAt' | 'status'>): Promise<void> {
+      try {
+          await this.write(() => practiceStore.put<PendingRegrade>(STORES.PENDING_REGRADES, {
+              ...regrade,
+              id: this.generateId(),
+              attempts: 0,
+              createdAt: new Date(),
+              status: 'PENDING',
+          }));
+      } catch (error) {
+          console.error('Error adding pending regrade:', error);
+          throw error;
+      }
+  }
+
+  async updatePendingRegrade(regrade: PendingRegrade): Promise<void> {
+      try {
+          // Only update a regrade that still exists, so a removed one is not brought back
+          await this.write(() => practiceStore.transaction(STORES.PENDING_REGRADES, 'readwrite', (transaction) => {
+              const store = transaction.objectStore(STORES.PENDING_REGRADES);
+              const request = store.getKey(regrade.id);
+              request.onsuccess = () => {
+                  if (request.result !== undefined) store.put(regrade);
+              };
+          }));
+      } catch (error) {
+          console.error('Error updating pending regrade:', error);
+          throw error;
+      }
+  }
+
+  async removePendingRegrade(id: string): Promise<void> {
+      try {
+          await this.write(() => practiceStore.delete(STORES.PENDING_REGRADES, id));
+      } catch (error) {
+          console.error('Error removing pending regrade:', error);
+          throw error;
+      }
+  }
+
   // ===== UTILITY METHODS (Existing logic retained) =====
 
   async hasDataScienceChallenges(): Promise<boolean> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      return challenges.length > 0;
+      return (await this.getChallengeCount()) > 0;
     } catch (error) {
       console.error('Error checking for challenges:', error);
       return false;
@@ -739,8 +650,7 @@ class PracticeDatabase {
 
   async getChallengeCount(): Promise<number> {
     try {
-      const challenges = await this.getDataScienceChallenges();
-      return challenges.length;
+      return await practiceStore.count(STORES.CHALLENGES);
     } catch (error) {
       console.error('Error getting challenge count:', error);
       return 0;
@@ -749,13 +659,9 @@ class PracticeDatabase {
 
   async getRandomChallenges(count: number, category?: string): Promise<DataScienceChallenge[]> {
     try {
-      let challenges = await this.getDataScienceChallenges();
-      
-      if (category && category !== 'General') {
-        challenges = challenges.filter(challenge => 
-          challenge.category.toLowerCase() === category.toLowerCase()
-        );
-      }
+      const challenges = category && category !== 'General'
+        ? await this.getDataScienceChallengesByCategory(category)
+        : await this.getDataScienceChallenges();
       
       // Shuffle and take requested number
       const shuffled = [...challenges].sort(() => 0.5 - Math.random());
@@ -784,6 +690,14 @@ class PracticeDatabase {
 
   // ===== PRIVATE METHODS (Existing logic retained) =====
 
+  /**
+   * Run a write under the cross-tab write lock. Not re-entrant: `operation` must not call another
+   * method that writes through this.
+   */
+  private write<T>(operation: () => Promise<T>): Promise<T> {
+    return tabCoordinator.withLock(WRITE_LOCK, operation);
+  }
+
   private generateId(): string {
     return `id_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
@@ -800,63 +714,91 @@ class PracticeDatabase {
     return 'advanced';
   }
 
-  // ===== DATA EXPORT/IMPORT (Existing logic retained) =====
+  // ===== DATA EXPORT/IMPORT =====
+  // The backup file format, its validation and merging live in lib/backup.ts
 
-  async exportData(): Promise<string> {
+  /**
+   * Everything stored, read straight from storage: unlike the getters above, a failed read throws
+   * instead of looking like an empty database, and progress and settings are null until first saved.
+   */
+  async exportData(): Promise<PracticeDataSnapshot> {
     try {
-      const data = {
-        challenges: await this.getDataScienceChallenges(),
-        progress: await this.getUserProgress(),
-        settings: await this.getAppSettings(),
-        sessions: await this.getPracticeSessions(),
-        uploads: await this.getPendingUploads(), // Include pending uploads in export
-        activeSessions: await this.getAllActivePracticeSessions(), // Include active sessions in export
-        exportDate: new Date().toISOString(),
-        version: '1.0'
-      };
-      
-      return JSON.stringify(data, null, 2);
+      return await this.readSnapshot();
     } catch (error) {
       console.error('Error exporting data:', error);
       throw error;
     }
   }
 
-  async importData(jsonData: string): Promise<boolean> {
-    try {
-      const data = JSON.parse(jsonData);
-      
-      if (data.challenges) {
-        await localforage.setItem(DB_KEYS.CHALLENGES, data.challenges);
-      }
-      
-      if (data.progress) {
-        await localforage.setItem(DB_KEYS.USER_PROGRESS, data.progress);
-      }
-      
-      if (data.settings) {
-        await localforage.setItem(DB_KEYS.SETTINGS, data.settings);
-      }
-      
-      if (data.sessions) {
-        await localforage.setItem(DB_KEYS.SESSIONS, data.sessions);
-      }
-
-      if (data.uploads) { // Handle importing pending uploads
-        await localforage.setItem(DB_KEYS.PENDING_UPLOADS, data.uploads);
-      }
+  /**
+   * Replace everything stored with `snapshot`, which the caller has already validated.
+   */
+  async importData(snapshot: PracticeDataSnapshot): Promise<void> {
+    await this.updateData(async () => ({ snapshot, result: undefined }));
+  }
 
-      if (data.activeSessions) { // Handle importing active sessions
-        await localforage.setItem(DB_KEYS.ACTIVE_SESSIONS, data.activeSessions);
-      }
-      
-      // Update categories cache
-      await this.updateCategoriesCache();
-      
-      return true;
+  /**
+   * Replace everything stored with the snapshot `update` builds from the current data. The read and
+   * the replace run under one write lock, so a write from another tab cannot land in between and
+   * be lost. `update` must not write through this database.
+   */
+  async updateData<T>(update: (current: PracticeDataSnapshot) => Promise<{ snapshot: PracticeDataSnapshot; result: T }>): Promise<T> {
+    try {
+      const result = await this.write(async () => {
+        const { snapshot, result } = await update(await this.readSnapshot());
+        await this.replaceSnapshot(snapshot);
+        return result;
+      });
+      tabCoordinator.notifyActiveSessionsChanged(null);
+      return result;
     } catch (error) {
       console.error('Error importing data:', error);
-      return false;
+      throw error;
+    }
+  }
+
+  private async readSnapshot(): Promise<PracticeDataSnapshot> {
+    const activeSessions = await practiceStore.entries<PracticeSession>(STORES.ACTIVE_SESSIONS);
+
+    return {
+      challenges: (await practiceStore.getAll<StoredChallenge>(STORES.CHALLENGES)).map(fromStoredChallenge),
+      sessions: await practiceStore.getAll<PracticeSession>(STORES.SESSIONS),
+      activeSessions: Object.fromEntries(activeSessions.map(([category, session]) => [String(category), session])),
+      pendingUploads: await practiceStore.getAll<PendingUpload>(STORES.PENDING_UPLOADS),
+      pendingRegrades: await practiceStore.getAll<PendingRegrade>(STORES.PENDING_REGRADES),
+      progress: await localforage.getItem<UserProgress>(DB_KEYS.USER_PROGRESS),
+      settings: await localforage.getItem<AppSettings>(DB_KEYS.SETTINGS),
+    };
+  }
+
+  private async replaceSnapshot(snapshot: PracticeDataSnapshot): Promise<void> {
+    // Every store is replaced in one transaction, so a failed import leaves them as they were
+    await practiceStore.transaction(Object.values(STORES), 'readwrite', (transaction) => {
+      const replace = <T>(storeName: StoreName, records: { value: T; key?: IDBValidKey }[]) => {
+        const store = transaction.objectStore(storeName);
+        store.clear();
+        for (const { value, key } of records) {
+          store.put(value, key);
+        }
+      };
+
+      replace(STORES.CHALLENGES, snapshot.challenges.map(challenge => ({ value: toStoredChallenge(challenge) })));
+      replace(STORES.SESSIONS, snapshot.sessions.map(session => ({ value: session })));
+      replace(STORES.ACTIVE_SESSIONS, Object.entries(snapshot.activeSessions).map(([category, session]) => ({ value: session, key: category })));
+      replace(STORES.PENDING_UPLOADS, snapshot.pendingUploads.map(upload => ({ value: upload })));
+      replace(STORES.PENDING_REGRADES, snapshot.pendingRegrades.map(regrade => ({ value: regrade })));
+    });
+
+    if (snapshot.progress) {
+      await localforage.setItem(DB_KEYS.USER_PROGRESS, snapshot.progress);
+    } else {
+      await localforage.removeItem(DB_KEYS.USER_PROGRESS);
+    }
+
+    if (snapshot.settings) {
+      await localforage.setItem(DB_KEYS.SETTINGS, snapshot.settings);
+    } else {
+      await localforage.removeItem(DB_KEYS.SETTINGS);
     }
   }
 
@@ -864,7 +806,11 @@ class PracticeDatabase {
 
   async clearAllData(): Promise<void> {
     try {
-      await localforage.clear();
+      await this.write(async () => {
+        await localforage.clear();
+        await practiceStore.clear(Object.values(STORES));
+      });
+      tabCoordinator.notifyActiveSessionsChanged(null);
     } catch (error) {
       console.error('Error clearing all data:', error);
       throw error;
@@ -880,6 +826,11 @@ class PracticeDatabase {
         const item = await localforage.getItem(key);
         totalSize += new Blob([JSON.stringify(item)]).size;
       }
+
+      for (const storeName of Object.values(STORES)) {
+        const records = await practiceStore.getAll(storeName);
+        totalSize += new Blob([JSON.stringify(records)]).size;
+      }
       
       return totalSize;
     } catch (error) {
@@ -0,0 +1,97 @@
+// lib/evaluation-cache.ts
+// Browser-side cache of AI evaluations, so resubmitting the same code does not spend another call.
+import localforage from 'localforage';
+import { hashNormalizedCode } from '@/lib/answer-similarity';
+import type { EvaluationResponse } from '@/lib/evaluation-provider';
+import type { ExecutionResult } from '@/types/challenge';
+
+// --- INTERFACES ---
+// Callers may keep their own copy of the response type, so only `success` is required
+export interface CachedEvaluation<T extends Pick<EvaluationResponse, 'success'> = EvaluationResponse> {
+  challengeId: string;
+  response: T;
+  executionResult?: ExecutionResult;
+  cachedAt: number;
+}
+
+// --- CONFIGURATION ---
+// Oldest entries are dropped past this, which keeps the store to a few megabytes at most
+const MAX_ENTRIES = 500;
+
+// Bumped when the code normalization changes, so entries under the old keys are never matched
+const KEY_VERSION = 'v2';
+
+class EvaluationCache {
+  private store: LocalForage | null = null;
+
+  /**
+   * The cached evaluation for this challenge and code, if the same normalized code was evaluated before.
+   */
+  async get<T extends Pick<EvaluationResponse, 'success'>>(challengeId: string, userCode: string): Promise<CachedEvaluation<T> | null> {
+    try {
+      const store = this.getStore();
+      if (!store) return null;
+      return await store.getItem<CachedEvaluation<T>>(await this.key(challengeId, userCode));
+    } catch (error) {
+      console.warn('⚠️ [EvaluationCache] Lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember an AI evaluation. Failed evaluations are skipped so the next submit tries again.
+   */
+  async set<T extends Pick<EvaluationResponse, 'success'>>(challengeId: string, userCode: string, response: T, executionResult?: ExecutionResult | null): Promise<void> {
+    if (!response.success) return;
+
+    try {
+      const store = this.getStore();
+      if (!store) return;
+
+      const entry: CachedEvaluation<T> = {
+        challengeId,
+        response,
+        ...(executionResult && { executionResult }),
+        cachedAt: Date.now(),
+      };
+      await store.setItem(await this.key(challengeId, userCode), entry);
+      await this.prune(store);
+    } catch (error) {
+      console.warn('⚠️ [EvaluationCache] Failed to store evaluation:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.getStore()?.clear();
+  }
+
+  private async key(challengeId: string, userCode: string): Promise<string> {
+    return `${KEY_VERSION}:${challengeId}:${await hashNormalizedCode(userCode)}`;
+  }
+
+  private async prune(store: LocalForage): Promise<void> {
+    if ((await store.length()) <= MAX_ENTRIES) return;
+
+    const entries: { key: string; cachedAt: number }[] = [];
+    await store.iterate<CachedEvaluation, void>((value, key) => {
+      entries.push({ key, cachedAt: value.cachedAt });
+    });
+
+    entries.sort((a, b) => a.cachedAt - b.cachedAt);
+    for (const { key } of entries.slice(0, entries.length - MAX_ENTRIES)) {
+      await store.removeItem(key);
+    }
+  }
+
+  // A separate store, so entries can be listed and pruned without touching the practice data
+  private getStore(): LocalForage | null {
+    if (typeof window === 'undefined') return null;
+    if (!this.store) {
+      this.store = localforage.createInstance({ name: 'DeamV', storeName: 'evaluation_cache' });
+    }
+    return this.store;
+  }
+}
+
+// Create singleton instance
+export const evaluationCache = new EvaluationCache();
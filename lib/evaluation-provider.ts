@@ -0,0 +1,540 @@
+// lib/evaluation-provider.ts
+// Provider-independent evaluation types, plus the prompt building and structured-output handling
+// shared by every model-backed provider. Concrete providers live in gemini-api.ts and evaluation-providers.ts.
+
+import { LANGUAGE_NAMES, parseChallengeLanguage } from '@/lib/challenge-language';
+import {
+  buildEvaluationSchema,
+  type CriterionScore,
+  type EvaluationCriterion,
+  type EvaluationSchema,
+  type EvaluationVerdict,
+  extractPartialFeedback,
+  getCodeCriteria,
+  RUBRIC_CRITERIA,
+  validateStructuredEvaluation,
+} from '@/lib/evaluation-schema';
+import type { ChallengeLanguage, ExecutionResult } from '@/types/challenge';
+import type { EvaluationProviderName, EvaluationRequest } from '@/types/evaluation';
+
+// Types
+export type { EvaluationProviderName, EvaluationRequest } from '@/types/evaluation';
+
+export type EvaluationInput = Omit<EvaluationRequest, 'apiKey' | 'provider' | 'model' | 'forceRefresh'> & {
+  // Resolved on the server from the category or language; the built-in template when unset
+  promptTemplate?: PromptTemplate;
+};
+
+/**
+ * Text of a code evaluation prompt with `{{placeholder}}` slots; see PROMPT_PLACEHOLDERS.
+ */
+export interface PromptTemplate {
+  // `<key>@v<version>`, recorded with each attempt so a verdict can be traced to its prompt
+  id: string;
+  key: string;
+  version: number | 'builtin';
+  body: string;
+}
+
+export interface EvaluationResponse {
+  success: boolean;
+  feedback: string;
+  isCorrect: boolean;
+  score?: number;
+  verdict?: EvaluationVerdict;
+  suggestions?: string[];
+  // Mistakes the evaluator found in the answer; `errors` reports evaluation failures
+  detectedErrors?: string[];
+  criteria?: CriterionScore[];
+  errors?: string[];
+  provider?: EvaluationProviderName;
+  // Set when served from the server's evaluation cache: when the provider produced it (ms since epoch)
+  cachedAt?: number;
+  // Id of the prompt template the evaluation used
+  promptTemplate?: string;
+}
+
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export interface EvaluationProvider {
+  readonly name: EvaluationProviderName;
+  evaluateCode(request: EvaluationInput): Promise<EvaluationResponse>;
+  /**
+   * Rubric-style evaluation for written (non-code) answers such as theoretical quiz questions.
+   */
+  evaluateWrittenAnswer(request: EvaluationInput): Promise<EvaluationResponse>;
+  /**
+   * Same as `evaluateCode`, but calls `onFeedback` with each new piece of the feedback text while
+   * the model is still generating. Providers without it are evaluated in one go.
+   */
+  evaluateCodeStream?(request: EvaluationInput, onFeedback: (text: string) => void): Promise<EvaluationResponse>;
+}
+
+// Execution output beyond this is cut from the prompt; the verdict rarely depends on it
+const MAX_PROMPT_OUTPUT_CHARS = 4000;
+// Per-test values are shorter still, since a challenge can carry many tests
+const MAX_PROMPT_TEST_VALUE_CHARS = 200;
+
+// One retry covers the occasional truncated or chatty reply without doubling latency every time
+const MAX_STRUCTURED_ATTEMPTS = 2;
+
+// Slots a prompt template may use. The output format is always appended after the template,
+// so instructors can change how strictly answers are judged but not break the reply schema.
+export const PROMPT_PLACEHOLDERS = ['instruction', 'solution', 'code', 'context', 'language', 'language_name', 'execution_result', 'criteria'] as const;
+export const REQUIRED_PROMPT_PLACEHOLDERS = ['instruction', 'code'] as const;
+
+type PromptPlaceholder = typeof PROMPT_PLACEHOLDERS[number];
+
+/**
+ * Used when no template file matches the challenge's category or language.
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'default@builtin',
+  key: 'default',
+  version: 'builtin',
+  body: `
+You are an expert {{language_name}} programming instructor evaluating a student's code submission for a data science exercise.
+
+CONTEXT:
+This is a data science practice exercise focusing on {{language_name}} programming.
+{{context}}
+
+EXERCISE INSTRUCTION:
+{{instruction}}
+
+EXPECTED SOLUTION APPROACH:
+{{solution}}
+
+STUDENT'S CODE SUBMISSION:
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+{{execution_result}}
+EVALUATION CRITERIA:
+{{criteria}}
+
+EVALUATION INSTRUCTIONS:
+- Analyze the student's code thoroughly
+- Check if it produces the expected output/behavior, using the actual execution result when one is given
+- Provide specific, constructive feedback
+- Focus on learning and improvement
+- Be encouraging but honest
+- If the code is incorrect, explain why and suggest improvements
+- If the code is correct but could be better, suggest optimizations
+- Keep feedback concise but comprehensive (3-5 sentences maximum)
+- Use second person ("You", "Your") in feedback
+
+IMPORTANT: The student's solution doesn't need to match the expected solution exactly. It just needs to be functionally correct and achieve the same result.
+`,
+};
+
+/**
+ * The code criteria for the request's language, so SQL and R answers are not judged by Python conventions.
+ */
+export const codeCriteriaFor = (request: Pick<EvaluationInput, 'language'>): EvaluationCriterion[] =>
+  getCodeCriteria(parseChallengeLanguage(request.language) ?? 'python');
+
+/**
+ * Base class for providers backed by a text-generation model. Subclasses only implement
+ * `complete`, which sends the prompt to their service and returns the raw model text.
+ */
+export abstract class PromptEvaluationProvider implements EvaluationProvider {
+  abstract readonly name: EvaluationProviderName;
+  // Human-readable service name used in error messages
+  protected abstract readonly serviceLabel: string;
+
+  /**
+   * Send the prompt and return the raw model text. Implementations pass `schema` to their
+   * service's structured-output option so the reply is a JSON object.
+   */
+  protected abstract complete(prompt: string, schema: EvaluationSchema): Promise<string>;
+
+  /**
+   * Like `complete`, but calls `onText` with each piece of the reply as it arrives and resolves
+   * with the whole text. Services without a streaming API deliver the reply as a single piece.
+   */
+  protected async completeStream(prompt: string, schema: EvaluationSchema, onText: (text: string) => void): Promise<string> {
+    const text = await this.complete(prompt, schema);
+    onText(text);
+    return text;
+  }
+
+  async evaluateCode(request: EvaluationInput): Promise<EvaluationResponse> {
+    try {
+      const criteria = codeCriteriaFor(request);
+      return await this.runEvaluation(this.buildEvaluationPrompt(request, criteria), criteria);
+    } catch (error) {
+      return this.handleEvaluationError(error);
+    }
+  }
+
+  async evaluateCodeStream(request: EvaluationInput, onFeedback: (text: string) => void): Promise<EvaluationResponse> {
+    try {
+      const criteria = codeCriteriaFor(request);
+      return await this.runEvaluation(this.buildEvaluationPrompt(request, criteria), criteria, onFeedback);
+    } catch (error) {
+      return this.handleEvaluationError(error);
+    }
+  }
+
+  async evaluateWrittenAnswer(request: EvaluationInput): Promise<EvaluationResponse> {
+    try {
+      const prompt = this.buildRubricPrompt(request);
+      return await this.runEvaluation(prompt, RUBRIC_CRITERIA);
+    } catch (error) {
+      return this.handleEvaluationError(error);
+    }
+  }
+
+  private async runEvaluation(
+    prompt: string,
+    criteria: EvaluationCriterion[],
+    onFeedback?: (text: string) => void
+  ): Promise<EvaluationResponse> {
+    const schema = buildEvaluationSchema(criteria);
+    let attemptPrompt = prompt;
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      // Only the first attempt streams; a retry's feedback arrives with the final result instead
+      const text = onFeedback && attempt === 1
+        ? await this.streamFeedback(attemptPrompt, schema, onFeedback)
+        : await this.complete(attemptPrompt, schema);
+      const evaluation = validateStructuredEvaluation(text, criteria);
+
+      if (evaluation) {
+        return {
+          success: true,
+          feedback: evaluation.feedback,
+          isCorrect: evaluation.verdict === 'CORRECT',
+          score: evaluation.score,
+          verdict: evaluation.verdict,
+          suggestions: evaluation.suggestions,
+          detectedErrors: evaluation.detectedErrors,
+          criteria: evaluation.criteria,
+          provider: this.name,
+        };
+      }
+
+      console.warn(`⚠️ [${this.serviceLabel}] Malformed evaluation output (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS})`);
+      attemptPrompt = `${prompt}\n\nYour previous reply was not a valid JSON object matching the required format. Reply again with only the JSON object.`;
+    }
+
+    return {
+      success: false,
+      feedback: 'Unable to parse AI response. Please try again.',
+      isCorrect: false,
+      errors: ['Response parsing failed'],
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Stream the reply and pass on only the new part of its `feedback` field each time it grows.
+   */
+  private async streamFeedback(prompt: string, schema: EvaluationSchema, onFeedback: (text: string) => void): Promise<string> {
+    let reply = '';
+    let sentLength = 0;
+
+    return this.completeStream(prompt, schema, chunk => {
+      reply += chunk;
+      const feedback = extractPartialFeedback(reply);
+      if (feedback && feedback.length > sentLength) {
+        onFeedback(feedback.slice(sentLength));
+        sentLength = feedback.length;
+      }
+    });
+  }
+
+  private handleEvaluationError(error: unknown): EvaluationResponse {
+    // Propagate the configuration error or the specific ApiError from complete()
+    if (error instanceof Error && error.message.includes('API key not configured')) {
+      throw error;
+    }
+
+    // If it's an API error (e.g., 401 for invalid key), throw it to be caught by the route handler's main catch block
+    if (typeof error === 'object' && error !== null && 'code' in error && 'message' in error) {
+        throw error;
+    }
+
+    return this.handleError(error);
+  }
+
+  /**
+   * POST a JSON body and return the parsed response, converting HTTP failures into an ApiError.
+   * `T` describes the fields the caller reads; every one of them should be optional.
+   */
+  protected async postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+    const response = await this.post(url, body, headers);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * POST a JSON body to an endpoint that answers with server-sent events, and call `onData` with
+   * the payload of each `data:` line.
+   */
+  protected async postEventStream(
+    url: string,
+    body: unknown,
+    onData: (data: string) => void,
+    headers: Record<string, string> = {}
+  ): Promise<void> {
+    const response = await this.post(url, body, { Accept: 'text/event-stream', ...headers });
+    if (!response.body) {
+      throw new Error(`${this.serviceLabel} returned an empty stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushLine = (line: string) => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        onData(trimmed.slice('data:'.length).trim());
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(flushLine);
+    }
+
+    flushLine(buffer + decoder.decode());
+  }
+
+  private async post(url: string, body: unknown, headers: Record<string, string>): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      // Local servers that are not running fail here rather than with an HTTP status
+      throw {
+        code: 'SERVICE_UNAVAILABLE',
+        message: `Could not reach ${this.serviceLabel}. Please check that the service is running.`,
+        details: error instanceof Error ? error.message : error,
+      } satisfies ApiError;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      // Throw the ApiError object which the route handler can easily process
+      throw this.handleApiError(response.status, errorData);
+    }
+
+    return response;
+  }
+
+  private buildEvaluationPrompt(request: EvaluationInput, criteria: EvaluationCriterion[]): string {
+    const { instruction, userCode, expectedSolution, language = 'python', context, promptTemplate = DEFAULT_PROMPT_TEMPLATE } = request;
+
+    const values: Record<PromptPlaceholder, string> = {
+      instruction,
+      solution: expectedSolution,
+      code: userCode,
+      context: context ?? '',
+      language,
+      language_name: LANGUAGE_NAMES[language as ChallengeLanguage] ?? language,
+      execution_result: this.formatExecutionResult(request.executionResult, language),
+      criteria: this.formatCriteria(criteria),
+    };
+
+    // A single pass, so placeholder-like text inside the student's code is left alone
+    const prompt = promptTemplate.body.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (placeholder, name: string) =>
+      name in values ? values[name as PromptPlaceholder] : placeholder
+    );
+
+    return `${prompt.trim()}\n\n${this.outputInstructions(criteria)}`;
+  }
+
+  private buildRubricPrompt(request: EvaluationInput): string {
+    const { instruction, userCode, expectedSolution, context } = request;
+
+    return `
+You are an expert data science instructor grading a student's written answer to a theory question.
+
+CONTEXT:
+${context || 'This is a graded data science quiz question.'}
+
+QUESTION:
+${instruction}
+
+MODEL ANSWER:
+${expectedSolution}
+
+STUDENT'S ANSWER:
+${userCode}
+
+GRADING RUBRIC:
+${this.formatCriteria(RUBRIC_CRITERIA)}
+
+GRADING INSTRUCTIONS:
+- Compare the student's answer with the model answer on meaning, not wording
+- Award credit for correct points even if phrased differently
+- Keep feedback concise (2-4 sentences) and use second person ("You", "Your")
+
+${this.outputInstructions(RUBRIC_CRITERIA)}
+`.trim();
+  }
+
+  private formatExecutionResult(result: ExecutionResult | undefined, language: string): string {
+    if (!result) return '';
+
+    const clip = (text: string) => text.length > MAX_PROMPT_OUTPUT_CHARS
+      ? `${text.slice(0, MAX_PROMPT_OUTPUT_CHARS)}\n... (truncated)`
+      : text;
+
+    const status = result.timedOut
+      ? 'The code was stopped because it exceeded the time limit.'
+      : result.error ? 'The code raised an error.' : 'The code ran without errors.';
+
+    const environment = language === 'sql'
+      ? "the student's query was run against a SQLite database seeded with the exercise's tables; STDOUT shows the last result set"
+      : "the student's code was run in a sandboxed Python interpreter";
+
+    return `
+ACTUAL EXECUTION RESULT (${environment}):
+${status}
+STDOUT:
+${result.output?.trim() ? clip(result.output.trim()) : '(no output)'}
+${result.error ? `ERROR:\n${clip(result.error.trim())}\n` : ''}${this.formatTestResults(result)}`;
+  }
+
+  private formatTestResults(result: ExecutionResult): string {
+    if (!result.totalTests) return '';
+
+    const quote = (text: string) => JSON.stringify(text.length > MAX_PROMPT_TEST_VALUE_CHARS
+      ? `${text.slice(0, MAX_PROMPT_TEST_VALUE_CHARS)}...`
+      : text);
+
+    const lines = (result.testResults ?? []).map((test, index) => {
+      const label = test.description || `Test ${index + 1}`;
+      if (test.passed) return `- PASSED: ${label}`;
+      const actual = test.error ? `raised ${test.error.trim().split('\n').pop()}` : `got ${quote(test.actualOutput)}`;
+      return `- FAILED: ${label}: expected ${quote(test.expectedOutput)}, ${actual}`;
+    });
+
+    return `
+AUTOMATED TESTS: ${result.passedTests ?? 0} of ${result.totalTests} passed.
+${lines.join('\n')}
+The tests decide whether the answer is correct, so your verdict and score must agree with them. Use your feedback to explain why the failing tests fail and how the code could improve.
+`;
+  }
+
+  private formatCriteria(criteria: EvaluationCriterion[]): string {
+    return criteria.map((criterion, index) => `${index + 1}. ${criterion.label} (${criterion.key}): ${criterion.question}`).join('\n');
+  }
+
+  private outputInstructions(criteria: EvaluationCriterion[]): string {
+    return `
+OUTPUT FORMAT:
+Reply with a single JSON object and nothing else:
+{
+  "feedback": your feedback as described above,
+  "suggestions": up to 3 short, concrete improvements (empty array if none),
+  "detectedErrors": specific mistakes in the answer (empty array if none),
+  "criteria": one entry per criterion, using the keys ${criteria.map(criterion => `"${criterion.key}"`).join(', ')}:
+    { "criterion": key, "score": integer from 0 to 100, "comment": one sentence },
+  "score": integer from 0 to 100,
+  "verdict": "CORRECT" | "PARTIAL" | "INCORRECT"
+}
+Use CORRECT only for fully correct answers and INCORRECT when the core of the task is not achieved.
+`.trim();
+  }
+
+  /**
+   * Map an HTTP failure to an ApiError. Subclasses can override `extractErrorMessage`
+   * when their service reports errors in a different shape.
+   */
+  protected handleApiError(status: number, errorData: unknown): ApiError {
+    const apiMessage = this.extractErrorMessage(errorData);
+
+    switch (status) {
+      case 400:
+        return {
+          code: 'INVALID_REQUEST',
+          message: apiMessage || 'Invalid request to AI service. Please check your input.',
+          details: errorData,
+        };
+      case 401:
+        return {
+          code: 'UNAUTHORIZED',
+          message: apiMessage || `Invalid API key. Please check your ${this.serviceLabel} API key configuration.`,
+          details: errorData,
+        };
+      case 403:
+        return {
+          code: 'FORBIDDEN',
+          message: apiMessage || 'API access forbidden. Please check your API key permissions.',
+          details: errorData,
+        };
+      case 404:
+        return {
+          code: 'INVALID_REQUEST',
+          message: apiMessage || `The requested model is not available on ${this.serviceLabel}.`,
+          details: errorData,
+        };
+      case 429:
+        return {
+          code: 'RATE_LIMITED',
+          message: apiMessage || 'Rate limit exceeded. Please wait a moment and try again.',
+          details: errorData,
+        };
+      case 500:
+        return {
+          code: 'SERVER_ERROR',
+          message: apiMessage || 'AI service is temporarily unavailable. Please try again later.',
+          details: errorData,
+        };
+      default:
+        return {
+          code: 'UNKNOWN_ERROR',
+          message: apiMessage || 'An unexpected error occurred. Please try again.',
+          details: errorData,
+        };
+    }
+  }
+
+  protected extractErrorMessage(errorData: unknown): string | undefined {
+    // Gemini and OpenAI-compatible servers both nest the message under `error`
+    const error = (errorData as { error?: string | { message?: string } } | null)?.error;
+    return typeof error === 'string' ? error : error?.message;
+  }
+
+  private handleError(error: unknown): EvaluationResponse {
+    if (error instanceof Error) {
+      return {
+        success: false,
+        feedback: `Evaluation failed: ${error.message}`,
+        isCorrect: false,
+        errors: [error.message],
+        provider: this.name,
+      };
+    }
+
+    const apiError = error as ApiError;
+    return {
+      success: false,
+      feedback: `AI evaluation error: ${apiError.message}`,
+      isCorrect: false,
+      errors: [apiError.message],
+      provider: this.name,
+    };
+  }
+}
@@ -0,0 +1,258 @@
+// lib/evaluation-providers.ts
+// Non-Gemini evaluation providers and the factory that picks one per request or per deployment.
+
+import { normalizeCode, normalizeText, tokenSimilarity } from '@/lib/answer-similarity';
+import {
+  codeCriteriaFor,
+  type EvaluationInput,
+  type EvaluationProvider,
+  type EvaluationProviderName,
+  type EvaluationResponse,
+  PromptEvaluationProvider,
+} from '@/lib/evaluation-provider';
+import { type EvaluationCriterion, type EvaluationSchema, RUBRIC_CRITERIA } from '@/lib/evaluation-schema';
+import { GeminiAPI } from '@/lib/gemini-api';
+import { EvaluationProviderNameSchema } from '@/types/evaluation';
+
+// --- INTERFACES ---
+export interface ProviderEndpointConfig {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface CreateProviderOptions {
+  provider?: EvaluationProviderName;
+  model?: string;
+  // Only used by Gemini; other providers take their credentials from the deployment
+  apiKey?: string;
+}
+
+// --- CONFIGURATION ---
+export const EVALUATION_PROVIDERS: EvaluationProviderName[] = [...EvaluationProviderNameSchema.options];
+
+// Base URLs come from the deployment only; accepting them per request would let clients make the server fetch arbitrary hosts
+const PROVIDER_DEFAULTS: Record<Exclude<EvaluationProviderName, 'gemini' | 'mock'>, ProviderEndpointConfig> = {
+  openai: {
+    baseURL: process.env.NEXT_PUBLIC_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY || '',
+  },
+  ollama: {
+    baseURL: process.env.NEXT_PUBLIC_OLLAMA_BASE_URL || 'http://localhost:11434',
+    model: 'llama3.1',
+  },
+  llamacpp: {
+    baseURL: process.env.NEXT_PUBLIC_LLAMACPP_BASE_URL || 'http://localhost:8080/v1',
+    // llama.cpp serves whichever model it was started with and ignores this name
+    model: 'local',
+  },
+};
+
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_OUTPUT_TOKENS = 1024;
+
+export const isEvaluationProviderName = (value: unknown): value is EvaluationProviderName =>
+  EvaluationProviderNameSchema.safeParse(value).success;
+
+/**
+ * The deployment-wide provider from NEXT_PUBLIC_EVALUATION_PROVIDER, falling back to Gemini.
+ */
+export const getDefaultProviderName = (): EvaluationProviderName => {
+  const configured = process.env.NEXT_PUBLIC_EVALUATION_PROVIDER?.trim().toLowerCase();
+  return isEvaluationProviderName(configured) ? configured : 'gemini';
+};
+
+/**
+ * Whether the caller must supply an API key for this provider. Only Gemini takes the student's key.
+ */
+export const providerRequiresApiKey = (provider: EvaluationProviderName): boolean => provider === 'gemini';
+
+/**
+ * Whether calls to this provider are billed to a key: the student's for Gemini, the deployment's
+ * for OpenAI. Local providers and the mock cost nothing to call.
+ */
+export const isKeyedProvider = (provider: EvaluationProviderName): boolean =>
+  provider === 'gemini' || provider === 'openai';
+
+/**
+ * Whether a request may pick this provider and model instead of the deployment's. Only what
+ * NEXT_PUBLIC_EVALUATION_ALLOWED_OVERRIDES lists is allowed: comma-separated `provider:model`
+ * pairs, or a provider name alone for its default model. A keyless provider listed alone may be
+ * asked for any model; a keyed one only for the models listed, so the deployment decides what its
+ * key pays for. Nothing is listed by default.
+ */
+export const isOverrideAllowed = (provider?: EvaluationProviderName, model?: string): boolean => {
+  if (!provider) return !model;
+
+  const allowed = (process.env.NEXT_PUBLIC_EVALUATION_ALLOWED_OVERRIDES ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (model && allowed.includes(`${provider}:${model}`)) return true;
+  return allowed.includes(provider) && (!model || !isKeyedProvider(provider));
+};
+
+/**
+ * Build the provider for a request. Request options win over the deployment defaults, except
+ * that a model override is only honoured together with an explicit provider.
+ */
+export const createEvaluationProvider = (options: CreateProviderOptions = {}): EvaluationProvider => {
+  const provider = options.provider ?? getDefaultProviderName();
+  const model = (options.provider ? options.model : undefined) || process.env.NEXT_PUBLIC_EVALUATION_MODEL || undefined;
+
+  switch (provider) {
+    case 'gemini':
+      return new GeminiAPI(options.apiKey, model ? { model } : {});
+    case 'openai':
+      return new OpenAICompatibleAPI('openai', 'OpenAI-compatible service', { ...PROVIDER_DEFAULTS.openai, ...(model && { model }) });
+    case 'llamacpp':
+      return new OpenAICompatibleAPI('llamacpp', 'the local llama.cpp server', { ...PROVIDER_DEFAULTS.llamacpp, ...(model && { model }) });
+    case 'ollama':
+      return new OllamaAPI({ ...PROVIDER_DEFAULTS.ollama, ...(model && { model }) });
+    case 'mock':
+      return new MockEvaluationProvider();
+  }
+};
+
+// --- PROVIDERS ---
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` endpoint: OpenAI itself, llama.cpp's
+ * `llama-server`, vLLM, LM Studio and similar.
+ */
+export class OpenAICompatibleAPI extends PromptEvaluationProvider {
+  readonly name: EvaluationProviderName;
+  protected readonly serviceLabel: string;
+  private config: ProviderEndpointConfig;
+
+  constructor(name: EvaluationProviderName, serviceLabel: string, config: ProviderEndpointConfig) {
+    super();
+    this.name = name;
+    this.serviceLabel = serviceLabel;
+    this.config = config;
+  }
+
+  protected async complete(prompt: string, schema: EvaluationSchema): Promise<string> {
+    const response = await this.postJson<{ choices?: { message?: { content?: string } }[] }>(this.chatCompletionsURL(), this.buildRequestBody(prompt, schema), this.authHeaders());
+    return response.choices?.[0]?.message?.content ?? '';
+  }
+
+  protected async completeStream(prompt: string, schema: EvaluationSchema, onText: (text: string) => void): Promise<string> {
+    let text = '';
+    await this.postEventStream(
+      this.chatCompletionsURL(),
+      { ...this.buildRequestBody(prompt, schema), stream: true },
+      data => {
+        if (data === '[DONE]') return;
+        const chunk: string = JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+        if (chunk) {
+          text += chunk;
+          onText(chunk);
+        }
+      },
+      this.authHeaders()
+    );
+
+    return text;
+  }
+
+  private chatCompletionsURL(): string {
+    return `${this.config.baseURL.replace(/\/$/, '')}/chat/completions`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  private buildRequestBody(prompt: string, schema: EvaluationSchema) {
+    return {
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: this.config.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: this.config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'evaluation', strict: true, schema },
+      },
+    };
+  }
+}
+
+/**
+ * Ollama's native chat API, for lab machines running models locally.
+ */
+export class OllamaAPI extends PromptEvaluationProvider {
+  readonly name = 'ollama' as const;
+  protected readonly serviceLabel = 'the local Ollama server';
+  private config: ProviderEndpointConfig;
+
+  constructor(config: ProviderEndpointConfig) {
+    super();
+    this.config = config;
+  }
+
+  protected async complete(prompt: string, schema: EvaluationSchema): Promise<string> {
+    const response = await this.postJson<{ message?: { content?: string } }>(`${this.config.baseURL.replace(/\/$/, '')}/api/chat`, {
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false,
+      format: schema,
+      options: {
+        temperature: this.config.temperature ?? DEFAULT_TEMPERATURE,
+        num_predict: this.config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+    });
+
+    return response.message?.content ?? '';
+  }
+}
+
+/**
+ * Deterministic provider for development and demos. It compares the answer with the expected
+ * solution after normalising whitespace, comments and quotes; no model is called.
+ */
+export class MockEvaluationProvider implements EvaluationProvider {
+  readonly name = 'mock' as const;
+
+  async evaluateCode(request: EvaluationInput): Promise<EvaluationResponse> {
+    return this.compare(request, normalizeCode, codeCriteriaFor(request));
+  }
+
+  async evaluateWrittenAnswer(request: EvaluationInput): Promise<EvaluationResponse> {
+    return this.compare(request, normalizeText, RUBRIC_CRITERIA);
+  }
+
+  private compare(request: EvaluationInput, normalize: (value: string) => string, criteria: EvaluationCriterion[]): EvaluationResponse {
+    const submitted = normalize(request.userCode);
+    const expected = normalize(request.expectedSolution);
+
+    if (submitted === expected) {
+      return this.result(100, 'Your answer matches the expected solution.', criteria);
+    }
+
+    const similarity = tokenSimilarity(submitted, expected);
+    if (similarity >= 0.5) {
+      return this.result(70, 'Your answer shares most of its content with the expected solution, but some parts differ. Compare it with the expected solution to find the gap.', criteria);
+    }
+
+    return this.result(0, 'Your answer differs substantially from the expected solution. Review the instruction and try again.', criteria);
+  }
+
+  private result(score: number, feedback: string, criteria: EvaluationCriterion[]): EvaluationResponse {
+    return {
+      success: true,
+      feedback: `${feedback} (Evaluated by the mock provider.)`,
+      isCorrect: score === 100,
+      score,
+      verdict: score === 100 ? 'CORRECT' : score > 0 ? 'PARTIAL' : 'INCORRECT',
+      suggestions: [],
+      detectedErrors: [],
+      criteria: criteria.map(criterion => ({ criterion: criterion.key, score, comment: 'Not assessed individually by the mock provider.' })),
+      provider: this.name,
+    };
+  }
+}
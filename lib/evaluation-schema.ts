@@ -0,0 +1,200 @@
+// lib/evaluation-schema.ts
+// JSON shape the evaluation prompts ask models for, and the validator applied to their output.
+import { z } from 'zod';
+import type { ChallengeLanguage } from '@/types/challenge';
+
+// Types
+export type EvaluationVerdict = 'CORRECT' | 'INCORRECT' | 'PARTIAL';
+
+export interface CriterionScore {
+  criterion: string;
+  score: number;
+  comment: string;
+}
+
+export interface StructuredEvaluation {
+  verdict: EvaluationVerdict;
+  score: number;
+  feedback: string;
+  suggestions: string[];
+  detectedErrors: string[];
+  criteria: CriterionScore[];
+}
+
+export interface EvaluationCriterion {
+  key: string;
+  label: string;
+  question: string;
+}
+
+// What good practice and edge cases mean in each challenge language
+const LANGUAGE_CRITERIA_QUESTIONS: Record<ChallengeLanguage, { bestPractices: string; edgeCases: string }> = {
+  python: {
+    bestPractices: 'Does it follow Python conventions and data science best practices?',
+    edgeCases: 'Does it handle edge cases appropriately?',
+  },
+  r: {
+    bestPractices: 'Does it follow R conventions, such as vectorised operations instead of loops, and data science best practices?',
+    edgeCases: 'Does it handle missing values (NA) and other edge cases appropriately?',
+  },
+  sql: {
+    bestPractices: 'Does it follow SQL conventions, such as explicit joins, clear aliases and selecting only the columns it needs?',
+    edgeCases: 'Does it handle NULLs, duplicate rows and empty results appropriately?',
+  },
+};
+
+/**
+ * Mirrors the EVALUATION CRITERIA section of the code prompt. The keys are the same in every
+ * language, so per-criterion scores stay comparable; only the questions change.
+ */
+export const getCodeCriteria = (language: ChallengeLanguage = 'python'): EvaluationCriterion[] => {
+  const questions = LANGUAGE_CRITERIA_QUESTIONS[language];
+  return [
+    { key: 'correctness', label: 'Functional Correctness', question: 'Does the code solve the problem correctly?' },
+    { key: 'quality', label: 'Code Quality', question: 'Is the code readable, efficient, and well-structured?' },
+    { key: 'bestPractices', label: 'Best Practices', question: questions.bestPractices },
+    { key: 'edgeCases', label: 'Error Handling', question: questions.edgeCases },
+  ];
+};
+
+// Mirrors the GRADING RUBRIC section of the written-answer prompt
+export const RUBRIC_CRITERIA: EvaluationCriterion[] = [
+  { key: 'accuracy', label: 'Accuracy', question: 'Are the stated facts and definitions correct?' },
+  { key: 'completeness', label: 'Completeness', question: 'Does the answer cover the key points of the model answer?' },
+  { key: 'clarity', label: 'Clarity', question: 'Is the explanation clear and logically structured?' },
+  { key: 'terminology', label: 'Terminology', question: 'Does it use the correct technical terms?' },
+];
+
+const VERDICTS = ['CORRECT', 'INCORRECT', 'PARTIAL'] as const satisfies readonly EvaluationVerdict[];
+
+/**
+ * JSON Schema for the evaluation object. Providers pass it to their structured-output option.
+ * Range keywords are left out because not every service accepts them; `validateStructuredEvaluation`
+ * checks the 0-100 range instead. Properties are listed in generation order: feedback first so it
+ * can be streamed to the student, and the verdict last so it follows from the reasoning.
+ */
+export const buildEvaluationSchema = (criteria: EvaluationCriterion[]) => ({
+  type: 'object',
+  properties: {
+    feedback: { type: 'string' },
+    suggestions: { type: 'array', items: { type: 'string' } },
+    detectedErrors: { type: 'array', items: { type: 'string' } },
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string', enum: criteria.map(criterion => criterion.key) },
+          score: { type: 'integer' },
+          comment: { type: 'string' },
+        },
+        required: ['criterion', 'score', 'comment'],
+        additionalProperties: false,
+      },
+    },
+    score: { type: 'integer' },
+    verdict: { type: 'string', enum: VERDICTS },
+  },
+  required: ['feedback', 'suggestions', 'detectedErrors', 'criteria', 'score', 'verdict'],
+  additionalProperties: false,
+});
+
+export type EvaluationSchema = ReturnType<typeof buildEvaluationSchema>;
+
+const ScoreSchema = z.number().min(0).max(100);
+
+// What a model reply must contain. Criterion keys are checked separately, against the request's criteria.
+const ModelEvaluationSchema = z.object({
+  verdict: z.string().transform(verdict => verdict.toUpperCase()).pipe(z.enum(VERDICTS)),
+  score: ScoreSchema,
+  feedback: z.string().trim().min(1),
+  suggestions: z.array(z.string()),
+  detectedErrors: z.array(z.string()),
+  criteria: z.array(z.object({
+    criterion: z.string(),
+    score: ScoreSchema,
+    comment: z.unknown(),
+  })),
+});
+
+/**
+ * Parse raw model text into a StructuredEvaluation. Returns null when the text is not valid JSON
+ * or does not match the schema, so the caller can retry.
+ */
+export const validateStructuredEvaluation = (text: string, criteria: EvaluationCriterion[]): StructuredEvaluation | null => {
+  let raw: unknown;
+
+  try {
+    // Local models sometimes wrap the object in a Markdown code fence despite the schema
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    return null;
+  }
+
+  const parsed = ModelEvaluationSchema.safeParse(raw);
+  if (!parsed.success) return null;
+  const data = parsed.data;
+
+  const knownCriteria = new Set(criteria.map(criterion => criterion.key));
+  const criterionScores: CriterionScore[] = [];
+
+  for (const item of data.criteria) {
+    if (!knownCriteria.has(item.criterion)) return null;
+    criterionScores.push({
+      criterion: item.criterion,
+      score: Math.round(item.score),
+      comment: typeof item.comment === 'string' ? item.comment.trim() : '',
+    });
+  }
+
+  // Every criterion must be scored exactly once
+  if (new Set(criterionScores.map(item => item.criterion)).size !== knownCriteria.size || criterionScores.length !== knownCriteria.size) {
+    return null;
+  }
+
+  return {
+    verdict: data.verdict,
+    score: Math.round(data.score),
+    feedback: data.feedback,
+    suggestions: data.suggestions.map(suggestion => suggestion.trim()).filter(Boolean),
+    detectedErrors: data.detectedErrors.map(error => error.trim()).filter(Boolean),
+    criteria: criterionScores,
+  };
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Decode the `feedback` string from a reply that may still be arriving, so a streamed evaluation
+ * can be shown before the object is complete. Returns null until the field has started; an escape
+ * sequence cut off at the end is left for the next call.
+ */
+export const extractPartialFeedback = (text: string): string | null => {
+  const match = /"feedback"\s*:\s*"/.exec(text);
+  if (!match) return null;
+
+  let feedback = '';
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      feedback += char;
+      continue;
+    }
+
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+
+    if (escaped === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      feedback += String.fromCharCode(Number.parseInt(hex, 16));
+      i += 5;
+    } else {
+      feedback += JSON_ESCAPES[escaped] ?? escaped;
+      i++;
+    }
+  }
+
+  return feedback;
+};
@@ -0,0 +1,91 @@
+// lib/evaluation-stream.ts
+// Reads a streaming /api/evaluate-answer response in the browser: `feedback` events while the
+// model writes, then a single `result` or `error` event.
+
+// --- INTERFACES ---
+export interface EvaluationStreamHandlers {
+  onFeedback: (text: string) => void;
+}
+
+// The events the route sends; the result is checked by the caller, which knows its shape
+type StreamEvent =
+  | { event: 'feedback'; data: { text?: string } }
+  | { event: 'result'; data: unknown }
+  | { event: 'error'; data: { message?: string; status?: number } };
+
+const STREAM_EVENTS: ReadonlySet<string> = new Set<StreamEvent['event']>(['feedback', 'result', 'error']);
+
+// --- CONFIGURATION ---
+export const EVENT_STREAM_TYPE = 'text/event-stream';
+
+/**
+ * Whether the route answered with server-sent events rather than a plain JSON evaluation.
+ */
+export const isEventStream = (response: Response): boolean =>
+  response.headers.get('content-type')?.includes(EVENT_STREAM_TYPE) ?? false;
+
+/**
+ * Pass each piece of feedback to `onFeedback` as it arrives and resolve with the final evaluation.
+ * An `error` event rejects with the route's message, the same way a JSON error response does.
+ */
+export const readEvaluationStream = async <T>(response: Response, { onFeedback }: EvaluationStreamHandlers): Promise<T> => {
+  if (!response.body) {
+    throw new Error('The evaluator returned an empty response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+
+    // Events are separated by a blank line; the last block may still be incomplete
+    const blocks = buffer.split('\n\n');
+    buffer = done ? '' : blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      const streamEvent = parseEvent(block);
+      if (!streamEvent) continue;
+
+      if (streamEvent.event === 'feedback') {
+        onFeedback(streamEvent.data.text ?? '');
+      } else if (streamEvent.event === 'result') {
+        return streamEvent.data as T;
+      } else if (streamEvent.event === 'error') {
+        throw new Error(streamEvent.data.message || `Server error (Status ${streamEvent.data.status})`);
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error('The evaluation ended before a result arrived');
+};
+
+/**
+ * The first complete sentence of streamed text, or null while it is still being written.
+ * A sentence ends at `.`, `!` or `?` followed by whitespace, so `df.head()` and `3.5` do not end one.
+ */
+export const firstSentence = (text: string): string | null => {
+  const match = text.match(/^\s*([\s\S]*?[.!?])\s/);
+  return match ? match[1] : null;
+};
+
+const parseEvent = (block: string): StreamEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice('data:'.length).trimStart());
+    }
+  }
+
+  // Other event types are not sent by the route and are skipped
+  if (data.length === 0 || !STREAM_EVENTS.has(event)) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as StreamEvent;
+};
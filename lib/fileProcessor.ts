@@ -1,6 +1,9 @@
 // lib/fileProcessor.ts
 import { practiceDatabase } from './database';
-import { DataScienceChallenge } from './database';
+import { parseTestCases } from './test-cases';
+import { parseChallengeLanguage } from './challenge-language';
+import { HINT_SEPARATOR, TAG_SEPARATOR, parseListColumn } from './challenge-columns';
+import type { ChallengeLanguage, TestCase } from '@/types/challenge';
 // FIX 1: Import ParseResult from papaparse
 import Papa, { ParseResult } from 'papaparse';
 
@@ -30,6 +33,13 @@ export interface ParsedChallenge {
     category: string;
     lineNumber: number;
     rawLine: string;
+    testCases?: TestCase[];
+    testCaseError?: string;
+    language?: ChallengeLanguage;
+    languageError?: string;
+    seedSql?: string;
+    tags?: string[];
+    hints?: string[];
 }
 
 // Constants
@@ -290,11 +300,35 @@ class FileProcessor {
             const categoryKey = normalizedKeys.find(key => 
                 key.includes('category') || key.includes('topic')
             );
+            // Optional JSON array of { input, expectedOutput, description } objects
+            const testsKey = normalizedKeys.find(key => 
+                key.includes('test')
+            );
+            // Optional: python (default), r or sql
+            const languageKey = normalizedKeys.find(key => 
+                key.includes('language')
+            );
+            // Optional for SQL challenges: statements that create and fill the tables
+            const seedKey = normalizedKeys.find(key => 
+                key.includes('seed') || key.includes('schema')
+            );
+            // Optional: comma-separated tags and `|`-separated hints
+            const tagsKey = normalizedKeys.find(key => 
+                key.includes('tag')
+            );
+            const hintsKey = normalizedKeys.find(key => 
+                key.includes('hint')
+            );
 
             console.log('🔍 [FileProcessor] Detected columns:', {
                 instructionKey,
                 solutionKey,
-                categoryKey
+                categoryKey,
+                testsKey,
+                languageKey,
+                seedKey,
+                tagsKey,
+                hintsKey
             });
 
             // Validate required columns
@@ -315,6 +349,9 @@ class FileProcessor {
                 const solution = row[solutionKey!]?.trim() || ''; // Added '!'
                 // FIX 2: Added non-null assertion '!' to categoryKey to fix TS2538
                 const category = (row[categoryKey!]?.trim() || 'General').trim(); 
+                const tests = testsKey ? parseTestCases(row[testsKey]) : { testCases: [] };
+                const rawLanguage = languageKey ? row[languageKey] : '';
+                const language = parseChallengeLanguage(rawLanguage);
                 
                 // Line number accounts for the 0-index and the header row (index + 2)
                 const lineNumber = index + 2;
@@ -333,7 +370,14 @@ class FileProcessor {
                         solution: this.cleanText(solution),
                         category: category || 'General',
                         lineNumber,
-                        rawLine: `Row ${index + 1}: ${instruction.substring(0, 50)}...`
+                        rawLine: `Row ${index + 1}: ${instruction.substring(0, 50)}...`,
+                        testCases: tests.testCases,
+                        testCaseError: tests.error,
+                        language: language ?? undefined,
+                        languageError: language ? undefined : `Unknown language "${rawLanguage.trim()}" (use python, r or sql)`,
+                        seedSql: seedKey ? row[seedKey]?.trim() || undefined : undefined,
+                        tags: tagsKey ? parseListColumn(row[tagsKey], TAG_SEPARATOR) : undefined,
+                        hints: hintsKey ? parseListColumn(row[hintsKey], HINT_SEPARATOR) : undefined
                     };
 
                     // Basic validation
@@ -422,6 +466,32 @@ class FileProcessor {
                         console.log('🔍 [FileProcessor] Text parser found category at line', lineNumber);
                     }
                 }
+                // Check for language line
+                else if (line.toLowerCase().startsWith('language:')) {
+                    if (currentChallenge.instruction) {
+                        const rawLanguage = line.replace(/^language:\s*/i, '');
+                        const language = parseChallengeLanguage(rawLanguage);
+                        currentChallenge.language = language ?? undefined;
+                        currentChallenge.languageError = language ? undefined : `Unknown language "${rawLanguage.trim()}" (use python, r or sql)`;
+                        console.log('🔍 [FileProcessor] Text parser found language at line', lineNumber);
+                    }
+                }
+                // Check for seed line (SQL statements on a single line)
+                else if (line.toLowerCase().startsWith('seed:')) {
+                    if (currentChallenge.instruction) {
+                        currentChallenge.seedSql = line.replace(/^seed:\s*/i, '').trim();
+                        console.log('🔍 [FileProcessor] Text parser found seed schema at line', lineNumber);
+                    }
+                }
+                // Check for test cases line (a JSON array on a single line)
+                else if (line.toLowerCase().startsWith('tests:')) {
+                    if (currentChallenge.instruction) {
+                        const tests = parseTestCases(line.replace(/^tests:\s*/i, ''));
+                        currentChallenge.testCases = tests.testCases;
+                        currentChallenge.testCaseError = tests.error;
+                        console.log('🔍 [FileProcessor] Text parser found test cases at line', lineNumber);
+                    }
+                }
                 // Continuation of multi-line fields
                 else if (currentChallenge.instruction && !currentChallenge.solution) {
                     // Assume this is part of the instruction
@@ -470,7 +540,12 @@ class FileProcessor {
                 solution: this.cleanText(challenge.solution),
                 category: this.cleanText(challenge.category || 'General'),
                 lineNumber: challenge.lineNumber || lineNumber,
-                rawLine: challenge.rawLine || ''
+                rawLine: challenge.rawLine || '',
+                testCases: challenge.testCases,
+                testCaseError: challenge.testCaseError,
+                language: challenge.language,
+                languageError: challenge.languageError,
+                seedSql: challenge.seedSql
             };
 
             console.log('🔍 [FileProcessor] Finalized challenge:', {
@@ -555,7 +630,9 @@ class FileProcessor {
                 await practiceDatabase.addDataScienceChallenge(
                     challenge.instruction,
                     challenge.solution,
-                    challenge.category
+                    challenge.category,
+                    challenge.testCases,
+                    { language: challenge.language, seedSql: challenge.seedSql, tags: challenge.tags, hints: challenge.hints }
                 );
 
                 result.processed++;
@@ -624,6 +701,22 @@ class FileProcessor {
             errors.push('Solution appears too short for code');
         }
 
+        // A broken test cell would silently turn the challenge into an AI-graded one
+        if (challenge.testCaseError) {
+            errors.push(challenge.testCaseError);
+        }
+
+        if (challenge.languageError) {
+            errors.push(challenge.languageError);
+        } else if (challenge.language && challenge.language !== 'python' && challenge.testCases?.length) {
+            // Test inputs are Python snippets run after the answer
+            errors.push('Test cases are only supported for Python challenges');
+        }
+
+        if (challenge.seedSql && challenge.language !== 'sql') {
+            errors.push('A seed schema is only used by SQL challenges');
+        }
+
         const isValid = errors.length === 0;
         
         if (!isValid) {
@@ -686,15 +779,20 @@ class FileProcessor {
             console.log(`🔍 [FileProcessor] Exporting ${challenges.length} challenges to CSV`);
 
             // CSV header
-            let csv = 'Instruction,Solution,Category\n';
+            let csv = 'Instruction,Solution,Category,Language,Seed,TestCases,Tags,Hints\n';
 
             // Add each challenge
             for (const challenge of challenges) {
                 const escapedInstruction = this.escapeCsv(challenge.instruction);
                 const escapedSolution = this.escapeCsv(challenge.solution);
                 const escapedCategory = this.escapeCsv(challenge.category);
+                const escapedLanguage = this.escapeCsv(challenge.language || 'python');
+                const escapedSeed = this.escapeCsv(challenge.seedSql || '');
+                const escapedTests = this.escapeCsv(challenge.testCases?.length ? JSON.stringify(challenge.testCases) : '');
+                const escapedTags = this.escapeCsv((challenge.tags ?? []).join(`${TAG_SEPARATOR} `));
+                const escapedHints = this.escapeCsv((challenge.hints ?? []).join(` ${HINT_SEPARATOR} `));
                 
-                csv += `"${escapedInstruction}","${escapedSolution}","${escapedCategory}"\n`;
+                csv += `"${escapedInstruction}","${escapedSolution}","${escapedCategory}","${escapedLanguage}","${escapedSeed}","${escapedTests}","${escapedTags}","${escapedHints}"\n`;
             }
 
             console.log('✅ [FileProcessor] CSV export completed successfully');
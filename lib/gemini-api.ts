@@ -0,0 +1,139 @@
+// lib/gemini-api.ts
+// Gemini evaluation provider used by the practice evaluator and quiz grading.
+import { PromptEvaluationProvider } from '@/lib/evaluation-provider';
+import type { EvaluationSchema } from '@/lib/evaluation-schema';
+
+export type { ApiError, EvaluationRequest, EvaluationResponse } from '@/lib/evaluation-provider';
+
+// Types
+export interface GeminiConfig {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  topK?: number;
+  topP?: number;
+}
+
+// Default configuration
+const DEFAULT_CONFIG: GeminiConfig = {
+  model: 'gemini-2.0-flash-exp',
+  temperature: 0.2,
+  maxOutputTokens: 1024,
+  topK: 40,
+  topP: 0.95,
+};
+
+export class GeminiAPI extends PromptEvaluationProvider {
+  readonly name = 'gemini' as const;
+  protected readonly serviceLabel = 'Gemini';
+  private baseURL = 'https://generativelanguage.googleapis.com/v1beta';
+  private apiKey: string | null = null;
+  private config: GeminiConfig = DEFAULT_CONFIG;
+
+  constructor(apiKey?: string, config: Partial<GeminiConfig> = {}) {
+    super();
+    if (apiKey) {
+      this.apiKey = apiKey;
+    }
+    this.setConfig(config);
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  setConfig(config: Partial<GeminiConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  protected async complete(prompt: string, schema: EvaluationSchema): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('API key not configured');
+    }
+
+    const response = await this.postJson<{ candidates?: { content?: { parts?: { text?: string }[] } }[] }>(
+      `${this.baseURL}/models/${this.config.model}:generateContent?key=${this.apiKey}`,
+      this.buildRequestBody(prompt, schema)
+    );
+
+    return response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+  }
+
+  protected async completeStream(prompt: string, schema: EvaluationSchema, onText: (text: string) => void): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('API key not configured');
+    }
+
+    let text = '';
+    await this.postEventStream(
+      `${this.baseURL}/models/${this.config.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+      this.buildRequestBody(prompt, schema),
+      data => {
+        const chunk: string = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+        if (chunk) {
+          text += chunk;
+          onText(chunk);
+        }
+      }
+    );
+
+    return text;
+  }
+
+  private buildRequestBody(prompt: string, schema: EvaluationSchema) {
+    return {
+      contents: [{
+        parts: [{
+          text: prompt
+        }]
+      }],
+      generationConfig: {
+        maxOutputTokens: this.config.maxOutputTokens,
+        temperature: this.config.temperature,
+        topK: this.config.topK,
+        topP: this.config.topP,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(schema),
+      },
+      safetySettings: [
+        {
+          category: "HARM_CATEGORY_HARASSMENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_HATE_SPEECH",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        }
+      ]
+    };
+  }
+}
+
+/**
+ * Gemini's responseSchema is an OpenAPI subset: upper-case type names and no additionalProperties.
+ * Gemini also sorts properties alphabetically unless `propertyOrdering` says otherwise, which would
+ * put the verdict ahead of the feedback that streams to the student.
+ */
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const converted: Record<string, unknown> = Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => key !== 'additionalProperties')
+      .map(([key, value]) => [key, key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value)])
+  );
+
+  if ('properties' in schema && schema.properties && typeof schema.properties === 'object') {
+    converted.propertyOrdering = Object.keys(schema.properties);
+  }
+  return converted;
+};
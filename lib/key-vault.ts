@@ -0,0 +1,266 @@
+// lib/key-vault.ts
+// The student's Gemini API key, encrypted at rest with WebCrypto (AES-GCM). By default it is
+// encrypted with a non-extractable key generated on this device and kept in IndexedDB, so the key
+// cannot be read back out of storage as text. Students can instead protect it with a passphrase,
+// which is never stored: the key then stays locked until they unlock it in Settings.
+import localforage from 'localforage';
+import { practiceStore, STORES } from '@/lib/practice-store';
+
+// --- INTERFACES ---
+export type ApiKeyProtection = 'device' | 'passphrase';
+
+export type ApiKeyStatus = 'none' | 'locked' | 'unlocked';
+
+interface EncryptedSecret {
+  protection: ApiKeyProtection;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+  // PBKDF2 salt, for passphrase-protected secrets
+  salt?: Uint8Array<ArrayBuffer>;
+}
+
+// --- CONFIGURATION ---
+const VAULT_KEYS = {
+  DEVICE_KEY: 'device_key',
+  API_KEY: 'gemini_api_key',
+} as const;
+
+// Where earlier versions kept the key in plain text: its own localforage key, and a copy in the app settings
+const LEGACY_KEYS = {
+  API_KEY: 'gemini_api_key',
+  SETTINGS: 'app_settings',
+} as const;
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+
+const ALGORITHM = { name: 'AES-GCM', length: 256 } as const;
+
+// --- KEY VAULT CLASS ---
+class KeyVault {
+  // Derived from the passphrase when the student unlocks the vault; gone when the page is closed
+  private passphraseKey: CryptoKey | null = null;
+  private migration: Promise<void> | null = null;
+
+  isSupported(): boolean {
+    return practiceStore.isSupported() && !!globalThis.crypto?.subtle;
+  }
+
+  /**
+   * The API key, or null when none is saved or it is locked behind a passphrase.
+   */
+  async getApiKey(): Promise<string | null> {
+    if (!this.isSupported()) return null;
+
+    try {
+      const secret = await this.getSecret();
+      if (!secret) return null;
+
+      const key = secret.protection === 'device' ? await this.getDeviceKey() : this.passphraseKey;
+      if (!key) return null;
+
+      return await this.decrypt(secret, key);
+    } catch (error) {
+      console.error('❌ [KeyVault] Error reading API key:', error);
+      return null;
+    }
+  }
+
+  async getStatus(): Promise<ApiKeyStatus> {
+    if (!this.isSupported()) return 'none';
+
+    const secret = await this.getSecret();
+    if (!secret) return 'none';
+    return secret.protection === 'passphrase' && !this.passphraseKey ? 'locked' : 'unlocked';
+  }
+
+  async getProtection(): Promise<ApiKeyProtection | null> {
+    if (!this.isSupported()) return null;
+    return (await this.getSecret())?.protection ?? null;
+  }
+
+  /**
+   * Encrypt and save the API key. It keeps its passphrase protection while the vault is unlocked;
+   * otherwise it is encrypted with the device key.
+   */
+  async saveApiKey(apiKey: string): Promise<void> {
+    if (!apiKey || typeof apiKey !== 'string') {
+      throw new Error('Invalid API key');
+    }
+    if (!this.isSupported()) {
+      throw new Error('This browser cannot store the API key securely. Open DeamV over https and try again.');
+    }
+
+    // Additional validation for Gemini API key format
+    if (!apiKey.startsWith('AIza')) {
+      console.warn('API key does not match expected Gemini format');
+    }
+
+    await this.runMigration();
+    await this.writeApiKey(apiKey.trim());
+  }
+
+  async removeApiKey(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.runMigration();
+    await practiceStore.delete(STORES.KEY_VAULT, VAULT_KEYS.API_KEY);
+    this.passphraseKey = null;
+  }
+
+  /**
+   * Re-encrypt the saved key with a passphrase, or with the device key again when `passphrase` is
+   * null. Fails if the key is locked.
+   */
+  async setPassphrase(passphrase: string | null): Promise<void> {
+    const apiKey = await this.getApiKey();
+    if (!apiKey) {
+      throw new Error('Unlock the API key before changing its passphrase.');
+    }
+
+    if (passphrase === null) {
+      this.passphraseKey = null;
+      await this.writeApiKey(apiKey);
+      return;
+    }
+
+    if (passphrase.length < 8) {
+      throw new Error('Use a passphrase of at least 8 characters.');
+    }
+
+    const salt = globalThis.crypto.getRandomValues(new Uint8Array(16));
+    this.passphraseKey = await this.derivePassphraseKey(passphrase, salt);
+    await this.writeApiKey(apiKey, salt);
+  }
+
+  /**
+   * Unlock a passphrase-protected key for the rest of this visit. Resolves false for a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const secret = await this.getSecret();
+    if (!secret || secret.protection !== 'passphrase' || !secret.salt) return false;
+
+    const key = await this.derivePassphraseKey(passphrase, secret.salt);
+    try {
+      // AES-GCM authenticates the ciphertext, so the wrong key fails here instead of returning garbage
+      await this.decrypt(secret, key);
+    } catch {
+      return false;
+    }
+
+    this.passphraseKey = key;
+    return true;
+  }
+
+  lock(): void {
+    this.passphraseKey = null;
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private async getSecret(): Promise<EncryptedSecret | undefined> {
+    await this.runMigration();
+    return practiceStore.get<EncryptedSecret>(STORES.KEY_VAULT, VAULT_KEYS.API_KEY);
+  }
+
+  private async writeApiKey(apiKey: string, salt?: Uint8Array<ArrayBuffer>): Promise<void> {
+    const protection: ApiKeyProtection = this.passphraseKey ? 'passphrase' : 'device';
+    const key = this.passphraseKey ?? await this.getDeviceKey();
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await globalThis.crypto.subtle.encrypt({ name: ALGORITHM.name, iv }, key, new TextEncoder().encode(apiKey));
+
+    // A passphrase-protected key keeps the salt it was derived with
+    const existingSalt = protection === 'passphrase'
+      ? (await practiceStore.get<EncryptedSecret>(STORES.KEY_VAULT, VAULT_KEYS.API_KEY))?.salt
+      : undefined;
+    const secret: EncryptedSecret = {
+      protection,
+      iv,
+      ciphertext,
+      ...(protection === 'passphrase' && { salt: salt ?? existingSalt }),
+    };
+    await practiceStore.put(STORES.KEY_VAULT, secret, VAULT_KEYS.API_KEY);
+  }
+
+  private async decrypt(secret: EncryptedSecret, key: CryptoKey): Promise<string> {
+    const plaintext = await globalThis.crypto.subtle.decrypt({ name: ALGORITHM.name, iv: secret.iv }, key, secret.ciphertext);
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * The device key, generated on first use. It is non-extractable: IndexedDB can hold it and
+   * WebCrypto can use it, but no script can export its bytes.
+   */
+  private async getDeviceKey(): Promise<CryptoKey> {
+    const stored = await practiceStore.get<CryptoKey>(STORES.KEY_VAULT, VAULT_KEYS.DEVICE_KEY);
+    if (stored) return stored;
+
+    // Generated before the transaction, which would commit while waiting for WebCrypto. Saved only if
+    // no other call got there first, so nothing is ever encrypted with a key that was not kept.
+    const generated = await globalThis.crypto.subtle.generateKey(ALGORITHM, false, ['encrypt', 'decrypt']);
+    let key = generated;
+    await practiceStore.transaction(STORES.KEY_VAULT, 'readwrite', (transaction) => {
+      const store = transaction.objectStore(STORES.KEY_VAULT);
+      const request = store.get(VAULT_KEYS.DEVICE_KEY);
+      request.onsuccess = () => {
+        if (request.result) {
+          key = request.result as CryptoKey;
+        } else {
+          store.put(generated, VAULT_KEYS.DEVICE_KEY);
+        }
+      };
+    });
+    return key;
+  }
+
+  private async derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const material = await globalThis.crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return globalThis.crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      ALGORITHM,
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private runMigration(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateLegacyKey().catch((error) => {
+        // The plain-text key is still in place, so the migration is tried again on the next read
+        console.error('❌ [KeyVault] Error migrating API key:', error);
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  /**
+   * Encrypt a key saved in plain text by an earlier version, then delete both plain-text copies.
+   */
+  private async migrateLegacyKey(): Promise<void> {
+    const legacyKey = await localforage.getItem<string>(LEGACY_KEYS.API_KEY);
+    const settings = await localforage.getItem<Record<string, unknown>>(LEGACY_KEYS.SETTINGS);
+    const settingsKey = typeof settings?.apiKey === 'string' ? settings.apiKey : null;
+    const plaintext = legacyKey || settingsKey;
+    if (!plaintext) return;
+
+    const existing = await practiceStore.get<EncryptedSecret>(STORES.KEY_VAULT, VAULT_KEYS.API_KEY);
+    if (!existing) {
+      await this.writeApiKey(plaintext.trim());
+    }
+
+    await localforage.removeItem(LEGACY_KEYS.API_KEY);
+    if (settings && 'apiKey' in settings) {
+      const { apiKey: _apiKey, ...rest } = settings;
+      await localforage.setItem(LEGACY_KEYS.SETTINGS, rest);
+    }
+
+    console.log('🔐 [KeyVault] Moved the plain-text API key into the vault');
+  }
+}
+
+// Create singleton instance
+export const keyVault = new KeyVault();
+
+export const getApiKey = keyVault.getApiKey.bind(keyVault);
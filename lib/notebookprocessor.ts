@@ -3,15 +3,11 @@ import { google } from 'googleapis';
 import { JWT } from 'google-auth-library'; 
 import axios from 'axios';
 import { Stream } from 'stream'; 
+import type { NotebookUpload } from '@/types/notebook';
 
-export interface NotebookUploadData {
-    firstName: string;
-    lastName: string;
-    className: string;
-    notebookUrl: string;
-    registrationCode: string; 
+export type NotebookUploadData = NotebookUpload & {
     isMentor?: boolean; 
-}
+};
 
 export interface UploadResult {
     success: boolean;
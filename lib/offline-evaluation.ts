@@ -0,0 +1,218 @@
+// lib/offline-evaluation.ts
+// Grades practice answers on the device when the AI evaluator cannot be reached, and queues
+// them so the evaluator can re-grade them once it is available again.
+
+import { normalizeCode, tokenSimilarity } from '@/lib/answer-similarity';
+import { practiceDatabase } from '@/lib/database';
+import type { EvaluationResponse } from '@/lib/evaluation-provider';
+import type { EvaluationVerdict } from '@/lib/evaluation-schema';
+import { getApiKey } from '@/lib/key-vault';
+import { pythonRunner } from '@/lib/python-runner';
+import { gradeFromTests } from '@/lib/test-cases';
+import type { ChallengeLanguage, ExecutionResult } from '@/types/challenge';
+import type { PendingRegrade } from '@/types/practice';
+
+// --- INTERFACES ---
+export interface OfflineEvaluationInput {
+  challengeId: string;
+  category: string;
+  instruction: string;
+  userCode: string;
+  expectedSolution: string;
+  language?: ChallengeLanguage;
+  executionResult: ExecutionResult | null;
+}
+
+export interface OfflineEvaluation {
+  success: true;
+  feedback: string;
+  isCorrect: boolean;
+  score: number;
+  verdict: EvaluationVerdict;
+  provisional: true;
+}
+
+// --- CONFIGURATION ---
+const EVALUATION_API_ENDPOINT = '/api/evaluate-answer';
+// Combined token and structure similarity needed for a provisional pass without matching output
+const CORRECT_SIMILARITY = 0.85;
+const PARTIAL_SIMILARITY = 0.5;
+// Code that raises cannot score above this, however close it looks to the solution
+const ERROR_SCORE_CAP = 40;
+const MAX_REGRADE_ATTEMPTS = 5;
+
+class OfflineEvaluator {
+  private isRegrading = false;
+
+  /**
+   * Grade an answer without the AI: test cases when the challenge has them (for SQL, the comparison
+   * with the reference query's rows), otherwise the output of the expected solution and the token
+   * and AST similarity to it. Output and AST checks only apply to Python.
+   */
+  async evaluate(input: OfflineEvaluationInput): Promise<OfflineEvaluation> {
+    const testGrade = gradeFromTests(input.executionResult);
+    if (testGrade) {
+      const { passedTests = 0, totalTests } = input.executionResult ?? {};
+      return this.result(testGrade.verdict, testGrade.score, `Your code passed ${passedTests} of ${totalTests} tests.`);
+    }
+
+    const isPython = (input.language ?? 'python') === 'python';
+    // Runtime load failures carry no execution time; only errors raised by the code itself count against it
+    const ranCode = input.executionResult?.executionTime !== undefined;
+    const raised = ranCode && !!input.executionResult?.error;
+
+    let outputsMatch = false;
+    if (isPython && ranCode && !raised && input.executionResult?.output?.trim()) {
+      const solutionRun = await pythonRunner.run(input.expectedSolution);
+      outputsMatch = !solutionRun.error
+        && this.normalizeOutput(solutionRun.output ?? '') === this.normalizeOutput(input.executionResult.output);
+    }
+
+    const tokens = tokenSimilarity(normalizeCode(input.userCode), normalizeCode(input.expectedSolution));
+    const structure = isPython ? await pythonRunner.compareStructure(input.userCode, input.expectedSolution) : null;
+    const similarity = structure === null ? tokens : (tokens + structure) / 2;
+
+    let score = outputsMatch ? 100 : Math.round(similarity * 100);
+    if (raised) score = Math.min(score, ERROR_SCORE_CAP);
+
+    if (outputsMatch) {
+      return this.result('CORRECT', score, 'Your code ran and printed the same output as the expected solution.');
+    }
+    if (raised) {
+      return this.result(
+        similarity >= PARTIAL_SIMILARITY ? 'PARTIAL' : 'INCORRECT',
+        score,
+        'Your code raised an error when it ran, so it cannot be fully correct yet. Check the output panel for the message.',
+      );
+    }
+    if (similarity >= CORRECT_SIMILARITY) {
+      return this.result('CORRECT', score, 'Your code closely matches the approach of the expected solution.');
+    }
+    if (similarity >= PARTIAL_SIMILARITY) {
+      return this.result('PARTIAL', score, 'Your code shares much of its approach with the expected solution, but parts of it differ.');
+    }
+    return this.result('INCORRECT', score, 'Your code differs substantially from the expected solution. Review the instruction and try again.');
+  }
+
+  /**
+   * Keep an offline-graded answer so the AI can re-grade it later.
+   */
+  async queueRegrade(input: OfflineEvaluationInput, evaluation: OfflineEvaluation): Promise<void> {
+    try {
+      await practiceDatabase.addPendingRegrade({
+        challengeId: input.challengeId,
+        category: input.category,
+        instruction: input.instruction,
+        userCode: input.userCode,
+        expectedSolution: input.expectedSolution,
+        ...(input.language && { language: input.language }),
+        executionResult: input.executionResult ?? undefined,
+        provisionalVerdict: evaluation.verdict,
+        provisionalScore: evaluation.score,
+      });
+      console.log('🔍 [OfflineEvaluator] Queued answer for re-grading:', input.challengeId);
+    } catch (error) {
+      console.error('❌ [OfflineEvaluator] Failed to queue answer for re-grading:', error);
+    }
+  }
+
+  /**
+   * Send queued answers to the evaluator, oldest first, and return the ones re-graded in this pass.
+   * Stops at the first failure, since the rest would most likely fail the same way.
+   */
+  async regradePending(): Promise<PendingRegrade[]> {
+    if (this.isRegrading || (typeof navigator !== 'undefined' && !navigator.onLine)) return [];
+
+    this.isRegrading = true;
+    const regraded: PendingRegrade[] = [];
+
+    try {
+      const pending = (await practiceDatabase.getPendingRegrades())
+        .filter(regrade => regrade.status === 'PENDING' && regrade.attempts < MAX_REGRADE_ATTEMPTS);
+      if (pending.length === 0) return regraded;
+
+      const apiKey = await getApiKey();
+
+      for (const regrade of pending) {
+        try {
+          const response = await fetch(EVALUATION_API_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              instruction: regrade.instruction,
+              userCode: regrade.userCode,
+              expectedSolution: regrade.expectedSolution,
+              category: regrade.category,
+              language: regrade.language ?? 'python',
+              executionResult: regrade.executionResult,
+              ...(apiKey && { apiKey }),
+            }),
+          });
+          if (response.status === 429) {
+            // The server's budget, not the answer: leave the attempt count alone and try on the next pass
+            console.warn(`⚠️ [OfflineEvaluator] Re-grading paused, retry after ${response.headers.get('Retry-After') ?? '?'}s`);
+            break;
+          }
+          if (!response.ok) {
+            throw new Error(`Evaluator responded with status ${response.status}`);
+          }
+
+          const result: EvaluationResponse = await response.json();
+          if (!result.success) {
+            throw new Error(result.feedback);
+          }
+
+          // Test cases still decide correctness, exactly as for a live submission
+          const testGrade = gradeFromTests(regrade.executionResult);
+          const updated: PendingRegrade = {
+            ...regrade,
+            attempts: regrade.attempts + 1,
+            lastAttempt: new Date(),
+            status: 'REGRADED',
+            result: {
+              isCorrect: testGrade?.isCorrect ?? result.isCorrect,
+              score: testGrade?.score ?? result.score,
+              feedback: result.feedback,
+            },
+          };
+          await practiceDatabase.updatePendingRegrade(updated);
+          regraded.push(updated);
+        } catch (error) {
+          console.warn(`⚠️ [OfflineEvaluator] Re-grading ${regrade.id} failed:`, error);
+          await practiceDatabase.updatePendingRegrade({
+            ...regrade,
+            attempts: regrade.attempts + 1,
+            lastAttempt: new Date(),
+          });
+          break;
+        }
+      }
+
+      if (regraded.length > 0) {
+        console.log(`✅ [OfflineEvaluator] Re-graded ${regraded.length} offline answer(s)`);
+      }
+      return regraded;
+    } finally {
+      this.isRegrading = false;
+    }
+  }
+
+  private result(verdict: EvaluationVerdict, score: number, summary: string): OfflineEvaluation {
+    return {
+      success: true,
+      feedback: `**PROVISIONAL RESULT:** The AI evaluator is not available, so your answer was checked on this device. ${summary}\n\nIt will be re-graded automatically once the evaluator can be reached again.`,
+      isCorrect: verdict === 'CORRECT',
+      score,
+      verdict,
+      provisional: true,
+    };
+  }
+
+  // Same comparison the test runner uses: trailing whitespace and line endings do not matter
+  private normalizeOutput(text: string): string {
+    return text.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+  }
+}
+
+// Create singleton instance
+export const offlineEvaluator = new OfflineEvaluator();
@@ -1,13 +1,13 @@
 // lib/practice-file-processor.ts
+
+import { HINT_SEPARATOR, parseListColumn, TAG_SEPARATOR } from '@/lib/challenge-columns';
+import { parseChallengeLanguage } from '@/lib/challenge-language';
 import { practiceDatabase } from '@/lib/database';
+import { parseTestCases } from '@/lib/test-cases';
+import type { PracticeQuestion } from '@/types/practice';
 
 // Types
-export interface PracticeQuestion {
-    Question: string;
-    Answer: string;
-    Category: string;
-    Type: 'Practical' | 'Theoretical';
-}
+export type { PracticeQuestion } from '@/types/practice';
 
 export interface FileProcessingResult {
     success: boolean;
@@ -322,12 +322,34 @@ class PracticeFileProcessor {
             const typeIndex = headers.findIndex(h => 
                 h.includes('type')
             );
+            // Optional JSON array of { input, expectedOutput, description } objects
+            const testsIndex = headers.findIndex(h => 
+                h.includes('test')
+            );
+            // Optional: python (default), r or sql
+            const languageIndex = headers.findIndex(h => 
+                h.includes('language')
+            );
+            const seedIndex = headers.findIndex(h => 
+                h.includes('seed') || h.includes('schema')
+            );
+            const tagsIndex = headers.findIndex(h => 
+                h.includes('tag')
+            );
+            const hintsIndex = headers.findIndex(h => 
+                h.includes('hint')
+            );
 
             console.log('🔍 [PracticeFileProcessor] Detected column indices:', {
                 instructionIndex,
                 solutionIndex,
                 categoryIndex,
-                typeIndex
+                typeIndex,
+                testsIndex,
+                languageIndex,
+                seedIndex,
+                tagsIndex,
+                hintsIndex
             });
 
             // Validate required columns
@@ -353,18 +375,40 @@ class PracticeFileProcessor {
                 const solution = columns[solutionIndex]?.trim() || '';
                 const category = (categoryIndex !== -1 ? columns[categoryIndex]?.trim() : 'General') || 'General';
                 const type = (typeIndex !== -1 ? columns[typeIndex]?.trim() : '') || '';
+                const tests = parseTestCases(testsIndex !== -1 ? columns[testsIndex] : undefined);
+                const language = parseChallengeLanguage(languageIndex !== -1 ? columns[languageIndex] : undefined);
+                const seed = (seedIndex !== -1 ? columns[seedIndex]?.trim() : '') || '';
+                const tags = parseListColumn(tagsIndex !== -1 ? columns[tagsIndex] : undefined, TAG_SEPARATOR);
+                const hints = parseListColumn(hintsIndex !== -1 ? columns[hintsIndex] : undefined, HINT_SEPARATOR);
 
                 // Skip empty rows
                 if (!instruction && !solution) {
                     continue;
                 }
 
+                // A broken test cell would silently turn the question into an AI-graded one
+                if (tests.error) {
+                    console.warn(`⚠️ [PracticeFileProcessor] Skipping question at row ${i + 1}: ${tests.error}`);
+                    continue;
+                }
+
+                // An unknown language would run the answer in the wrong interpreter
+                if (!language) {
+                    console.warn(`⚠️ [PracticeFileProcessor] Skipping question at row ${i + 1}: unknown language "${columns[languageIndex]}"`);
+                    continue;
+                }
+
                 try {
                     const question: PracticeQuestion = {
                         Question: this.cleanText(instruction),
                         Answer: this.cleanText(solution),
                         Category: category,
-                        Type: this.normalizeQuestionType(type)
+                        Type: this.normalizeQuestionType(type),
+                        ...(tests.testCases.length > 0 && { TestCases: tests.testCases }),
+                        ...(language !== 'python' && { Language: language }),
+                        ...(language === 'sql' && seed && { Seed: seed }),
+                        ...(tags.length > 0 && { Tags: tags }),
+                        ...(hints.length > 0 && { Hints: hints })
                     };
 
                     // Enhanced validation
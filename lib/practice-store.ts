@@ -0,0 +1,290 @@
+// lib/practice-store.ts
+// IndexedDB object stores behind PracticeDatabase. Each record is stored on its own, so saving one
+// challenge or session no longer rewrites every other one.
+import localforage from 'localforage';
+import storageService from '@/lib/storage';
+import type { DataScienceChallenge, PracticeSession } from '@/types/challenge';
+import type { PendingRegrade, PendingUpload } from '@/types/practice';
+
+// --- INTERFACES ---
+// Challenges carry a lower-case copy of the category, so lookups by category ignore case like they always have
+export type StoredChallenge = DataScienceChallenge & { categoryKey: string };
+
+interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the IndexedDB version change, so it may only create or change stores and indexes
+  upgrade?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // Runs once the database is open; the version is recorded in storage only after it resolves
+  migrate?: (db: IDBDatabase) => Promise<void>;
+}
+
+// Returns the request whose result the transaction resolves with, or nothing when it only writes
+type TransactionOperation<T> =
+  | ((transaction: IDBTransaction) => IDBRequest<T>)
+  | ((transaction: IDBTransaction) => void);
+
+// --- CONFIGURATION ---
+const DB_NAME = 'DeamV_practice';
+
+export const STORES = {
+  CHALLENGES: 'challenges',
+  SESSIONS: 'practice_sessions',
+  // Keyed by category, since a category has at most one session in progress
+  ACTIVE_SESSIONS: 'active_practice_sessions',
+  PENDING_UPLOADS: 'pending_uploads',
+  PENDING_REGRADES: 'pending_regrades',
+  // Encryption key and encrypted secrets of lib/key-vault.ts, which only that module reads or writes
+  KEY_VAULT: 'key_vault',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Single-key blobs written by PracticeDatabase before the object stores existed
+const LEGACY_KEYS = {
+  CHALLENGES: 'data_science_challenges',
+  SESSIONS: 'practice_sessions',
+  ACTIVE_SESSIONS: 'active_practice_sessions',
+  PENDING_UPLOADS: 'pending_practice_uploads',
+  PENDING_REGRADES: 'pending_practice_regrades',
+  CATEGORIES: 'available_categories',
+} as const;
+
+export const toStoredChallenge = (challenge: DataScienceChallenge): StoredChallenge => ({
+  ...challenge,
+  categoryKey: challenge.category.toLowerCase(),
+});
+
+export const fromStoredChallenge = ({ categoryKey: _categoryKey, ...challenge }: StoredChallenge): DataScienceChallenge => challenge;
+
+/**
+ * Run `operation` in one transaction and resolve with the result of the request it returns, once the
+ * transaction has committed.
+ */
+const runTransaction = <T = void>(
+  db: IDBDatabase,
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  operation: TransactionOperation<T>
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    // Operations that only queue writes return nothing
+    const request = operation(transaction) as IDBRequest<T> | undefined;
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+// --- MIGRATIONS ---
+// Append new entries; never edit one that has shipped. Version 1 is the original single-key layout.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Move challenges, sessions, uploads and regrades from single localforage keys into object stores',
+    upgrade: (db) => {
+      const challenges = db.createObjectStore(STORES.CHALLENGES, { keyPath: 'id' });
+      challenges.createIndex('category', 'category');
+      challenges.createIndex('categoryKey', 'categoryKey');
+      challenges.createIndex('difficulty', 'difficulty');
+
+      db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+      db.createObjectStore(STORES.ACTIVE_SESSIONS);
+      db.createObjectStore(STORES.PENDING_UPLOADS, { keyPath: 'id' });
+      db.createObjectStore(STORES.PENDING_REGRADES, { keyPath: 'id' });
+    },
+    migrate: async (db) => {
+      const challenges = await localforage.getItem<DataScienceChallenge[]>(LEGACY_KEYS.CHALLENGES) ?? [];
+      const sessions = await localforage.getItem<PracticeSession[]>(LEGACY_KEYS.SESSIONS) ?? [];
+      const activeSessions = await localforage.getItem<{ [category: string]: PracticeSession }>(LEGACY_KEYS.ACTIVE_SESSIONS) ?? {};
+      const uploads = await localforage.getItem<PendingUpload[]>(LEGACY_KEYS.PENDING_UPLOADS) ?? [];
+      const regrades = await localforage.getItem<PendingRegrade[]>(LEGACY_KEYS.PENDING_REGRADES) ?? [];
+
+      // One transaction, so an interrupted migration leaves nothing half-copied and simply runs again
+      await runTransaction(db, Object.values(STORES), 'readwrite', (transaction) => {
+        for (const challenge of challenges) {
+          transaction.objectStore(STORES.CHALLENGES).put(toStoredChallenge(challenge));
+        }
+        for (const session of sessions) {
+          transaction.objectStore(STORES.SESSIONS).put(session);
+        }
+        for (const [category, session] of Object.entries(activeSessions)) {
+          transaction.objectStore(STORES.ACTIVE_SESSIONS).put(session, category);
+        }
+        for (const upload of uploads) {
+          transaction.objectStore(STORES.PENDING_UPLOADS).put(upload);
+        }
+        for (const regrade of regrades) {
+          transaction.objectStore(STORES.PENDING_REGRADES).put(regrade);
+        }
+      });
+
+      for (const key of Object.values(LEGACY_KEYS)) {
+        await localforage.removeItem(key);
+      }
+
+      console.log(`📦 [PracticeStore] Migrated ${challenges.length} challenges, ${sessions.length} sessions, ${uploads.length} pending uploads and ${regrades.length} pending regrades`);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add the key vault store for the encrypted API key',
+    // The plain-text key is moved in by lib/key-vault.ts the first time it is read
+    upgrade: (db) => {
+      db.createObjectStore(STORES.KEY_VAULT);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// --- PRACTICE STORE CLASS ---
+class PracticeStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * The open database, created or upgraded on first use, with any pending data migrations applied.
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run `operation` in one transaction on the open database.
+   */
+  async transaction<T = void>(
+    storeNames: StoreName | StoreName[],
+    mode: IDBTransactionMode,
+    operation: TransactionOperation<T>
+  ): Promise<T> {
+    return runTransaction(await this.open(), storeNames, mode, operation);
+  }
+
+  get<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return this.transaction<T | undefined>(storeName, 'readonly', transaction => transaction.objectStore(storeName).get(key));
+  }
+
+  getAll<T>(storeName: StoreName): Promise<T[]> {
+    return this.transaction<T[]>(storeName, 'readonly', transaction => transaction.objectStore(storeName).getAll());
+  }
+
+  getAllByIndex<T>(storeName: StoreName, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    return this.transaction<T[]>(storeName, 'readonly', transaction => transaction.objectStore(storeName).index(indexName).getAll(query));
+  }
+
+  /**
+   * Every key with its record, for stores whose keys are not part of the record.
+   */
+  async entries<T>(storeName: StoreName): Promise<[IDBValidKey, T][]> {
+    let keys: IDBValidKey[] = [];
+    const values = await this.transaction<T[]>(storeName, 'readonly', (transaction) => {
+      const objectStore = transaction.objectStore(storeName);
+      const keysRequest = objectStore.getAllKeys();
+      keysRequest.onsuccess = () => {
+        keys = keysRequest.result;
+      };
+      return objectStore.getAll();
+    });
+    return keys.map((key, index) => [key, values[index]]);
+  }
+
+  /**
+   * The distinct values of an index, in index order.
+   */
+  uniqueIndexKeys(storeName: StoreName, indexName: string): Promise<IDBValidKey[]> {
+    const keys: IDBValidKey[] = [];
+    return this.transaction(storeName, 'readonly', (transaction) => {
+      const cursorRequest = transaction.objectStore(storeName).index(indexName).openKeyCursor(null, 'nextunique');
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        keys.push(cursor.key);
+        cursor.continue();
+      };
+    }).then(() => keys);
+  }
+
+  count(storeName: StoreName): Promise<number> {
+    return this.transaction<number>(storeName, 'readonly', transaction => transaction.objectStore(storeName).count());
+  }
+
+  async put<T>(storeName: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+    await this.transaction(storeName, 'readwrite', transaction => transaction.objectStore(storeName).put(value, key));
+  }
+
+  async delete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+    await this.transaction(storeName, 'readwrite', transaction => transaction.objectStore(storeName).delete(key));
+  }
+
+  async clear(storeNames: StoreName | StoreName[]): Promise<void> {
+    await this.transaction(storeNames, 'readwrite', (transaction) => {
+      for (const storeName of Array.isArray(storeNames) ? storeNames : [storeNames]) {
+        transaction.objectStore(storeName).clear();
+      }
+    });
+  }
+
+  private async openDatabase(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction;
+        if (!transaction) return;
+        for (const migration of MIGRATIONS) {
+          if (migration.version > event.oldVersion) {
+            migration.upgrade?.(request.result, transaction);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('⚠️ [PracticeStore] Upgrade is waiting for other tabs to close the practice database');
+    });
+
+    // Another tab opened a newer schema; let it upgrade and pick the new one up on the next open
+    db.onversionchange = () => {
+      db.close();
+      this.dbPromise = null;
+    };
+
+    // Callers wait for the data migrations too, so nobody reads the stores before they are filled
+    await this.runMigrations(db);
+    return db;
+  }
+
+  private async runMigrations(db: IDBDatabase): Promise<void> {
+    const dataVersion = await storageService.getDataVersion();
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= dataVersion) continue;
+
+      try {
+        await migration.migrate?.(db);
+        await storageService.setDataVersion(migration.version);
+        console.log(`✅ [PracticeStore] Data migrated to version ${migration.version}: ${migration.description}`);
+      } catch (error) {
+        // The old data is still in place, so the migration is tried again on the next load
+        console.error(`❌ [PracticeStore] Migration to version ${migration.version} failed:`, error);
+        return;
+      }
+    }
+  }
+}
+
+// Create singleton instance
+export const practiceStore = new PracticeStore();
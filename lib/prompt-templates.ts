@@ -0,0 +1,89 @@
+// lib/prompt-templates.ts
+// Code evaluation prompts that instructors can tune per practice category or language.
+// Each template is a file named `<key>.v<version>.md`; the highest version of a key is used.
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { DEFAULT_PROMPT_TEMPLATE, type PromptTemplate, REQUIRED_PROMPT_PLACEHOLDERS } from '@/lib/evaluation-provider';
+
+// --- CONFIGURATION ---
+const TEMPLATES_CACHE_TTL_MS = 5 * 60 * 1000;
+const TEMPLATES_DIR = process.env.NEXT_PUBLIC_PROMPT_TEMPLATES_PATH || path.join(process.cwd(), 'data', 'prompt-templates');
+const TEMPLATE_FILE_PATTERN = /^([a-z0-9-]+)\.v(\d+)\.md$/;
+
+/**
+ * Template key for a category or language name: "Statistics Theory" becomes "statistics-theory".
+ */
+export const toTemplateKey = (name: string): string =>
+	name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// --- PROMPT TEMPLATE REGISTRY CLASS ---
+class PromptTemplateRegistry {
+	private cache: { templates: Map<string, PromptTemplate>; loadedAt: number } | null = null;
+
+	/**
+	 * The newest template for the category, else for the language, else the `default` file,
+	 * else the built-in prompt.
+	 */
+	async resolve(category?: string, language?: string): Promise<PromptTemplate> {
+		const templates = await this.getTemplates();
+
+		for (const name of [category, language, 'default']) {
+			const template = name ? templates.get(toTemplateKey(name)) : undefined;
+			if (template) return template;
+		}
+		return DEFAULT_PROMPT_TEMPLATE;
+	}
+
+	private async getTemplates(): Promise<Map<string, PromptTemplate>> {
+		if (this.cache && Date.now() - this.cache.loadedAt < TEMPLATES_CACHE_TTL_MS) {
+			return this.cache.templates;
+		}
+
+		const templates = await this.loadFromDirectory();
+		this.cache = { templates, loadedAt: Date.now() };
+		return templates;
+	}
+
+	private async loadFromDirectory(): Promise<Map<string, PromptTemplate>> {
+		const templates = new Map<string, PromptTemplate>();
+
+		let fileNames: string[];
+		try {
+			fileNames = await fs.readdir(TEMPLATES_DIR);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`❌ [PromptTemplates] Failed to read ${TEMPLATES_DIR}:`, error);
+			}
+			return templates;
+		}
+
+		for (const fileName of fileNames) {
+			const match = TEMPLATE_FILE_PATTERN.exec(fileName);
+			if (!match) continue;
+
+			const [, key, versionText] = match;
+			const version = parseInt(versionText, 10);
+			const current = templates.get(key);
+			if (current && typeof current.version === 'number' && current.version > version) continue;
+
+			try {
+				const body = await fs.readFile(path.join(TEMPLATES_DIR, fileName), 'utf8');
+				const missing = REQUIRED_PROMPT_PLACEHOLDERS.filter(name => !body.includes(`{{${name}}}`));
+				if (missing.length > 0) {
+					console.error(`❌ [PromptTemplates] ${fileName} is missing ${missing.map(name => `{{${name}}}`).join(', ')}; skipping it`);
+					continue;
+				}
+
+				templates.set(key, { id: `${key}@v${version}`, key, version, body });
+			} catch (error) {
+				console.error(`❌ [PromptTemplates] Failed to read ${fileName}:`, error);
+			}
+		}
+
+		console.log(`📝 [PromptTemplates] Loaded ${templates.size} prompt templates`);
+		return templates;
+	}
+}
+
+// Create singleton instance
+export const promptTemplates = new PromptTemplateRegistry();
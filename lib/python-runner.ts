@@ -0,0 +1,193 @@
+// lib/python-runner.ts
+// Browser-side client for the Pyodide worker in public/workers/python-worker.js.
+import type { ExecutionResult, TestCase } from '@/types/challenge';
+
+// --- INTERFACES ---
+interface PendingRun {
+  resolve: (result: ExecutionResult | number | null) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+type WorkerRequest =
+  | { type: 'preload' }
+  | { type: 'prepare' | 'run'; code: string }
+  | { type: 'test'; code: string; testCases: TestCase[] }
+  | { type: 'compare'; code: string; solution: string };
+
+type WorkerMessage =
+  | { id: number; type: 'ready' }
+  | { id: number; type: 'result'; result: ExecutionResult }
+  | { id: number; type: 'similarity'; similarity: number | null }
+  | { id: number; type: 'error'; message: string };
+
+// --- CONFIGURATION ---
+const WORKER_URL = '/workers/python-worker.js';
+// Generous enough for pandas on a slow lab machine, short enough to stop infinite loops
+export const DEFAULT_EXECUTION_TIMEOUT_MS = 10000;
+// The first run also downloads and starts the runtime, which is not the student's fault
+const RUNTIME_LOAD_TIMEOUT_MS = 60000;
+
+class PythonRunner {
+  private worker: Worker | null = null;
+  private runtimeReady: Promise<void> | null = null;
+  private pending = new Map<number, PendingRun>();
+  private nextId = 1;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Start the worker and load Pyodide ahead of the first run.
+   */
+  preload(): Promise<void> {
+    if (!this.runtimeReady) {
+      this.runtimeReady = this.send<void>({ type: 'preload' }, RUNTIME_LOAD_TIMEOUT_MS).catch(error => {
+        this.runtimeReady = null;
+        throw error;
+      });
+    }
+    return this.runtimeReady;
+  }
+
+  /**
+   * Run code in a fresh namespace. Code that exceeds the timeout is stopped by terminating
+   * the worker; the runtime is reloaded on the next run.
+   */
+  run(code: string, timeoutMs = DEFAULT_EXECUTION_TIMEOUT_MS): Promise<ExecutionResult> {
+    return this.execute({ type: 'run', code }, code, timeoutMs);
+  }
+
+  /**
+   * Run code followed by each test case in the same namespace. The result carries
+   * `passedTests`, `totalTests` and the per-test outcomes; the timeout covers the whole run.
+   */
+  async runTests(code: string, testCases: TestCase[], timeoutMs = DEFAULT_EXECUTION_TIMEOUT_MS): Promise<ExecutionResult> {
+    const allCode = [code, ...testCases.map(testCase => testCase.input)].join('\n');
+    const result = await this.execute({ type: 'test', code, testCases }, allCode, timeoutMs);
+
+    // A submission that runs out of time fails every test; a runtime that never loaded grades nothing
+    return result.timedOut ? { ...result, passedTests: 0, totalTests: testCases.length } : result;
+  }
+
+  /**
+   * Structural similarity (0 to 1) of two programs from their Python ASTs, ignoring names and
+   * literals. Null when either does not parse or the runtime is unavailable.
+   */
+  async compareStructure(code: string, solution: string): Promise<number | null> {
+    if (!this.isSupported()) return null;
+
+    try {
+      await this.preload();
+      return await this.send<number | null>({ type: 'compare', code, solution }, DEFAULT_EXECUTION_TIMEOUT_MS);
+    } catch (error) {
+      console.warn('⚠️ [PythonRunner] Structure comparison failed:', error);
+      return null;
+    }
+  }
+
+  private async execute(message: WorkerRequest, importedCode: string, timeoutMs: number): Promise<ExecutionResult> {
+    if (!this.isSupported()) {
+      return { error: 'Python execution is not supported in this browser.' };
+    }
+
+    try {
+      await this.preload();
+      // Package downloads get the runtime budget so only the student's own code is timed
+      await this.send<void>({ type: 'prepare', code: importedCode }, RUNTIME_LOAD_TIMEOUT_MS);
+    } catch (error) {
+      return { error: `Python runtime failed to load: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    try {
+      return await this.send<ExecutionResult>(message, timeoutMs);
+    } catch (error) {
+      if (error instanceof ExecutionTimeoutError) {
+        return {
+          error: `Execution timed out after ${Math.round(timeoutMs / 1000)} seconds. Check for infinite loops or very slow operations.`,
+          executionTime: timeoutMs,
+          timedOut: true,
+        };
+      }
+      return { error: error instanceof Error ? error.message : 'Execution failed' };
+    }
+  }
+
+  private send<T>(message: WorkerRequest, timeoutMs: number): Promise<T> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        // A busy Pyodide cannot be interrupted without cross-origin isolation, so drop the worker
+        this.terminate();
+        reject(new ExecutionTimeoutError());
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        resolve: resolve as (result: ExecutionResult | number | null) => void,
+        reject,
+        timer,
+      });
+      worker.postMessage({ id, ...message });
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(WORKER_URL);
+      this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('❌ [PythonRunner] Worker error:', event.message);
+        this.failAll(new Error(event.message || 'Python worker crashed'));
+        this.terminate();
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    if (pending.timer) clearTimeout(pending.timer);
+
+    if (message.type === 'error') {
+      pending.reject(new Error(message.message));
+    } else if (message.type === 'result') {
+      pending.resolve(message.result);
+    } else if (message.type === 'similarity') {
+      pending.resolve(message.similarity);
+    } else {
+      pending.resolve({});
+    }
+  }
+
+  private failAll(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.runtimeReady = null;
+    this.failAll(new Error('Python worker was restarted'));
+  }
+}
+
+class ExecutionTimeoutError extends Error {
+  constructor() {
+    super('Execution timed out');
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+// Create singleton instance
+export const pythonRunner = new PythonRunner();
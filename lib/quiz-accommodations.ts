@@ -0,0 +1,113 @@
+// lib/quiz-accommodations.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { type QuizConfig, quizCatalog } from '@/lib/quiz-catalog';
+import { type QuizAccommodation, QuizAccommodationSchema, QuizAccommodationsFileSchema } from '@/types/quiz';
+
+// --- INTERFACES ---
+export type { QuizAccommodation } from '@/types/quiz';
+
+// Time limits after applying a student's accommodation, in milliseconds
+export interface AdjustedTimeLimit {
+	baseTimeLimit: number;
+	timeLimit: number;
+	extraTime: number;
+	lateWindow: number;
+}
+
+// --- CONFIGURATION ---
+const ACCOMMODATIONS_CACHE_TTL_MS = 5 * 60 * 1000;
+const ACCOMMODATIONS_FILE_PATH = process.env.NEXT_PUBLIC_QUIZ_ACCOMMODATIONS_PATH || path.join(process.cwd(), 'data', 'quiz_accommodations.json');
+
+const NO_ACCOMMODATION: QuizAccommodation = { timeMultiplier: 1, extraMinutes: 0, lateWindowMinutes: 0 };
+
+// --- QUIZ ACCOMMODATIONS CLASS ---
+class QuizAccommodations {
+	private cache: { entries: Map<string, QuizAccommodation>; loadedAt: number } | null = null;
+
+	/**
+	 * Approved accommodation for a registration code. Students without one get the standard limit.
+	 */
+	async getAccommodation(registrationCode: string): Promise<QuizAccommodation> {
+		const entries = await this.getEntries();
+		return entries.get(registrationCode.trim().toLowerCase()) ?? NO_ACCOMMODATION;
+	}
+
+	/**
+	 * Time limit for a student starting `quiz` at `now`. A session started close to the closing time
+	 * only gets the time left in the window, but approved extra time is added on top of that.
+	 */
+	async getTimeLimit(registrationCode: string, quiz: QuizConfig, now: number = Date.now()): Promise<AdjustedTimeLimit> {
+		const timeUntilClose = quizCatalog.getTimeUntilClose(quiz, now);
+		const fullTimeLimit = quiz.timeLimitMinutes * 60 * 1000;
+		const baseTimeLimit = timeUntilClose === null ? fullTimeLimit : Math.min(fullTimeLimit, timeUntilClose);
+
+		return this.applyToTimeLimit(baseTimeLimit, await this.getAccommodation(registrationCode));
+	}
+
+	/**
+	 * Apply the multiplier first, then the flat extra minutes.
+	 */
+	applyToTimeLimit(baseTimeLimit: number, accommodation: QuizAccommodation): AdjustedTimeLimit {
+		const timeLimit = Math.round(baseTimeLimit * accommodation.timeMultiplier + accommodation.extraMinutes * 60 * 1000);
+
+		return {
+			baseTimeLimit,
+			timeLimit,
+			extraTime: timeLimit - baseTimeLimit,
+			lateWindow: accommodation.lateWindowMinutes * 60 * 1000,
+		};
+	}
+
+	private async getEntries(): Promise<Map<string, QuizAccommodation>> {
+		if (this.cache && Date.now() - this.cache.loadedAt < ACCOMMODATIONS_CACHE_TTL_MS) {
+			return this.cache.entries;
+		}
+
+		const entries = await this.loadFromFile();
+		this.cache = { entries, loadedAt: Date.now() };
+		return entries;
+	}
+
+	private async loadFromFile(): Promise<Map<string, QuizAccommodation>> {
+		try {
+			const content = await fs.readFile(ACCOMMODATIONS_FILE_PATH, 'utf8');
+			const entries = this.parseAccommodations(JSON.parse(content));
+			console.log(`♿ [QuizAccommodations] Loaded ${entries.size} accommodations`);
+			return entries;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`❌ [QuizAccommodations] Failed to read ${ACCOMMODATIONS_FILE_PATH}:`, error);
+			}
+			return new Map();
+		}
+	}
+
+	/**
+	 * Validate raw JSON shaped like `{ "<registrationCode>": { timeMultiplier?, extraMinutes?, lateWindowMinutes? } }`.
+	 */
+	private parseAccommodations(raw: unknown): Map<string, QuizAccommodation> {
+		const file = QuizAccommodationsFileSchema.safeParse(raw);
+		if (!file.success) {
+			throw new Error('Quiz accommodations must be an object keyed by registration code');
+		}
+
+		const entries = new Map<string, QuizAccommodation>();
+
+		for (const [code, value] of Object.entries(file.data)) {
+			const accommodation = QuizAccommodationSchema.safeParse(value ?? {});
+
+			if (!accommodation.success) {
+				console.warn(`⚠️ [QuizAccommodations] Skipping invalid accommodation for '${code}':`, value);
+				continue;
+			}
+
+			entries.set(code.trim().toLowerCase(), accommodation.data);
+		}
+
+		return entries;
+	}
+}
+
+// Create singleton instance
+export const quizAccommodations = new QuizAccommodations();
@@ -0,0 +1,97 @@
+// lib/quiz-auto-scorer.ts
+import type { QuizQuestionType } from '@/types/quiz';
+
+// --- INTERFACES ---
+export interface AutoScoredQuestion {
+	Type: QuizQuestionType;
+	Answer: string;
+	Options: string[];
+	Tolerance: number | null;
+}
+
+// Scores use the same 0-100 scale as AI evaluation
+const CORRECT_SCORE = 100;
+const INCORRECT_SCORE = 0;
+
+// Numeric answers match within this distance when the CSV sets no Tolerance
+const DEFAULT_NUMERIC_TOLERANCE = 1e-9;
+
+const AUTO_SCORED_TYPES: QuizQuestionType[] = ['MultipleChoice', 'MultiSelect', 'TrueFalse', 'Numeric'];
+
+export const isAutoScoredType = (type: QuizQuestionType | null | undefined): boolean =>
+	!!type && AUTO_SCORED_TYPES.includes(type);
+
+export const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+/**
+ * Map a choice given as a letter or as the option text to its letter. Returns null when it matches neither.
+ */
+const toOptionLetter = (choice: string, options: string[]): string | null => {
+	const trimmed = choice.trim();
+	if (/^[a-z]$/i.test(trimmed) && trimmed.toUpperCase().charCodeAt(0) - 65 < options.length) {
+		return trimmed.toUpperCase();
+	}
+
+	const index = options.findIndex(option => option.trim().toLowerCase() === trimmed.toLowerCase());
+	return index >= 0 ? optionLetter(index) : null;
+};
+
+const parseTrueFalse = (value: string): 'True' | 'False' | null => {
+	const normalized = value.trim().toLowerCase();
+	if (['true', 't', 'yes', 'y', '1'].includes(normalized)) return 'True';
+	if (['false', 'f', 'no', 'n', '0'].includes(normalized)) return 'False';
+	return null;
+};
+
+/**
+ * Bring an answer key from the CSV into the form the quiz UI submits: a letter for
+ * MultipleChoice, sorted comma-separated letters for MultiSelect, True/False, or a number.
+ * Returns null when the key cannot be interpreted for the question type.
+ */
+export const normalizeAnswerKey = (type: QuizQuestionType, answer: string, options: string[]): string | null => {
+	switch (type) {
+		case 'MultipleChoice':
+			return toOptionLetter(answer, options);
+		case 'MultiSelect': {
+			const letters = answer.split(/[;,|]/).filter(choice => choice.trim()).map(choice => toOptionLetter(choice, options));
+			if (letters.length === 0 || letters.some(letter => letter === null)) return null;
+			return [...new Set(letters as string[])].sort().join(',');
+		}
+		case 'TrueFalse':
+			return parseTrueFalse(answer);
+		case 'Numeric':
+			return Number.isFinite(Number.parseFloat(answer)) ? answer.trim() : null;
+		default:
+			return answer;
+	}
+};
+
+/**
+ * Exact scoring for objective question types. Returns null for types that need AI or manual grading.
+ */
+export const scoreAutoAnswer = (question: AutoScoredQuestion, answer: string): number | null => {
+	if (!isAutoScoredType(question.Type)) return null;
+
+	let isCorrect = false;
+
+	switch (question.Type) {
+		case 'MultipleChoice':
+			isCorrect = toOptionLetter(answer, question.Options) === question.Answer;
+			break;
+		case 'MultiSelect':
+			isCorrect = normalizeAnswerKey('MultiSelect', answer, question.Options) === question.Answer;
+			break;
+		case 'TrueFalse':
+			isCorrect = parseTrueFalse(answer) === question.Answer;
+			break;
+		case 'Numeric': {
+			const submitted = Number.parseFloat(answer);
+			const expected = Number.parseFloat(question.Answer);
+			isCorrect = Number.isFinite(submitted) &&
+				Math.abs(submitted - expected) <= (question.Tolerance ?? DEFAULT_NUMERIC_TOLERANCE);
+			break;
+		}
+	}
+
+	return isCorrect ? CORRECT_SCORE : INCORRECT_SCORE;
+};
@@ -0,0 +1,215 @@
+// lib/quiz-catalog.ts
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { isGoogleDriveConfigured, quizFileProcessor } from '@/lib/quiz-file-processor';
+
+// --- INTERFACES ---
+export interface QuizConfig {
+	id: string;
+	title: string;
+	csvFileName: string;
+	sheetTabName: string;
+	timeLimitMinutes: number;
+	opensAt: string | null;
+	closesAt: string | null;
+	// Set by mentors once grading is reviewed; students can then see their results
+	resultsReleased: boolean;
+	showModelAnswers: boolean;
+}
+
+export type QuizAvailability = 'upcoming' | 'open' | 'closed';
+
+// Catalog fields that are safe to show to students
+export type PublicQuizInfo = Pick<QuizConfig, 'id' | 'title' | 'timeLimitMinutes' | 'opensAt' | 'closesAt' | 'resultsReleased'> & {
+	status: QuizAvailability;
+};
+
+export type QuizCatalogSource = 'drive_manifest' | 'config_file' | 'legacy_env';
+
+// --- CONFIGURATION ---
+const CATALOG_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TIME_LIMIT_MINUTES = 60;
+const DRIVE_MANIFEST_NAME = process.env.NEXT_PUBLIC_QUIZ_CATALOG_FILE_NAME || 'quiz_catalog.json';
+const CONFIG_FILE_PATH = process.env.NEXT_PUBLIC_QUIZ_CATALOG_PATH || path.join(process.cwd(), 'data', 'quiz_catalog.json');
+
+/**
+ * Time limit used when a catalog entry does not set its own.
+ */
+export const getDefaultTimeLimitMinutes = (): number => {
+	const minutes = parseInt(process.env.NEXT_PUBLIC_QUIZ_TIME_LIMIT ?? '', 10);
+	return Number.isNaN(minutes) || minutes <= 0 ? DEFAULT_TIME_LIMIT_MINUTES : minutes;
+};
+
+export const toPublicQuizInfo = (quiz: QuizConfig, now: number = Date.now()): PublicQuizInfo => ({
+	id: quiz.id,
+	title: quiz.title,
+	timeLimitMinutes: quiz.timeLimitMinutes,
+	opensAt: quiz.opensAt,
+	closesAt: quiz.closesAt,
+	resultsReleased: quiz.resultsReleased,
+	status: quizCatalog.getStatus(quiz, now),
+});
+
+// --- QUIZ CATALOG CLASS ---
+class QuizCatalog {
+	private cache: { quizzes: QuizConfig[]; source: QuizCatalogSource; loadedAt: number } | null = null;
+
+	/**
+	 * Load the catalog from the Drive manifest, then the local config file, then the legacy env variable.
+	 */
+	async getQuizzes(): Promise<QuizConfig[]> {
+		if (this.cache && Date.now() - this.cache.loadedAt < CATALOG_CACHE_TTL_MS) {
+			return this.cache.quizzes;
+		}
+
+		const loaded = (await this.loadFromDrive()) ?? (await this.loadFromConfigFile()) ?? this.loadFromLegacyEnv();
+		this.cache = { ...loaded, loadedAt: Date.now() };
+
+		console.log(`📚 [QuizCatalog] Loaded ${loaded.quizzes.length} quizzes from ${loaded.source}`);
+		return loaded.quizzes;
+	}
+
+	async getQuiz(quizId: string): Promise<QuizConfig | null> {
+		const quizzes = await this.getQuizzes();
+		return quizzes.find(quiz => quiz.id === quizId) ?? null;
+	}
+
+	isOpen(quiz: QuizConfig, now: number = Date.now()): boolean {
+		return this.getStatus(quiz, now) === 'open';
+	}
+
+	/**
+	 * Where `now` falls relative to the quiz's availability window. Missing bounds are unbounded.
+	 */
+	getStatus(quiz: QuizConfig, now: number = Date.now()): QuizAvailability {
+		const opensAt = quiz.opensAt ? Date.parse(quiz.opensAt) : null;
+		const closesAt = quiz.closesAt ? Date.parse(quiz.closesAt) : null;
+
+		if (opensAt !== null && now < opensAt) return 'upcoming';
+		if (closesAt !== null && now >= closesAt) return 'closed';
+		return 'open';
+	}
+
+	/**
+	 * Milliseconds until the quiz closes, or null when it has no closing time.
+	 */
+	getTimeUntilClose(quiz: QuizConfig, now: number = Date.now()): number | null {
+		return quiz.closesAt ? Date.parse(quiz.closesAt) - now : null;
+	}
+
+	// --- SOURCES ---
+
+	private async loadFromDrive(): Promise<{ quizzes: QuizConfig[]; source: QuizCatalogSource } | null> {
+		if (!isGoogleDriveConfigured()) return null;
+
+		try {
+			const content = await quizFileProcessor.downloadDriveFile(DRIVE_MANIFEST_NAME);
+			if (!content) return null;
+
+			const quizzes = this.parseCatalog(JSON.parse(content));
+			return quizzes.length > 0 ? { quizzes, source: 'drive_manifest' } : null;
+		} catch (error) {
+			console.error(`❌ [QuizCatalog] Failed to load '${DRIVE_MANIFEST_NAME}' from Google Drive:`, error);
+			return null;
+		}
+	}
+
+	private async loadFromConfigFile(): Promise<{ quizzes: QuizConfig[]; source: QuizCatalogSource } | null> {
+		try {
+			const content = await fs.readFile(CONFIG_FILE_PATH, 'utf8');
+			const quizzes = this.parseCatalog(JSON.parse(content));
+			return quizzes.length > 0 ? { quizzes, source: 'config_file' } : null;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`❌ [QuizCatalog] Failed to read ${CONFIG_FILE_PATH}:`, error);
+			}
+			return null;
+		}
+	}
+
+	/**
+	 * Single-quiz catalog for deployments that still set NEXT_PUBLIC_QUIZ_NUMBER.
+	 */
+	private loadFromLegacyEnv(): { quizzes: QuizConfig[]; source: QuizCatalogSource } {
+		const quizNumber = parseInt(process.env.NEXT_PUBLIC_QUIZ_NUMBER ?? '', 10);
+
+		if (Number.isNaN(quizNumber) || quizNumber <= 0) {
+			console.warn('⚠️ [QuizCatalog] No quiz catalog found and NEXT_PUBLIC_QUIZ_NUMBER is not set. No quizzes are available.');
+			return { quizzes: [], source: 'legacy_env' };
+		}
+
+		return {
+			quizzes: [{
+				id: `quiz-${quizNumber}`,
+				title: `Quiz ${quizNumber}`,
+				csvFileName: `quiz_questions_${quizNumber}.csv`,
+				sheetTabName: `Quiz ${quizNumber}`,
+				timeLimitMinutes: getDefaultTimeLimitMinutes(),
+				opensAt: null,
+				closesAt: null,
+				resultsReleased: false,
+				showModelAnswers: false,
+			}],
+			source: 'legacy_env',
+		};
+	}
+
+	/**
+	 * Validate raw catalog JSON. Accepts either `{ quizzes: [...] }` or a bare array.
+	 */
+	private parseCatalog(raw: unknown): QuizConfig[] {
+		const entries = Array.isArray(raw) ? raw : (raw as { quizzes?: unknown })?.quizzes;
+		if (!Array.isArray(entries)) {
+			throw new Error('Quiz catalog must be an array or an object with a "quizzes" array');
+		}
+
+		const quizzes: QuizConfig[] = [];
+		const seenIds = new Set<string>();
+
+		for (const entry of entries) {
+			const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+			const csvFileName = typeof entry?.csvFileName === 'string' ? entry.csvFileName.trim() : '';
+
+			if (!id || !csvFileName) {
+				console.warn('⚠️ [QuizCatalog] Skipping catalog entry without id or csvFileName:', entry);
+				continue;
+			}
+			if (seenIds.has(id)) {
+				console.warn(`⚠️ [QuizCatalog] Skipping duplicate quiz id '${id}'`);
+				continue;
+			}
+
+			const title = typeof entry.title === 'string' && entry.title.trim() ? entry.title.trim() : id;
+			const timeLimit = Number(entry.timeLimitMinutes);
+
+			quizzes.push({
+				id,
+				title,
+				csvFileName,
+				sheetTabName: typeof entry.sheetTabName === 'string' && entry.sheetTabName.trim() ? entry.sheetTabName.trim() : title,
+				timeLimitMinutes: Number.isFinite(timeLimit) && timeLimit > 0 ? timeLimit : getDefaultTimeLimitMinutes(),
+				opensAt: this.parseTimestamp(entry.opensAt, id, 'opensAt'),
+				closesAt: this.parseTimestamp(entry.closesAt, id, 'closesAt'),
+				resultsReleased: entry.resultsReleased === true,
+				showModelAnswers: entry.showModelAnswers === true,
+			});
+			seenIds.add(id);
+		}
+
+		return quizzes;
+	}
+
+	private parseTimestamp(value: unknown, quizId: string, field: string): string | null {
+		if (value === undefined || value === null || value === '') return null;
+
+		const time = Date.parse(String(value));
+		if (Number.isNaN(time)) {
+			console.warn(`⚠️ [QuizCatalog] Ignoring invalid ${field} '${value}' for quiz '${quizId}'`);
+			return null;
+		}
+		return new Date(time).toISOString();
+	}
+}
+
+// Create singleton instance
+export const quizCatalog = new QuizCatalog();
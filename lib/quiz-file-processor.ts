@@ -1,29 +1,15 @@
 // lib/quiz-file-processor.ts
+import { createHash } from 'node:crypto';
 import { google } from 'googleapis';
 import { JWT } from 'google-auth-library';
 import Papa from 'papaparse';
 import { GoogleSpreadsheet } from 'google-spreadsheet';
+import type { QuizConfig } from '@/lib/quiz-catalog';
+import { normalizeAnswerKey, scoreAutoAnswer } from '@/lib/quiz-auto-scorer';
+import type { QuestionResult, QuizQuestion, QuizQuestionType, QuizResult, QuizSubmission, RedactedQuizQuestion } from '@/types/quiz';
 
 // --- INTERFACES ---
-export interface QuizQuestion {
-	Question: string;
-	Answer: string;
-	Category: string;
-	Type: 'Practical' | 'Theoretical';
-}
-
-export interface QuizSubmission {
-	registrationCode: string;
-	sessionId: string;
-	startTime: string;
-	endTime: string;
-	totalTime: number;
-	totalQuestions: number;
-	answeredCount: number;
-	answers: { [questionIndex: number]: string };
-	questions: QuizQuestion[];
-	quizNumber: 1 | 2 | 3 | 4;
-}
+export type { QuestionResult, QuizQuestion, QuizResult, QuizSubmission, RedactedQuizQuestion } from '@/types/quiz';
 
 export interface FileProcessingResult {
 	success: boolean;
@@ -39,10 +25,15 @@ export interface GoogleDriveConfig {
 	privateKey: string;
 }
 
-export interface QuizConfig {
-	quizNumber: 1 | 2 | 3 | 4;
-	csvFileName: string;
-	sheetTabName: string;
+export interface ResolvedQuizAnswer {
+	questionId: string;
+	question: string | null;
+	category: string | null;
+	type: QuizQuestion['Type'] | null;
+	answer: string;
+	modelAnswer: string | null;
+	// Exact score for objective question types; null when AI or manual grading is needed
+	autoScore: number | null;
 }
 
 // FIX 2: Update the return type interface to include the 'code' property for specific errors
@@ -51,8 +42,13 @@ export interface SubmissionResult {
     message: string;
     error?: string;
     code?: 'DUPLICATE_ENTRY' | 'SHEET_NOT_FOUND' | 'UNKNOWN_ERROR';
+    sheetTabName?: string;
+    resolvedAnswers?: ResolvedQuizAnswer[];
 }
 
+// Reuse a downloaded answer key for this long before fetching the CSV again
+const ANSWER_KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+
 // --- QUIZ FILE PROCESSOR CLASS ---
 class QuizFileProcessor {
 	private config: GoogleDriveConfig;
@@ -61,11 +57,10 @@ class QuizFileProcessor {
     // FIX 1: Add a definite assignment assertion (!) or initialize it in the constructor
     // Since initializeAuth() is called in the constructor, the assertion is appropriate here.
 	private auth!: JWT; // Store the JWT instance for reuse
-	private currentQuizNumber: 1 | 2 | 3 | 4;
+	private questionCache = new Map<string, { questions: QuizQuestion[]; loadedAt: number }>();
 
 	constructor(config: GoogleDriveConfig) {
 		this.config = config;
-		this.currentQuizNumber = this.getCurrentQuizNumberFromEnv();
 		this.initializeAuth(); // Initialize Auth first
 		this.initializeDrive();
 	}
@@ -83,47 +78,12 @@ class QuizFileProcessor {
 		});
 	}
 
-	private getCurrentQuizNumberFromEnv(): 1 | 2 | 3 | 4 {
-		const envQuizNumber = process.env.NEXT_PUBLIC_QUIZ_NUMBER;
-
-		if (!envQuizNumber) {
-			throw new Error('❌ [QuizFileProcessor] Required environment variable NEXT_PUBLIC_QUIZ_NUMBER is not set. Cannot determine quiz to load.');
-		}
-
-		const quizNumber = parseInt(envQuizNumber);
-
-		if (![1, 2, 3, 4].includes(quizNumber)) {
-			throw new Error(`❌ [QuizFileProcessor] Invalid QUIZ_NUMBER '${envQuizNumber}'. Must be 1, 2, 3, or 4.`);
-		}
-
-		return quizNumber as 1 | 2 | 3 | 4;
-	}
-
-	private getCurrentQuizConfig(): QuizConfig {
-		const quizNumber = this.currentQuizNumber;
-		return {
-			quizNumber,
-			csvFileName: `quiz_questions_${quizNumber}.csv`,
-			sheetTabName: `Quiz ${quizNumber}`
-		};
-	}
-
-	getAvailableQuizzes(): QuizConfig[] {
-		return [
-			{ quizNumber: 1, csvFileName: 'quiz_questions_1.csv', sheetTabName: 'Quiz 1' },
-			{ quizNumber: 2, csvFileName: 'quiz_questions_2.csv', sheetTabName: 'Quiz 2' },
-			{ quizNumber: 3, csvFileName: 'quiz_questions_3.csv', sheetTabName: 'Quiz 3' },
-			{ quizNumber: 4, csvFileName: 'quiz_questions_4.csv', sheetTabName: 'Quiz 4' }
-		];
-	}
-
 	private initializeDrive() {
 		// Reuse the stored JWT instance
 		this.drive = google.drive({ version: 'v3', auth: this.auth });
 	}
 
-	async downloadQuizQuestions(): Promise<FileProcessingResult> {
-		const quizConfig = this.getCurrentQuizConfig();
+	async downloadQuizQuestions(quizConfig: QuizConfig): Promise<FileProcessingResult> {
 		const startTime = Date.now();
 		const result: FileProcessingResult = {
 			success: false,
@@ -140,29 +100,13 @@ class QuizFileProcessor {
 				throw new Error('Google Drive configuration incomplete');
 			}
 
-			// Search for the CSV file in Google Drive
-			const searchResponse = await this.drive.files.list({
-				q: `name='${quizConfig.csvFileName}' and mimeType='text/csv' and trashed=false`,
-				fields: 'files(id, name)',
-			});
-
-			const files = searchResponse.data.files;
+			// Search for and download the CSV file from Google Drive
+			const csvContent = await this.downloadDriveFile(quizConfig.csvFileName, 'text/csv');
 
-			if (!files || files.length === 0) {
-				throw new Error(`CSV file '${quizConfig.csvFileName}' not found in Google Drive for Quiz ${quizConfig.quizNumber}. Please upload the file.`);
+			if (csvContent === null) {
+				throw new Error(`CSV file '${quizConfig.csvFileName}' not found in Google Drive for ${quizConfig.title}. Please upload the file.`);
 			}
 
-			const csvFile = files[0];
-
-			// Download the CSV file content
-			const fileResponse = await this.drive.files.get({
-				fileId: csvFile.id,
-				alt: 'media',
-			}, { responseType: 'stream' });
-
-			// Convert stream to string
-			const csvContent = await this.streamToString(fileResponse.data);
-
 			if (!csvContent) {
 				throw new Error('Failed to download CSV file content');
 			}
@@ -174,10 +118,12 @@ class QuizFileProcessor {
 				throw new Error(`No valid questions found in ${quizConfig.csvFileName}. Please check the file format.`);
 			}
 
+			this.questionCache.set(quizConfig.id, { questions, loadedAt: Date.now() });
+
 			result.questions = questions;
 			result.totalProcessed = questions.length;
 			result.success = true;
-			result.message = `Successfully loaded ${questions.length} quiz questions for Quiz ${quizConfig.quizNumber}`;
+			result.message = `Successfully loaded ${questions.length} quiz questions for ${quizConfig.title}`;
 			result.processingTime = Date.now() - startTime;
 
 		} catch (error) {
@@ -188,6 +134,65 @@ class QuizFileProcessor {
 		return result;
 	}
 
+	/**
+	 * Strip the answer key before questions are sent to the browser
+	 */
+	redactQuestions(questions: QuizQuestion[]): RedactedQuizQuestion[] {
+		return questions.map(({ Answer, Tolerance, Pool, Draw, ...question }) => question);
+	}
+
+	/**
+	 * Return the full question set (with answers) for server-side use, reusing a recent download
+	 */
+	async getAnswerKey(quizConfig: QuizConfig): Promise<QuizQuestion[]> {
+		const cached = this.questionCache.get(quizConfig.id);
+		if (cached && Date.now() - cached.loadedAt < ANSWER_KEY_CACHE_TTL_MS) {
+			return cached.questions;
+		}
+
+		const result = await this.downloadQuizQuestions(quizConfig);
+		if (!result.success) {
+			throw new Error(result.errors.join(', ') || 'Failed to load the quiz answer key');
+		}
+
+		return result.questions;
+	}
+
+	/**
+	 * Look up questions by id, preserving the order of `questionIds`. Unknown ids are dropped.
+	 */
+	async getQuestionsById(quizConfig: QuizConfig, questionIds: string[]): Promise<QuizQuestion[]> {
+		const questionsById = new Map((await this.getAnswerKey(quizConfig)).map(question => [question.id, question]));
+		return questionIds
+			.map(questionId => questionsById.get(questionId))
+			.filter((question): question is QuizQuestion => question !== undefined);
+	}
+
+	/**
+	 * Download a file from Google Drive by name. Returns null when no matching file exists.
+	 */
+	async downloadDriveFile(fileName: string, mimeType?: string): Promise<string | null> {
+		const mimeQuery = mimeType ? ` and mimeType='${mimeType}'` : '';
+		const searchResponse = await this.drive.files.list({
+			q: `name='${fileName.replace(/'/g, "\\'")}'${mimeQuery} and trashed=false`,
+			fields: 'files(id, name)',
+		});
+
+		const files = searchResponse.data.files;
+
+		if (!files || files.length === 0) {
+			return null;
+		}
+
+		const fileResponse = await this.drive.files.get({
+			fileId: files[0].id,
+			alt: 'media',
+		}, { responseType: 'stream' });
+
+		// Convert stream to string
+		return this.streamToString(fileResponse.data);
+	}
+
 	/**
 	 * Convert stream to string
 	 */
@@ -214,6 +219,13 @@ class QuizFileProcessor {
 				transformHeader: (header: string) => {
 					// Normalize header names
 					const normalized = header.trim().toLowerCase();
+					if (normalized === 'id' || normalized === 'question id' || normalized === 'question_id') return 'Id';
+					if (normalized === 'pool' || normalized === 'question pool') return 'Pool';
+					if (normalized === 'draw' || normalized === 'draw count') return 'Draw';
+					if (normalized === 'tolerance') return 'Tolerance';
+					// Option A, Option B, ... (or Option 1, Option 2, ...) keep their order
+					const optionMatch = normalized.match(/^(?:option|choice)\s*([a-z]|\d+)$/);
+					if (optionMatch) return `Option ${optionMatch[1].toUpperCase()}`;
 					if (normalized.includes('question')) return 'Question';
 					if (normalized.includes('answer') || normalized.includes('solution')) return 'Answer';
 					if (normalized.includes('category') || normalized.includes('topic')) return 'Category';
@@ -228,17 +240,44 @@ class QuizFileProcessor {
 				return questions;
 			}
 
+			const usedIds = new Set<string>();
+
 			for (const row of data) {
 				try {
+					const category = (row.Category || 'General').trim();
+					const draw = parseInt(row.Draw ?? '', 10);
+					const tolerance = Number.parseFloat(row.Tolerance ?? '');
+					const type = this.normalizeQuestionType(row.Type);
+					const options = type === 'TrueFalse'
+						? ['True', 'False']
+						: Object.keys(row)
+							.filter(key => key.startsWith('Option '))
+							.map(key => String(row[key] ?? '').trim())
+							.filter(Boolean);
 					const question: QuizQuestion = {
+						id: '',
 						Question: (row.Question || '').trim(),
 						Answer: (row.Answer || '').trim(),
-						Category: (row.Category || 'General').trim(),
-						Type: this.normalizeQuestionType(row.Type)
+						Category: category,
+						Type: type,
+						Options: type === 'MultipleChoice' || type === 'MultiSelect' || type === 'TrueFalse' ? options : [],
+						Tolerance: Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : null,
+						Pool: (row.Pool || '').trim() || category,
+						Draw: Number.isNaN(draw) || draw <= 0 ? null : draw
 					};
 
+					// Store objective answer keys in the same form the quiz UI submits
+					const answerKey = normalizeAnswerKey(question.Type, question.Answer, question.Options);
+					if (question.Question && question.Answer && answerKey === null) {
+						console.warn(`⚠️ [QuizFileProcessor] Skipping ${question.Type} question with an invalid answer or options: ${question.Question.slice(0, 60)}`);
+						continue;
+					}
+					question.Answer = answerKey ?? question.Answer;
+
 					// Validate required fields
 					if (question.Question && question.Answer) {
+						question.id = this.buildQuestionId(row.Id, question, usedIds);
+						usedIds.add(question.id);
 						questions.push(question);
 					}
 				} catch (error) {
@@ -252,13 +291,35 @@ class QuizFileProcessor {
 		return questions;
 	}
 
+	/**
+	 * Use the CSV's Id column when present, otherwise derive a stable id from the question content
+	 */
+	private buildQuestionId(rawId: unknown, question: QuizQuestion, usedIds: Set<string>): string {
+		const explicitId = typeof rawId === 'string' ? rawId.trim() : '';
+		const baseId = explicitId || `q-${createHash('sha1').update(`${question.Category}\n${question.Question}`).digest('hex').slice(0, 12)}`;
+
+		let id = baseId;
+		let suffix = 2;
+		while (usedIds.has(id)) {
+			id = `${baseId}-${suffix++}`;
+		}
+		return id;
+	}
+
 	/**
 	 * Normalize question type to Practical/Theoretical
 	 */
-	private normalizeQuestionType(type: string): 'Practical' | 'Theoretical' {
+	private normalizeQuestionType(type: string): QuizQuestionType {
 		if (!type) return 'Theoretical'; // Default to Theoretical
 
 		const normalized = type.trim().toLowerCase();
+		const compact = normalized.replace(/[^a-z]/g, '');
+
+		if (compact === 'multiplechoice' || compact === 'mcq' || compact === 'singlechoice') return 'MultipleChoice';
+		if (compact === 'multiselect' || compact === 'multipleselect' || compact === 'checkbox') return 'MultiSelect';
+		if (compact === 'truefalse' || compact === 'boolean') return 'TrueFalse';
+		if (compact === 'numeric' || compact === 'number') return 'Numeric';
+
 		if (normalized.includes('practical') || normalized.includes('coding') || normalized.includes('code')) {
 			return 'Practical';
 		}
@@ -266,8 +327,7 @@ class QuizFileProcessor {
 	}
 
 
-	async submitQuizResults(submission: QuizSubmission, spreadsheetId: string): Promise<SubmissionResult> {
-		const quizConfig = this.getCurrentQuizConfig();
+	async submitQuizResults(submission: QuizSubmission, spreadsheetId: string, quizConfig: QuizConfig): Promise<SubmissionResult> {
 		const resultsSheetName = quizConfig.sheetTabName;
 		const incomingCode = submission.registrationCode.trim().toLowerCase();
 
@@ -311,7 +371,7 @@ class QuizFileProcessor {
 			});
 
 			if (isDuplicate) {
-				const errorMessage = `Registration code '${submission.registrationCode}' has already submitted results for Quiz ${quizConfig.quizNumber}. Duplicate found in sheet row ${duplicateRowIndex}. Submission rejected.`;
+				const errorMessage = `Registration code '${submission.registrationCode}' has already submitted results for ${quizConfig.title}. Duplicate found in sheet row ${duplicateRowIndex}. Submission rejected.`;
 				return {
 					success: false,
 					message: 'Duplicate submission rejected.',
@@ -340,6 +400,35 @@ class QuizFileProcessor {
 			// This is necessary for addRow() to work correctly
 			await sheet.loadHeaderRow();
 
+			// Tabs created before question pools or grading lack these columns, and addRow() drops unknown keys
+			const missingHeaders = ['questionIdsJson', 'gradingStatus'].filter(header => !sheet.headerValues.includes(header));
+			if (missingHeaders.length > 0) {
+				const headers = [...sheet.headerValues, ...missingHeaders];
+				if (headers.length > sheet.columnCount) {
+					await sheet.resize({ rowCount: sheet.rowCount, columnCount: headers.length });
+				}
+				await sheet.setHeaderRow(headers);
+			}
+
+			// Resolve each answer against the server-side answer key by question id
+			const answerKey = await this.getAnswerKey(quizConfig);
+			const questionsById = new Map(answerKey.map(question => [question.id, question]));
+			const resolvedAnswers: ResolvedQuizAnswer[] = Object.entries(submission.answers).map(([questionId, answer]) => {
+				const question = questionsById.get(questionId);
+				if (!question) {
+					console.warn(`⚠️ [QuizFileProcessor] Unknown question id '${questionId}' in submission from ${submission.registrationCode}.`);
+				}
+				return {
+					questionId,
+					question: question?.Question ?? null,
+					category: question?.Category ?? null,
+					type: question?.Type ?? null,
+					answer,
+					modelAnswer: question?.Answer ?? null,
+					autoScore: question && answer.trim() ? scoreAutoAnswer(question, answer) : null,
+				};
+			});
+
 			// Prepare row data (using descriptive headers)
 			const rowData = {
 				registrationCode: submission.registrationCode,
@@ -351,7 +440,10 @@ class QuizFileProcessor {
 				answeredCount: submission.answeredCount,
 				completionRate: ((submission.answeredCount / submission.totalQuestions) * 100).toFixed(2),
 				submissionTime: new Date().toISOString(),
-				answersJson: JSON.stringify(submission.answers)
+				answersJson: JSON.stringify(resolvedAnswers),
+				questionIdsJson: JSON.stringify(submission.questionIds),
+				// The grader replaces this; a row still pending after a restart is graded again
+				gradingStatus: 'pending'
 			};
 
 			// Add the row
@@ -359,22 +451,105 @@ class QuizFileProcessor {
 
 			return {
 				success: true,
-				message: `Quiz ${quizConfig.quizNumber} results submitted to Google Sheets`
+				message: `${quizConfig.title} results submitted to Google Sheets`,
+				sheetTabName: resultsSheetName,
+				resolvedAnswers
 			};
 
 		} catch (error) {
-			console.error(`❌ [QuizFileProcessor] Error submitting Quiz ${quizConfig.quizNumber} results:`, error);
+			console.error(`❌ [QuizFileProcessor] Error submitting ${quizConfig.title} results:`, error);
 			return {
 				success: false,
-				message: `Failed to submit Quiz ${quizConfig.quizNumber} results`,
+				message: `Failed to submit ${quizConfig.title} results`,
 				error: error instanceof Error ? error.message : 'Unknown error',
                 code: 'UNKNOWN_ERROR' // Added specific error code
 			};
 		}
 	}
 
-	getCurrentQuizNumber(): 1 | 2 | 3 | 4 {
-		return this.currentQuizNumber;
+	/**
+	 * Read a student's submission row back from the results tab. Mentor scores and feedback
+	 * (mentorScoresJson / mentorFeedbackJson) take precedence over the AI grader's.
+	 */
+	async getQuizResult(registrationCode: string, spreadsheetId: string, quizConfig: QuizConfig): Promise<QuizResult | null> {
+		const doc = new GoogleSpreadsheet(spreadsheetId, this.auth);
+		await doc.loadInfo();
+
+		const sheet = doc.sheetsByTitle[quizConfig.sheetTabName];
+		if (!sheet) {
+			throw new Error(`Sheet '${quizConfig.sheetTabName}' not found`);
+		}
+
+		const code = registrationCode.trim().toLowerCase();
+		const rows = await sheet.getRows();
+		const row = rows.find(r => String(r.get('registrationCode') ?? '').trim().toLowerCase() === code);
+
+		if (!row) {
+			return null;
+		}
+
+		const parseJson = <T,>(column: string, fallback: T): T => {
+			const raw = row.get(column);
+			if (!raw) return fallback;
+			try {
+				return JSON.parse(String(raw)) as T;
+			} catch {
+				console.warn(`⚠️ [QuizFileProcessor] Ignoring malformed ${column} for ${registrationCode} in '${quizConfig.sheetTabName}'.`);
+				return fallback;
+			}
+		};
+
+		const answers = parseJson<ResolvedQuizAnswer[]>('answersJson', []);
+		const aiScores = parseJson<{ [questionId: string]: number | null }>('questionScoresJson', {});
+		const aiFeedback = parseJson<{ [questionId: string]: string }>('aiFeedbackJson', {});
+		const mentorScores = parseJson<{ [questionId: string]: number | null }>('mentorScoresJson', {});
+		const mentorFeedback = parseJson<{ [questionId: string]: string }>('mentorFeedbackJson', {});
+		const questionIds = parseJson<string[]>('questionIdsJson', answers.map(answer => answer.questionId));
+
+		// Unanswered questions are not in answersJson, so look their text up in the answer key
+		const answersById = new Map(answers.map(answer => [answer.questionId, answer]));
+		const missingIds = questionIds.filter(questionId => !answersById.has(questionId));
+		const unanswered = missingIds.length > 0
+			? await this.getQuestionsById(quizConfig, missingIds).catch(() => [])
+			: [];
+		const unansweredById = new Map(unanswered.map(question => [question.id, question]));
+
+		const questions: QuestionResult[] = questionIds.map(questionId => {
+			const answer = answersById.get(questionId);
+			const question = unansweredById.get(questionId);
+			const hasMentorScore = mentorScores[questionId] !== undefined && mentorScores[questionId] !== null;
+			const hasMentorFeedback = !!mentorFeedback[questionId];
+
+			return {
+				questionId,
+				question: answer?.question ?? question?.Question ?? null,
+				category: answer?.category ?? question?.Category ?? null,
+				type: answer?.type ?? question?.Type ?? null,
+				answer: answer?.answer ?? '',
+				score: hasMentorScore ? mentorScores[questionId] : (aiScores[questionId] ?? (answer ? null : 0)),
+				feedback: hasMentorFeedback ? mentorFeedback[questionId] : (aiFeedback[questionId] ?? null),
+				feedbackSource: hasMentorFeedback ? 'mentor' : aiFeedback[questionId] ? 'ai' : null,
+				modelAnswer: answer?.modelAnswer ?? question?.Answer ?? null,
+			};
+		});
+
+		const scored = questions.filter(question => question.score !== null);
+		const totalQuestions = Number(row.get('totalQuestions')) || questions.length;
+
+		return {
+			registrationCode: String(row.get('registrationCode')),
+			quizId: quizConfig.id,
+			quizTitle: quizConfig.title,
+			submittedAt: String(row.get('submissionTime') ?? row.get('endTime') ?? ''),
+			totalQuestions,
+			answeredCount: Number(row.get('answeredCount')) || answers.length,
+			// Unanswered questions count as zero, matching the grader
+			totalScore: scored.length > 0 && totalQuestions > 0
+				? scored.reduce((sum, question) => sum + (question.score ?? 0), 0) / totalQuestions
+				: null,
+			gradingStatus: String(row.get('gradingStatus') || 'pending'),
+			questions,
+		};
 	}
 }
 
@@ -395,8 +570,3 @@ export const isGoogleSheetsConfigured = (): boolean => {
 	const isConfigured = !!(process.env.NEXT_PUBLIC_GOOGLE_TEST_SHEET_ID && process.env.NEXT_PUBLIC_GOOGLE_CLIENT_EMAIL && process.env.NEXT_PUBLIC_GOOGLE_PRIVATE_KEY);
 	return isConfigured;
 };
-
-// Utility function to get current quiz number
-export const getCurrentQuizNumber = (): 1 | 2 | 3 | 4 => {
-	return quizFileProcessor.getCurrentQuizNumber();
-};
@@ -0,0 +1,281 @@
+// lib/quiz-grader.ts
+import { JWT } from 'google-auth-library';
+import { GoogleSpreadsheet } from 'google-spreadsheet';
+import type { EvaluationProvider, EvaluationResponse } from '@/lib/evaluation-provider';
+import { createEvaluationProvider, getDefaultProviderName, providerRequiresApiKey } from '@/lib/evaluation-providers';
+import type { ResolvedQuizAnswer } from '@/lib/quiz-file-processor';
+
+// --- INTERFACES ---
+export interface QuizGradingJob {
+	spreadsheetId: string;
+	sheetTabName: string;
+	registrationCode: string;
+	sessionId: string;
+	totalQuestions: number;
+	answers: ResolvedQuizAnswer[];
+}
+
+export interface QuestionGrade {
+	questionId: string;
+	score: number | null;
+	feedback: string;
+}
+
+export interface QuizGraderConfig {
+	apiKey: string;
+	serviceAccountEmail: string;
+	privateKey: string;
+}
+
+// Columns appended to the `Quiz N` tab by the grader
+export const GRADING_HEADERS = [
+	'questionScoresJson',
+	'totalScore',
+	'aiFeedbackJson',
+	'gradingStatus',
+	'gradedAt',
+];
+
+// Pause between model calls so one submission does not exhaust the per-minute quota
+const DELAY_BETWEEN_EVALUATIONS_MS = 1000;
+
+// --- QUIZ GRADER CLASS ---
+class QuizGrader {
+	private config: QuizGraderConfig;
+	private auth: JWT | null = null;
+	private queue: QuizGradingJob[] = [];
+	// Tab and session of every job queued or being graded, so a resumed row is not graded twice
+	private queuedJobs = new Set<string>();
+	private isProcessing = false;
+
+	constructor(config: QuizGraderConfig) {
+		this.config = config;
+
+		if (config.serviceAccountEmail && config.privateKey) {
+			this.auth = new JWT({
+				email: config.serviceAccountEmail,
+				key: config.privateKey.replace(/\\n/g, '\n'),
+				scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+			});
+		}
+	}
+
+	/**
+	 * Sheets access is enough for auto-scored questions; AI grading with Gemini additionally needs the API key.
+	 */
+	isConfigured(): boolean {
+		return !!this.auth;
+	}
+
+	/**
+	 * Queue a submission for grading. Returns immediately; grading runs in the background.
+	 */
+	enqueue(job: QuizGradingJob): void {
+		if (!this.isConfigured()) {
+			console.warn('⚠️ [QuizGrader] Sheets credentials missing. Skipping automatic grading.');
+			return;
+		}
+
+		const key = `${job.sheetTabName}:${job.sessionId}`;
+		if (this.queuedJobs.has(key)) return;
+		this.queuedJobs.add(key);
+
+		this.queue.push(job);
+		console.log(`🧮 [QuizGrader] Queued grading for ${job.registrationCode} (${this.queue.length} pending)`);
+
+		void this.processQueue();
+	}
+
+	/**
+	 * Queue the submissions still marked pending in the given tabs. Jobs only live in memory, so
+	 * this picks up the ones a restart dropped. Rows without a grading status predate it and are left alone.
+	 */
+	async resumePending(spreadsheetId: string, sheetTabNames: string[]): Promise<number> {
+		if (!this.auth) return 0;
+
+		const doc = new GoogleSpreadsheet(spreadsheetId, this.auth);
+		await doc.loadInfo();
+
+		let resumed = 0;
+		for (const sheetTabName of sheetTabNames) {
+			const sheet = doc.sheetsByTitle[sheetTabName];
+			if (!sheet) continue;
+
+			await sheet.loadHeaderRow();
+			if (!sheet.headerValues.includes('gradingStatus')) continue;
+
+			for (const row of await sheet.getRows()) {
+				if (row.get('gradingStatus') !== 'pending') continue;
+
+				const registrationCode = String(row.get('registrationCode') ?? '');
+				try {
+					const answers = JSON.parse(row.get('answersJson') || '[]') as ResolvedQuizAnswer[];
+					const questionIds = JSON.parse(row.get('questionIdsJson') || '[]') as string[];
+					this.enqueue({
+						spreadsheetId,
+						sheetTabName,
+						registrationCode,
+						sessionId: String(row.get('sessionId') ?? ''),
+						totalQuestions: questionIds.length || Number(row.get('totalQuestions')) || answers.length,
+						answers,
+					});
+					resumed++;
+				} catch (error) {
+					console.error(`❌ [QuizGrader] Could not resume grading for ${registrationCode} in '${sheetTabName}':`, error);
+				}
+			}
+		}
+
+		if (resumed > 0) {
+			console.log(`🔁 [QuizGrader] Resumed ${resumed} pending grading job(s)`);
+		}
+		return resumed;
+	}
+
+	private async processQueue(): Promise<void> {
+		if (this.isProcessing) return;
+		this.isProcessing = true;
+
+		try {
+			while (this.queue.length > 0) {
+				const job = this.queue.shift();
+				if (!job) break;
+
+				try {
+					await this.gradeJob(job);
+				} catch (error) {
+					// The row stays pending and is retried after the next restart
+					console.error(`❌ [QuizGrader] Grading failed for ${job.registrationCode}:`, error);
+				} finally {
+					this.queuedJobs.delete(`${job.sheetTabName}:${job.sessionId}`);
+				}
+			}
+		} finally {
+			this.isProcessing = false;
+		}
+	}
+
+	private async gradeJob(job: QuizGradingJob): Promise<void> {
+		// Grading uses the deployment's provider; only Gemini needs the grading key
+		const api = this.config.apiKey || !providerRequiresApiKey(getDefaultProviderName())
+			? createEvaluationProvider({ apiKey: this.config.apiKey })
+			: null;
+		const grades: QuestionGrade[] = [];
+
+		for (const answer of job.answers) {
+			grades.push(await this.gradeAnswer(api, answer));
+			if (answer.autoScore === null) {
+				await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_EVALUATIONS_MS));
+			}
+		}
+
+		await this.writeResults(job, grades);
+		console.log(`✅ [QuizGrader] Grading written for ${job.registrationCode} in '${job.sheetTabName}'`);
+	}
+
+	/**
+	 * Grade one answer: exact scoring for objective types, code evaluation for Practical questions,
+	 * rubric evaluation otherwise.
+	 */
+	private async gradeAnswer(api: EvaluationProvider | null, answer: ResolvedQuizAnswer): Promise<QuestionGrade> {
+		if (!answer.answer.trim()) {
+			return { questionId: answer.questionId, score: 0, feedback: 'No answer provided.' };
+		}
+
+		if (answer.autoScore !== null) {
+			return {
+				questionId: answer.questionId,
+				score: answer.autoScore,
+				feedback: answer.autoScore > 0 ? 'Correct.' : 'Incorrect.',
+			};
+		}
+
+		if (!api) {
+			return { questionId: answer.questionId, score: null, feedback: 'AI grading is not configured. Needs manual marking.' };
+		}
+
+		if (!answer.question || !answer.modelAnswer) {
+			return { questionId: answer.questionId, score: null, feedback: 'Question not found in the answer key. Needs manual marking.' };
+		}
+
+		const request = {
+			instruction: answer.question,
+			userCode: answer.answer,
+			expectedSolution: answer.modelAnswer,
+			context: `This is a graded quiz question in the ${answer.category || 'General'} category.`,
+		};
+
+		try {
+			const result: EvaluationResponse = answer.type === 'Practical'
+				? await api.evaluateCode({ ...request, language: 'python' })
+				: await api.evaluateWrittenAnswer(request);
+
+			if (!result.success) {
+				return { questionId: answer.questionId, score: null, feedback: result.feedback };
+			}
+
+			return { questionId: answer.questionId, score: result.score ?? 0, feedback: result.feedback };
+		} catch (error) {
+			const message = error instanceof Error
+				? error.message
+				: (error as { message?: string })?.message || 'Unknown error';
+			return { questionId: answer.questionId, score: null, feedback: `Automatic grading failed: ${message}` };
+		}
+	}
+
+	private async writeResults(job: QuizGradingJob, grades: QuestionGrade[]): Promise<void> {
+		if (!this.auth) return;
+
+		const doc = new GoogleSpreadsheet(job.spreadsheetId, this.auth);
+		await doc.loadInfo();
+
+		const sheet = doc.sheetsByTitle[job.sheetTabName];
+		if (!sheet) {
+			throw new Error(`Sheet '${job.sheetTabName}' not found`);
+		}
+
+		await sheet.loadHeaderRow();
+
+		// Older tabs were created before grading existed; add the missing columns in place
+		const missingHeaders = GRADING_HEADERS.filter(header => !sheet.headerValues.includes(header));
+		if (missingHeaders.length > 0) {
+			const headers = [...sheet.headerValues, ...missingHeaders];
+			if (headers.length > sheet.columnCount) {
+				await sheet.resize({ rowCount: sheet.rowCount, columnCount: headers.length });
+			}
+			await sheet.setHeaderRow(headers);
+		}
+
+		const rows = await sheet.getRows();
+		const code = job.registrationCode.trim().toLowerCase();
+		const row = rows.find(r =>
+			String(r.get('registrationCode') ?? '').trim().toLowerCase() === code &&
+			String(r.get('sessionId') ?? '') === job.sessionId
+		);
+
+		if (!row) {
+			throw new Error(`Submission row for ${job.registrationCode} not found in '${job.sheetTabName}'`);
+		}
+
+		const scored = grades.filter(grade => grade.score !== null);
+		const totalPoints = scored.reduce((sum, grade) => sum + (grade.score ?? 0), 0);
+		// Unanswered questions count as zero, so divide by the full question count
+		const totalScore = job.totalQuestions > 0 ? totalPoints / job.totalQuestions : 0;
+
+		row.assign({
+			questionScoresJson: JSON.stringify(Object.fromEntries(grades.map(grade => [grade.questionId, grade.score]))),
+			totalScore: totalScore.toFixed(2),
+			aiFeedbackJson: JSON.stringify(Object.fromEntries(grades.map(grade => [grade.questionId, grade.feedback]))),
+			gradingStatus: scored.length === grades.length ? 'graded' : scored.length > 0 ? 'partial' : 'failed',
+			gradedAt: new Date().toISOString(),
+		});
+		await row.save();
+	}
+}
+
+// Create singleton instance with environment configuration
+export const quizGrader = new QuizGrader({
+	apiKey: process.env.NEXT_PUBLIC_QUIZ_GRADING_API_KEY || '',
+	serviceAccountEmail: process.env.NEXT_PUBLIC_GOOGLE_CLIENT_EMAIL || '',
+	privateKey: process.env.NEXT_PUBLIC_GOOGLE_PRIVATE_KEY || ''
+});
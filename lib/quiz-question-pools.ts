@@ -0,0 +1,84 @@
+// lib/quiz-question-pools.ts
+import { createHash } from 'node:crypto';
+import type { QuizQuestion } from '@/lib/quiz-file-processor';
+
+// --- INTERFACES ---
+export interface QuestionPool {
+	name: string;
+	questionIds: string[];
+	// Number of questions each student receives from this pool
+	drawCount: number;
+}
+
+/**
+ * Group questions by their Pool column (falling back to Category). A pool's draw count is the
+ * first Draw value set on any of its rows; pools without one give every student all of their questions.
+ */
+export const buildQuestionPools = (questions: QuizQuestion[]): QuestionPool[] => {
+	const pools = new Map<string, { questionIds: string[]; drawCount: number | null }>();
+
+	for (const question of questions) {
+		const pool = pools.get(question.Pool) ?? { questionIds: [], drawCount: null };
+		pool.questionIds.push(question.id);
+		if (pool.drawCount === null && question.Draw !== null) {
+			pool.drawCount = question.Draw;
+		}
+		pools.set(question.Pool, pool);
+	}
+
+	return [...pools.entries()].map(([name, pool]) => ({
+		name,
+		questionIds: pool.questionIds,
+		drawCount: Math.min(pool.drawCount ?? pool.questionIds.length, pool.questionIds.length),
+	}));
+};
+
+/**
+ * Number of questions each student receives once every pool's draw rule is applied.
+ */
+export const countDrawnQuestions = (questions: QuizQuestion[]): number =>
+	buildQuestionPools(questions).reduce((total, pool) => total + pool.drawCount, 0);
+
+/**
+ * Pick the questions a student receives, in the order they will see them. The RNG is seeded from
+ * the quiz and registration code, so the same student always gets the same set in the same order.
+ */
+export const sampleQuestionsForStudent = (questions: QuizQuestion[], quizId: string, registrationCode: string): QuizQuestion[] => {
+	const random = createSeededRandom(`${quizId}:${registrationCode.trim().toLowerCase()}`);
+	const selectedIds = new Set<string>();
+
+	for (const pool of buildQuestionPools(questions)) {
+		const ids = [...pool.questionIds];
+		// Partial Fisher-Yates: the first drawCount slots end up holding the sample
+		for (let i = 0; i < pool.drawCount; i++) {
+			const j = i + Math.floor(random() * (ids.length - i));
+			[ids[i], ids[j]] = [ids[j], ids[i]];
+			selectedIds.add(ids[i]);
+		}
+	}
+
+	const selected = questions.filter(question => selectedIds.has(question.id));
+
+	// Shuffle here rather than in the browser so a resumed attempt keeps its order
+	for (let i = selected.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[selected[i], selected[j]] = [selected[j], selected[i]];
+	}
+
+	return selected;
+};
+
+/**
+ * mulberry32 seeded from a SHA-256 of the seed string. Returns floats in [0, 1).
+ */
+const createSeededRandom = (seed: string): (() => number) => {
+	let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
@@ -0,0 +1,366 @@
+// lib/quiz-session-store.ts
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AdjustedTimeLimit } from '@/lib/quiz-accommodations';
+
+// --- INTERFACES ---
+export interface ServerQuizSession {
+	sessionId: string;
+	registrationCode: string;
+	quizId: string;
+	startTime: number;
+	timeLimit: number;
+	// Accommodation time included in timeLimit, and time accepted after it
+	extraTime?: number;
+	lateWindow?: number;
+	// Questions drawn for this student from the quiz's pools
+	questionIds: string[];
+	answers: { [questionId: string]: string };
+	lastSavedAt: number;
+	submitted: boolean;
+	submittedAt?: number;
+}
+
+export type SessionLookupError = 'INVALID_TOKEN' | 'SESSION_NOT_FOUND';
+
+export interface SessionLookupResult {
+	session?: ServerQuizSession;
+	error?: SessionLookupError;
+}
+
+// What a new session needs; only worked out when the student has no session for the quiz yet
+export interface NewSessionDetails {
+	limits: Pick<AdjustedTimeLimit, 'timeLimit' | 'extraTime' | 'lateWindow'>;
+	questionIds: string[];
+}
+
+// --- CONFIGURATION ---
+const DEFAULT_GRACE_SECONDS = 60;
+
+/**
+ * Extra time allowed on top of the limit for network latency and the client's auto-submit.
+ */
+export const getSubmissionGraceMs = (): number => {
+	const seconds = parseInt(process.env.NEXT_PUBLIC_QUIZ_SUBMISSION_GRACE_SECONDS ?? '', 10);
+	return (Number.isNaN(seconds) || seconds < 0 ? DEFAULT_GRACE_SECONDS : seconds) * 1000;
+};
+
+// --- QUIZ SESSION STORE CLASS ---
+class QuizSessionStore {
+	private sessions = new Map<string, ServerQuizSession>();
+	// Session id per student and quiz, mirrored on disk in index/<key>.json
+	private sessionIndex = new Map<string, string>();
+	private indexReady: Promise<void> | null = null;
+	// The start in progress per student and quiz, so starts for the same pair run one at a time
+	private starts = new Map<string, Promise<unknown>>();
+	private readonly storeDir: string;
+	private readonly secret: string;
+
+	constructor(storeDir: string, secret?: string) {
+		this.storeDir = storeDir;
+
+		if (secret) {
+			this.secret = secret;
+		} else {
+			// Tokens signed with a per-process secret stop verifying after a restart.
+			console.warn('⚠️ [QuizSessionStore] NEXT_PUBLIC_QUIZ_SESSION_SECRET is not set. Using a temporary secret for this process.');
+			this.secret = randomBytes(32).toString('hex');
+		}
+	}
+
+	/**
+	 * This student's session for the quiz, or a new one from `details` when there is none. A student
+	 * gets one attempt: starting again returns the same session, running, submitted or out of time,
+	 * and never a fresh clock. Starts for the same student and quiz run one at a time, and the index
+	 * file is created exclusively, so two requests at once cannot both create a session.
+	 */
+	async startSession(
+		registrationCode: string,
+		quizId: string,
+		details: () => Promise<NewSessionDetails>
+	): Promise<{ session: ServerQuizSession; token: string; created: boolean }> {
+		const key = this.indexKey(registrationCode, quizId);
+		const start = (this.starts.get(key) ?? Promise.resolve())
+			.catch(() => undefined)
+			.then(async () => {
+				const existing = await this.findSession(registrationCode, quizId);
+				if (existing) return { ...existing, created: false };
+
+				const { limits, questionIds } = await details();
+				return this.createSession(registrationCode, quizId, limits, questionIds);
+			});
+
+		this.starts.set(key, start);
+		void start.catch(() => undefined).then(() => {
+			if (this.starts.get(key) === start) this.starts.delete(key);
+		});
+		return start;
+	}
+
+	/**
+	 * This student's session for the quiz, whether it is still running, submitted or out of time.
+	 */
+	async findSession(registrationCode: string, quizId: string): Promise<{ session: ServerQuizSession; token: string } | null> {
+		await this.ensureIndex();
+
+		const key = this.indexKey(registrationCode, quizId);
+		const sessionId = this.sessionIndex.get(key) ?? await this.readIndexEntry(key);
+		const session = sessionId ? await this.load(sessionId) : null;
+
+		return session ? { session, token: this.signToken(session) } : null;
+	}
+
+	/**
+	 * Create a new session bound to the registration code. The start time is the server clock.
+	 */
+	private async createSession(
+		registrationCode: string,
+		quizId: string,
+		limits: NewSessionDetails['limits'],
+		questionIds: string[]
+	): Promise<{ session: ServerQuizSession; token: string; created: boolean }> {
+		const now = Date.now();
+		const session: ServerQuizSession = {
+			sessionId: randomUUID(),
+			registrationCode: registrationCode.trim(),
+			quizId,
+			startTime: now,
+			timeLimit: limits.timeLimit,
+			extraTime: limits.extraTime,
+			lateWindow: limits.lateWindow,
+			questionIds,
+			answers: {},
+			lastSavedAt: now,
+			submitted: false,
+		};
+
+		const key = this.indexKey(registrationCode, quizId);
+		if (!(await this.writeIndexEntry(key, session.sessionId))) {
+			// Another server process started this student's session first
+			const existing = await this.findSession(registrationCode, quizId);
+			if (existing) return { ...existing, created: false };
+		}
+
+		this.sessionIndex.set(key, session.sessionId);
+		await this.persist(session);
+
+		return { session, token: this.signToken(session), created: true };
+	}
+
+	/**
+	 * Resolve a signed token to its session. Tampered or unknown tokens are rejected.
+	 */
+	async getSessionByToken(token: string): Promise<SessionLookupResult> {
+		const sessionId = this.verifyToken(token);
+		if (!sessionId) {
+			return { error: 'INVALID_TOKEN' };
+		}
+
+		const session = await this.load(sessionId);
+		if (!session) {
+			return { error: 'SESSION_NOT_FOUND' };
+		}
+
+		// The signature also covers the registration code, so re-check it against the stored session.
+		if (!this.isSignatureValid(token, session)) {
+			return { error: 'INVALID_TOKEN' };
+		}
+
+		return { session };
+	}
+
+	/**
+	 * Merge incremental answers into the stored session.
+	 */
+	async saveAnswers(session: ServerQuizSession, answers: { [questionId: string]: string }): Promise<ServerQuizSession> {
+		// Merge onto the latest in-memory copy so overlapping saves do not drop each other's answers.
+		const current = this.sessions.get(session.sessionId) ?? session;
+		const updated: ServerQuizSession = {
+			...current,
+			answers: { ...current.answers, ...answers },
+			lastSavedAt: Date.now(),
+		};
+
+		await this.persist(updated);
+		return updated;
+	}
+
+	async markSubmitted(session: ServerQuizSession): Promise<ServerQuizSession> {
+		const updated: ServerQuizSession = {
+			...(this.sessions.get(session.sessionId) ?? session),
+			submitted: true,
+			submittedAt: Date.now(),
+		};
+
+		await this.persist(updated);
+		return updated;
+	}
+
+	/**
+	 * Milliseconds elapsed since the server-recorded start time.
+	 */
+	getElapsedMs(session: ServerQuizSession, now: number = Date.now()): number {
+		return now - session.startTime;
+	}
+
+	isWithinTimeLimit(session: ServerQuizSession, now: number = Date.now()): boolean {
+		return this.getElapsedMs(session, now) <= session.timeLimit + (session.lateWindow ?? 0) + getSubmissionGraceMs();
+	}
+
+	// --- TOKEN SIGNING ---
+
+	private sign(sessionId: string, registrationCode: string): string {
+		return createHmac('sha256', this.secret)
+			.update(`${sessionId}:${registrationCode.trim().toLowerCase()}`)
+			.digest('base64url');
+	}
+
+	private signToken(session: ServerQuizSession): string {
+		return `${session.sessionId}.${this.sign(session.sessionId, session.registrationCode)}`;
+	}
+
+	private verifyToken(token: string): string | null {
+		if (typeof token !== 'string') return null;
+
+		const [sessionId, signature] = token.split('.');
+		// Session ids are UUIDs; anything else never reaches the file system.
+		if (!sessionId || !signature || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+			return null;
+		}
+
+		return sessionId;
+	}
+
+	private isSignatureValid(token: string, session: ServerQuizSession): boolean {
+		const expected = Buffer.from(this.signToken(session));
+		const actual = Buffer.from(token);
+		return expected.length === actual.length && timingSafeEqual(expected, actual);
+	}
+
+	// --- PERSISTENCE ---
+
+	private sessionPath(sessionId: string): string {
+		return path.join(this.storeDir, `${sessionId}.json`);
+	}
+
+	private async load(sessionId: string): Promise<ServerQuizSession | null> {
+		const cached = this.sessions.get(sessionId);
+		if (cached) return cached;
+
+		try {
+			const raw = await fs.readFile(this.sessionPath(sessionId), 'utf8');
+			const session = JSON.parse(raw) as ServerQuizSession;
+			this.sessions.set(sessionId, session);
+			return session;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`❌ [QuizSessionStore] Failed to read session ${sessionId}:`, error);
+			}
+			return null;
+		}
+	}
+
+	private indexKey(registrationCode: string, quizId: string): string {
+		return createHash('sha256').update(`${registrationCode.trim().toLowerCase()}\n${quizId}`).digest('hex');
+	}
+
+	private indexPath(key: string): string {
+		return path.join(this.storeDir, 'index', `${key}.json`);
+	}
+
+	private async readIndexEntry(key: string): Promise<string | null> {
+		try {
+			const { sessionId } = JSON.parse(await fs.readFile(this.indexPath(key), 'utf8')) as { sessionId: string };
+			this.sessionIndex.set(key, sessionId);
+			return sessionId;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.error(`❌ [QuizSessionStore] Failed to read session index ${key}:`, error);
+			}
+			return null;
+		}
+	}
+
+	/**
+	 * Record the session for a student and quiz. Resolves false, writing nothing, when one is already recorded.
+	 */
+	private async writeIndexEntry(key: string, sessionId: string): Promise<boolean> {
+		try {
+			await fs.mkdir(path.dirname(this.indexPath(key)), { recursive: true });
+			await fs.writeFile(this.indexPath(key), JSON.stringify({ sessionId }), { encoding: 'utf8', flag: 'wx' });
+			return true;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+			// The in-memory index still holds the session for this process.
+			console.error(`❌ [QuizSessionStore] Failed to write session index ${key}:`, error);
+			return true;
+		}
+	}
+
+	/**
+	 * Index sessions written before the index existed, once per process. Where a student has several,
+	 * a running one wins, then the most recently started.
+	 */
+	private ensureIndex(): Promise<void> {
+		if (!this.indexReady) {
+			this.indexReady = this.indexExistingSessions().catch((error) => {
+				console.error('❌ [QuizSessionStore] Failed to index sessions:', error);
+			});
+		}
+		return this.indexReady;
+	}
+
+	private async indexExistingSessions(): Promise<void> {
+		let fileNames: string[] = [];
+		try {
+			fileNames = await fs.readdir(this.storeDir);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+			throw error;
+		}
+
+		const byKey = new Map<string, ServerQuizSession>();
+		const isRunning = (session: ServerQuizSession) => !session.submitted && this.isWithinTimeLimit(session);
+
+		for (const fileName of fileNames) {
+			const sessionId = fileName.replace(/\.json$/, '');
+			if (!/^[0-9a-f-]{36}$/i.test(sessionId)) continue;
+
+			const session = await this.load(sessionId);
+			if (!session) continue;
+
+			const key = this.indexKey(session.registrationCode, session.quizId);
+			const current = byKey.get(key);
+			if (!current || (isRunning(session) && !isRunning(current)) || (isRunning(session) === isRunning(current) && session.startTime > current.startTime)) {
+				byKey.set(key, session);
+			}
+		}
+
+		for (const [key, session] of byKey) {
+			// An existing index entry was written by a start and stays authoritative
+			if (await this.writeIndexEntry(key, session.sessionId)) {
+				this.sessionIndex.set(key, session.sessionId);
+			}
+		}
+	}
+
+	private async persist(session: ServerQuizSession): Promise<void> {
+		this.sessions.set(session.sessionId, session);
+
+		try {
+			await fs.mkdir(this.storeDir, { recursive: true });
+			await fs.writeFile(this.sessionPath(session.sessionId), JSON.stringify(session), 'utf8');
+		} catch (error) {
+			// The in-memory copy is still authoritative for this process.
+			console.error(`❌ [QuizSessionStore] Failed to persist session ${session.sessionId}:`, error);
+		}
+	}
+}
+
+// Create singleton instance with environment configuration
+export const quizSessionStore = new QuizSessionStore(
+	process.env.NEXT_PUBLIC_QUIZ_SESSION_DIR || path.join(os.tmpdir(), 'deamv-quiz-sessions'),
+	process.env.NEXT_PUBLIC_QUIZ_SESSION_SECRET
+);
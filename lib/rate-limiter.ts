@@ -0,0 +1,212 @@
+// lib/rate-limiter.ts
+// In-memory request budgets for the API routes that call paid models or take registration codes.
+// Budgets are counted per client IP and per registration code over a sliding window.
+import { NextResponse } from 'next/server';
+
+// --- INTERFACES ---
+export type RateLimitedRoute =
+  | 'evaluate-answer'
+  | 'submit-quiz'
+  | 'submit-practice-data'
+  | 'upload-notebook'
+  | 'quiz-sessions'
+  | 'quiz-session-answers'
+  | 'quiz-accommodations'
+  | 'quiz-results';
+
+interface RateLimitBudget {
+  limit: number;
+  windowMs: number;
+}
+
+interface RouteBudgets {
+  ip: RateLimitBudget;
+  // Omitted for routes that do not take a registration code
+  code?: RateLimitBudget;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole seconds until the next request would be accepted; 0 when allowed
+  retryAfterSeconds: number;
+  reason?: 'ip' | 'code' | 'blocked';
+}
+
+// --- CONFIGURATION ---
+const MINUTE_MS = 60 * 1000;
+
+const ROUTE_BUDGETS: Record<RateLimitedRoute, RouteBudgets> = {
+  // Each request is a model call, so this is the one worth abusing
+  'evaluate-answer': { ip: { limit: 30, windowMs: MINUTE_MS } },
+  'submit-quiz': { ip: { limit: 10, windowMs: MINUTE_MS }, code: { limit: 5, windowMs: MINUTE_MS } },
+  'submit-practice-data': { ip: { limit: 20, windowMs: MINUTE_MS }, code: { limit: 10, windowMs: MINUTE_MS } },
+  'upload-notebook': { ip: { limit: 10, windowMs: MINUTE_MS }, code: { limit: 5, windowMs: MINUTE_MS } },
+  // These answer whether a registration code exists, and quiz-results returns graded answers
+  'quiz-sessions': { ip: { limit: 10, windowMs: MINUTE_MS }, code: { limit: 5, windowMs: MINUTE_MS } },
+  // Answers autosave a moment after the student stops typing, so saves come far more often than starts
+  'quiz-session-answers': { ip: { limit: 120, windowMs: MINUTE_MS }, code: { limit: 60, windowMs: MINUTE_MS } },
+  'quiz-accommodations': { ip: { limit: 10, windowMs: MINUTE_MS }, code: { limit: 5, windowMs: MINUTE_MS } },
+  'quiz-results': { ip: { limit: 10, windowMs: MINUTE_MS }, code: { limit: 5, windowMs: MINUTE_MS } },
+};
+
+// Unknown registration codes from one IP, across all routes, before it is treated as guessing
+const INVALID_CODE_LIMIT = 5;
+const INVALID_CODE_WINDOW_MS = 15 * MINUTE_MS;
+const BRUTE_FORCE_BLOCK_MS = 15 * MINUTE_MS;
+
+// Drop idle keys now and then so the maps do not grow with every visitor
+const PRUNE_INTERVAL_MS = 5 * MINUTE_MS;
+
+const isEnabled = (): boolean => process.env.NEXT_PUBLIC_RATE_LIMIT_ENABLED !== 'false';
+
+// How many reverse proxies in front of the app append to `X-Forwarded-For`. Entries left of theirs
+// come from the client and can say anything, so the client is the entry the outermost proxy added.
+const getTrustedProxyCount = (): number => {
+  const count = parseInt(process.env.NEXT_PUBLIC_TRUSTED_PROXY_COUNT ?? '', 10);
+  return Number.isNaN(count) || count < 0 ? 1 : count;
+};
+
+/**
+ * The client address as recorded by the trusted proxy. A header named in
+ * NEXT_PUBLIC_CLIENT_IP_HEADER, such as `x-real-ip`, is used as is when the proxy sets it;
+ * otherwise the address is the `x-forwarded-for` entry appended by the outermost trusted proxy.
+ */
+export const getClientIp = (request: Request): string => {
+  const ipHeader = process.env.NEXT_PUBLIC_CLIENT_IP_HEADER?.trim();
+  if (ipHeader) {
+    return request.headers.get(ipHeader)?.trim() || 'unknown';
+  }
+
+  const proxyCount = getTrustedProxyCount();
+  if (proxyCount === 0) return 'unknown';
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies means every entry was added by a trusted proxy
+  return forwardedFor[Math.max(forwardedFor.length - proxyCount, 0)] || 'unknown';
+};
+
+// --- RATE LIMITER CLASS ---
+class RateLimiter {
+  // Request timestamps per key, oldest first
+  private hits = new Map<string, number[]>();
+  private invalidCodes = new Map<string, number[]>();
+  private blockedUntil = new Map<string, number>();
+  private lastPrunedAt = Date.now();
+
+  /**
+   * Count this request against the route's budgets for the IP and, when given, the registration code.
+   * A request over any budget is not counted, so waiting `retryAfterSeconds` is always enough.
+   */
+  check(route: RateLimitedRoute, ip: string, registrationCode?: string): RateLimitResult {
+    if (!isEnabled()) return { allowed: true, retryAfterSeconds: 0 };
+
+    const now = Date.now();
+    this.prune(now);
+
+    const blockedUntil = this.blockedUntil.get(ip);
+    if (blockedUntil && blockedUntil > now && route !== 'evaluate-answer') {
+      return { allowed: false, retryAfterSeconds: Math.ceil((blockedUntil - now) / 1000), reason: 'blocked' };
+    }
+
+    const budgets = ROUTE_BUDGETS[route];
+    const code = registrationCode?.trim().toLowerCase();
+    const checks: { key: string; budget: RateLimitBudget; reason: 'ip' | 'code' }[] = [
+      { key: `${route}:ip:${ip}`, budget: budgets.ip, reason: 'ip' },
+    ];
+    if (budgets.code && code) {
+      checks.push({ key: `${route}:code:${code}`, budget: budgets.code, reason: 'code' });
+    }
+
+    for (const { key, budget, reason } of checks) {
+      const recent = this.recentHits(this.hits, key, budget.windowMs, now);
+      if (recent.length >= budget.limit) {
+        console.warn(`⚠️ [RateLimiter] ${route} budget exceeded for ${reason === 'ip' ? `IP ${ip}` : `code ${code}`} (${budget.limit} per ${budget.windowMs / 1000}s)`);
+        return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + budget.windowMs - now) / 1000), reason };
+      }
+    }
+
+    for (const { key } of checks) {
+      const timestamps = this.hits.get(key);
+      if (timestamps) {
+        timestamps.push(now);
+      } else {
+        this.hits.set(key, [now]);
+      }
+    }
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Note a registration code that was not found. Past the limit the IP is blocked from the
+   * code-checking routes for a while and the attempt is logged as possible brute force.
+   */
+  recordInvalidCode(route: RateLimitedRoute, ip: string, registrationCode: string): void {
+    if (!isEnabled()) return;
+
+    const now = Date.now();
+    const recent = this.recentHits(this.invalidCodes, ip, INVALID_CODE_WINDOW_MS, now);
+    recent.push(now);
+    this.invalidCodes.set(ip, recent);
+
+    if (recent.length >= INVALID_CODE_LIMIT) {
+      this.blockedUntil.set(ip, now + BRUTE_FORCE_BLOCK_MS);
+      console.error(
+        `🛑 [RateLimiter] Possible registration code brute force from IP ${ip}: ${recent.length} unknown codes in ${INVALID_CODE_WINDOW_MS / MINUTE_MS} minutes (latest "${registrationCode}" on ${route}). Blocked for ${BRUTE_FORCE_BLOCK_MS / MINUTE_MS} minutes.`
+      );
+    }
+  }
+
+  private recentHits(store: Map<string, number[]>, key: string, windowMs: number, now: number): number[] {
+    const timestamps = store.get(key);
+    if (!timestamps) return [];
+
+    const firstRecent = timestamps.findIndex(timestamp => timestamp > now - windowMs);
+    if (firstRecent === -1) {
+      store.delete(key);
+      return [];
+    }
+    if (firstRecent > 0) timestamps.splice(0, firstRecent);
+    return timestamps;
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    const longestWindowMs = Math.max(
+      INVALID_CODE_WINDOW_MS,
+      ...Object.values(ROUTE_BUDGETS).flatMap(({ ip, code }) => [ip.windowMs, code?.windowMs ?? 0])
+    );
+    for (const store of [this.hits, this.invalidCodes]) {
+      for (const [key, timestamps] of store) {
+        if (timestamps[timestamps.length - 1] <= now - longestWindowMs) store.delete(key);
+      }
+    }
+    for (const [ip, until] of this.blockedUntil) {
+      if (until <= now) this.blockedUntil.delete(ip);
+    }
+  }
+}
+
+/**
+ * A 429 response in the route's own error shape, with `Retry-After` set.
+ */
+export const rateLimitedResponse = (result: RateLimitResult, body: Record<string, unknown>): NextResponse =>
+  NextResponse.json(body, {
+    status: 429,
+    headers: { 'Retry-After': String(Math.max(result.retryAfterSeconds, 1)) },
+  });
+
+/**
+ * The message shown to the student for a rejected request.
+ */
+export const rateLimitMessage = (result: RateLimitResult): string =>
+  result.reason === 'blocked'
+    ? `Too many unrecognised registration codes were tried from your network. Please try again in ${Math.ceil(result.retryAfterSeconds / 60)} minutes.`
+    : `Too many requests. Please wait ${result.retryAfterSeconds} seconds and try again.`;
+
+// Module-level singleton so the counts live as long as the server process
+export const rateLimiter = new RateLimiter();
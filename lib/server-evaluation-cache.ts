@@ -0,0 +1,76 @@
+// lib/server-evaluation-cache.ts
+// Optional in-memory cache of evaluations on the server, shared by everyone using the deployment.
+// Enabled by setting NEXT_PUBLIC_EVALUATION_CACHE_SIZE to the number of evaluations to keep.
+import { createHash } from 'node:crypto';
+import { normalizeCodeForCacheKey } from '@/lib/answer-similarity';
+import type { EvaluationInput, EvaluationResponse } from '@/lib/evaluation-provider';
+
+// --- INTERFACES ---
+interface CacheEntry {
+  response: EvaluationResponse;
+  cachedAt: number;
+}
+
+// --- CONFIGURATION ---
+const MAX_ENTRIES = Number.parseInt(process.env.NEXT_PUBLIC_EVALUATION_CACHE_SIZE || '0', 10) || 0;
+
+class ServerEvaluationCache {
+  // Map keeps insertion order, so the first key is always the least recently used
+  private entries = new Map<string, CacheEntry>();
+
+  isEnabled(): boolean {
+    return MAX_ENTRIES > 0;
+  }
+
+  /**
+   * Key on everything the prompt is built from, with the code normalized so trailing whitespace
+   * changes still hit.
+   */
+  key(provider: string, model: string | undefined, input: EvaluationInput): string {
+    const { executionResult } = input;
+    return createHash('sha256')
+      .update(JSON.stringify([
+        provider,
+        model ?? '',
+        input.instruction,
+        input.expectedSolution,
+        normalizeCodeForCacheKey(input.userCode),
+        input.language ?? '',
+        input.context ?? '',
+        input.promptTemplate?.id ?? '',
+        executionResult?.output ?? '',
+        executionResult?.error ?? '',
+        executionResult?.passedTests ?? null,
+        executionResult?.totalTests ?? null,
+      ]))
+      .digest('hex');
+  }
+
+  /**
+   * The cached response, stamped with `cachedAt` so the client can show when it was evaluated.
+   */
+  get(key: string): EvaluationResponse | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { ...entry.response, cachedAt: entry.cachedAt };
+  }
+
+  set(key: string, response: EvaluationResponse): void {
+    if (!this.isEnabled() || !response.success) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { response, cachedAt: Date.now() });
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Module-level singleton so the cache lives as long as the server process
+export const serverEvaluationCache = new ServerEvaluationCache();
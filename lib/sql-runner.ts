@@ -0,0 +1,150 @@
+// lib/sql-runner.ts
+// Browser-side client for the SQLite worker in public/workers/sql-worker.js.
+import type { ExecutionResult } from '@/types/challenge';
+
+// --- INTERFACES ---
+interface PendingRun {
+  resolve: (result: ExecutionResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type WorkerRequest =
+  | { type: 'preload' }
+  | { type: 'run'; code: string; seedSql?: string; solution?: string };
+
+type WorkerMessage =
+  | { id: number; type: 'ready' }
+  | { id: number; type: 'result'; result: ExecutionResult }
+  | { id: number; type: 'error'; message: string };
+
+// --- CONFIGURATION ---
+const WORKER_URL = '/workers/sql-worker.js';
+// Practice tables are small; a query running this long is a runaway recursive CTE or cross join
+export const DEFAULT_QUERY_TIMEOUT_MS = 5000;
+const RUNTIME_LOAD_TIMEOUT_MS = 30000;
+
+class SqlRunner {
+  private worker: Worker | null = null;
+  private runtimeReady: Promise<void> | null = null;
+  private pending = new Map<number, PendingRun>();
+  private nextId = 1;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Start the worker and load sql.js ahead of the first query.
+   */
+  preload(): Promise<void> {
+    if (!this.runtimeReady) {
+      this.runtimeReady = this.send({ type: 'preload' }, RUNTIME_LOAD_TIMEOUT_MS)
+        .then(() => undefined)
+        .catch(error => {
+          this.runtimeReady = null;
+          throw error;
+        });
+    }
+    return this.runtimeReady;
+  }
+
+  /**
+   * Run a query on a database freshly filled by `seedSql`. With a reference `solution`, the result
+   * carries one test that passes when both queries return the same rows.
+   */
+  async run(code: string, seedSql?: string, solution?: string, timeoutMs = DEFAULT_QUERY_TIMEOUT_MS): Promise<ExecutionResult> {
+    if (!this.isSupported()) {
+      return { error: 'SQL execution is not supported in this browser.' };
+    }
+
+    try {
+      await this.preload();
+    } catch (error) {
+      return { error: `SQL runtime failed to load: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+
+    try {
+      return await this.send({ type: 'run', code, seedSql, solution }, timeoutMs);
+    } catch (error) {
+      if (error instanceof QueryTimeoutError) {
+        return {
+          error: `Query timed out after ${Math.round(timeoutMs / 1000)} seconds. Check for joins without a condition or recursion that never ends.`,
+          executionTime: timeoutMs,
+          timedOut: true,
+          ...(solution && { passedTests: 0, totalTests: 1 }),
+        };
+      }
+      return { error: error instanceof Error ? error.message : 'Query failed' };
+    }
+  }
+
+  private send(message: WorkerRequest, timeoutMs: number): Promise<ExecutionResult> {
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise<ExecutionResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        // sql.js runs synchronously inside the worker, so the only way to stop a query is to drop it
+        this.terminate();
+        reject(new QueryTimeoutError());
+      }, timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+      worker.postMessage({ id, ...message });
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(WORKER_URL);
+      this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('❌ [SqlRunner] Worker error:', event.message);
+        this.failAll(new Error(event.message || 'SQL worker crashed'));
+        this.terminate();
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+
+    if (message.type === 'error') {
+      pending.reject(new Error(message.message));
+    } else {
+      pending.resolve(message.type === 'result' ? message.result : {});
+    }
+  }
+
+  private failAll(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.runtimeReady = null;
+    this.failAll(new Error('SQL worker was restarted'));
+  }
+}
+
+class QueryTimeoutError extends Error {
+  constructor() {
+    super('Query timed out');
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+// Create singleton instance
+export const sqlRunner = new SqlRunner();
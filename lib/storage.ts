@@ -3,9 +3,6 @@ import localforage from 'localforage';
 
 // Storage keys
 export const STORAGE_KEYS = {
-  // API Configuration
-  API_KEY: 'gemini_api_key',
-  
   // App Settings
   THEME: 'app_theme',
   TTS_ENABLED: 'tts_enabled',
@@ -24,6 +21,9 @@ export const STORAGE_KEYS = {
   CURRENT_SESSION: 'current_practice_session',
   SESSION_PROGRESS: 'session_progress',
   
+  // Graded Quiz
+  GRADED_QUIZ_PROGRESS: 'graded_quiz_progress',
+  
   // Analytics & Usage
   USAGE_STATS: 'usage_statistics',
   LAST_ACTIVE: 'last_active_time',
@@ -43,6 +43,27 @@ export const STORAGE_KEYS = {
   NOTIFICATION_SCHEDULE: 'notification_schedule',
 } as const;
 
+// Preferences carried by a full-app backup. Graded quiz attempts (tied to server sessions) and
+// device bookkeeping such as the data version stay on the device.
+export const BACKUP_PREFERENCE_KEYS: readonly string[] = [
+  STORAGE_KEYS.THEME,
+  STORAGE_KEYS.TTS_ENABLED,
+  STORAGE_KEYS.TTS_RATE,
+  STORAGE_KEYS.TTS_PITCH,
+  STORAGE_KEYS.AUTO_PLAY,
+  STORAGE_KEYS.DIFFICULTY,
+  STORAGE_KEYS.LANGUAGE,
+  STORAGE_KEYS.LAST_CATEGORY,
+  STORAGE_KEYS.RECENT_CATEGORIES,
+  STORAGE_KEYS.FAVORITE_CHALLENGES,
+  STORAGE_KEYS.USAGE_STATS,
+  STORAGE_KEYS.SIDEBAR_COLLAPSED,
+  STORAGE_KEYS.CODE_EDITOR_THEME,
+  STORAGE_KEYS.FONT_SIZE,
+  STORAGE_KEYS.NOTIFICATIONS_ENABLED,
+  STORAGE_KEYS.NOTIFICATION_SCHEDULE,
+];
+
 // Default values
 const DEFAULT_VALUES = {
   [STORAGE_KEYS.THEME]: 'system',
@@ -82,6 +103,18 @@ export interface RecentCategory {
   challengeCount: number;
 }
 
+// In-progress graded quiz attempts, keyed by session token
+export interface GradedQuizProgressEntry {
+  sessionToken: string;
+  quizId: string;
+  quizTitle: string;
+  registrationCode: string;
+  startTime: number;
+  timeLimit: number;
+  submitted?: boolean;
+  savedAt?: number;
+}
+
 export interface NotificationSchedule {
   enabled: boolean;
   time: string; // HH:MM format
@@ -93,6 +126,8 @@ class StorageService {
   private storage: Storage | null = null;
   private isInitialized = false;
   private useLocalForage = true;
+  // Progress saves are read-modify-write, so run them one at a time
+  private gradedQuizProgressQueue: Promise<void> = Promise.resolve();
 
   async initialize(config?: StorageConfig): Promise<void> {
     if (this.isInitialized) return;
@@ -207,35 +242,6 @@ class StorageService {
     }
   }
 
-  // ===== API KEY MANAGEMENT =====
-
-  async getApiKey(): Promise<string | null> {
-    return this.getItem<string | null>(STORAGE_KEYS.API_KEY, null);
-  }
-
-  async saveApiKey(apiKey: string): Promise<void> {
-    // Basic validation
-    if (!apiKey || typeof apiKey !== 'string') {
-      throw new Error('Invalid API key');
-    }
-
-    // Additional validation for Gemini API key format
-    if (!apiKey.startsWith('AIza')) {
-      console.warn('API key does not match expected Gemini format');
-    }
-
-    await this.setItem(STORAGE_KEYS.API_KEY, apiKey);
-  }
-
-  async removeApiKey(): Promise<void> {
-    await this.removeItem(STORAGE_KEYS.API_KEY);
-  }
-
-  async hasApiKey(): Promise<boolean> {
-    const apiKey = await this.getApiKey();
-    return !!apiKey && apiKey.length > 0;
-  }
-
   // ===== APP SETTINGS =====
 
   async getTheme(): Promise<string> {
@@ -433,6 +439,37 @@ class StorageService {
     await this.setItem(STORAGE_KEYS.SESSION_PROGRESS, progress);
   }
 
+  // ===== GRADED QUIZ PROGRESS =====
+
+  async getGradedQuizProgress<T extends GradedQuizProgressEntry>(): Promise<T[]> {
+    const progress = await this.getItem<Record<string, T>>(STORAGE_KEYS.GRADED_QUIZ_PROGRESS, {});
+    return Object.values(progress);
+  }
+
+  async saveGradedQuizProgress<T extends GradedQuizProgressEntry>(session: T): Promise<void> {
+    await this.updateGradedQuizProgress((progress) => {
+      progress[session.sessionToken] = { ...session, savedAt: Date.now() };
+    });
+  }
+
+  async clearGradedQuizProgress(sessionToken: string): Promise<void> {
+    await this.updateGradedQuizProgress((progress) => {
+      delete progress[sessionToken];
+    });
+  }
+
+  private updateGradedQuizProgress(update: (progress: Record<string, GradedQuizProgressEntry>) => void): Promise<void> {
+    const run = async () => {
+      const progress = await this.getItem<Record<string, GradedQuizProgressEntry>>(STORAGE_KEYS.GRADED_QUIZ_PROGRESS, {});
+      update(progress);
+      await this.setItem(STORAGE_KEYS.GRADED_QUIZ_PROGRESS, progress);
+    };
+
+    const result = this.gradedQuizProgressQueue.then(run);
+    this.gradedQuizProgressQueue = result.catch(() => undefined);
+    return result;
+  }
+
   // ===== NOTIFICATION SETTINGS =====
 
   async getNotificationSchedule(): Promise<NotificationSchedule> {
@@ -488,11 +525,16 @@ class StorageService {
     await this.setItem(STORAGE_KEYS.LAST_BACKUP, Date.now());
   }
 
-  async getDataVersion(): Promise<string> {
-    return this.getItem(STORAGE_KEYS.DATA_VERSION, '1.0.0');
+  /**
+   * Schema version of the practice data, advanced by the migrations in lib/practice-store.ts.
+   * Data from before versioning, including backups that stored "1.0.0", is version 1.
+   */
+  async getDataVersion(): Promise<number> {
+    const version = await this.getItem<number | string>(STORAGE_KEYS.DATA_VERSION, 1);
+    return typeof version === 'number' ? version : Number.parseInt(version, 10) || 1;
   }
 
-  async setDataVersion(version: string): Promise<void> {
+  async setDataVersion(version: number): Promise<void> {
     await this.setItem(STORAGE_KEYS.DATA_VERSION, version);
   }
 
@@ -538,36 +580,32 @@ class StorageService {
     return data;
   }
 
-  async exportData(): Promise<string> {
-    const data = await this.getAllData();
-    return JSON.stringify({
-      data,
-      exportDate: new Date().toISOString(),
-      version: await this.getDataVersion()
-    }, null, 2);
+  /**
+   * The BACKUP_PREFERENCE_KEYS that are set on this device.
+   */
+  async exportPreferences(): Promise<Record<string, unknown>> {
+    const preferences: Record<string, unknown> = {};
+
+    for (const key of BACKUP_PREFERENCE_KEYS) {
+      const value = await this.getItem<unknown>(key, null);
+      if (value !== null) preferences[key] = value;
+    }
+
+    return preferences;
   }
 
-  async importData(jsonData: string): Promise<void> {
-    try {
-      const { data, version } = JSON.parse(jsonData);
-      
-      // Clear existing data
-      await this.clear();
-      
-      // Import new data
-      for (const [key, value] of Object.entries(data)) {
-        await this.setItem(key, value);
-      }
-      
-      // Update data version if provided
-      if (version) {
-        await this.setDataVersion(version);
+  /**
+   * Make the backed-up preferences match `preferences`: keys it has are written, keys it lacks are
+   * removed. Anything outside BACKUP_PREFERENCE_KEYS is ignored, so a backup cannot overwrite the
+   * API key or the data version.
+   */
+  async importPreferences(preferences: Record<string, unknown>): Promise<void> {
+    for (const key of BACKUP_PREFERENCE_KEYS) {
+      if (key in preferences) {
+        await this.setItem(key, preferences[key]);
+      } else {
+        await this.removeItem(key);
       }
-      
-      await this.updateLastBackupTime();
-    } catch (error) {
-      console.error('Failed to import data:', error);
-      throw new Error('Invalid backup file format');
     }
   }
 
@@ -602,6 +640,3 @@ export default storageService;
 
 // Also export as named export for backward compatibility
 export { storageService };
-
-export const getApiKey = storageService.getApiKey.bind(storageService);
-export const saveApiKey = storageService.saveApiKey.bind(storageService);
@@ -0,0 +1,87 @@
+// lib/tab-coordinator.ts
+// Keeps DeamV tabs in the same browser in step. Writes to the practice database run under a Web
+// Lock, so two tabs never interleave a read-modify-write, and changes are announced to the other
+// tabs on a BroadcastChannel.
+
+// --- INTERFACES ---
+export type TabMessage =
+  // A practice page for `category` was opened, or taken back, in another tab
+  | { type: 'session-opened'; category: string; tabId: string }
+  // The in-progress session for `category` was saved or removed; null means any number of categories
+  | { type: 'active-sessions-changed'; category: string | null; tabId: string };
+
+export type TabMessageListener = (message: TabMessage) => void;
+
+// --- CONFIGURATION ---
+const CHANNEL_NAME = 'deamv-practice';
+const LOCK_PREFIX = 'deamv-practice:';
+
+const createTabId = (): string =>
+  globalThis.crypto?.randomUUID?.() ?? `tab_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+// --- TAB COORDINATOR CLASS ---
+class TabCoordinator {
+  readonly tabId = createTabId();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabMessageListener>();
+  // Without the Web Locks API, writes are at least run one at a time within this tab
+  private fallbackQueues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `operation` while holding the lock `name`, waiting for any other tab that holds it.
+   * Locks are not re-entrant: `operation` must not take the same lock again.
+   */
+  withLock<T>(name: string, operation: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      // Resolves with what `operation` resolves with, once the lock is released
+      return navigator.locks.request(`${LOCK_PREFIX}${name}`, operation) as Promise<T>;
+    }
+
+    const result = (this.fallbackQueues.get(name) ?? Promise.resolve()).then(operation);
+    this.fallbackQueues.set(name, result.catch(() => undefined));
+    return result;
+  }
+
+  /**
+   * Listen for messages from other tabs. Returns the function that stops listening.
+   */
+  subscribe(listener: TabMessageListener): () => void {
+    this.getChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  announceSessionOpened(category: string): void {
+    this.post({ type: 'session-opened', category, tabId: this.tabId });
+  }
+
+  notifyActiveSessionsChanged(category: string | null): void {
+    this.post({ type: 'active-sessions-changed', category, tabId: this.tabId });
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.getChannel()?.postMessage(message);
+    } catch (error) {
+      console.warn('⚠️ [TabCoordinator] Could not notify other tabs:', error);
+    }
+  }
+
+  private getChannel(): BroadcastChannel | null {
+    if (this.channel || typeof BroadcastChannel === 'undefined') return this.channel;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      if (event.data.tabId === this.tabId) return;
+      for (const listener of this.listeners) {
+        listener(event.data);
+      }
+    };
+    return this.channel;
+  }
+}
+
+// Create singleton instance
+export const tabCoordinator = new TabCoordinator();
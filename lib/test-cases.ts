@@ -0,0 +1,80 @@
+// lib/test-cases.ts
+// Parsing and grading helpers for the deterministic test cases attached to practice challenges.
+import { type ExecutionResult, type TestCase, TestCaseSchema } from '@/types/challenge';
+
+// --- INTERFACES ---
+export interface TestCaseParseResult {
+  testCases: TestCase[];
+  error?: string;
+}
+
+export interface TestGrade {
+  isCorrect: boolean;
+  score: number;
+  verdict: 'CORRECT' | 'INCORRECT' | 'PARTIAL';
+}
+
+// --- CONFIGURATION ---
+const MAX_TEST_CASES = 20;
+
+/**
+ * Parse the `TestCases` column of a challenge file: a JSON array of
+ * `{ "input": "...", "expectedOutput": "...", "description": "..." }` objects.
+ * An empty cell means the challenge has no tests.
+ */
+export const parseTestCases = (raw: string | undefined): TestCaseParseResult => {
+  const text = raw?.trim();
+  if (!text) return { testCases: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { testCases: [], error: 'Test cases are not valid JSON' };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { testCases: [], error: 'Test cases must be a JSON array' };
+  }
+  if (parsed.length > MAX_TEST_CASES) {
+    return { testCases: [], error: `Too many test cases (maximum ${MAX_TEST_CASES})` };
+  }
+
+  const testCases: TestCase[] = [];
+  for (const [index, entry] of parsed.entries()) {
+    const result = TestCaseSchema.safeParse(entry);
+    if (!result.success) {
+      const field = result.error.issues[0]?.path[0];
+      return {
+        testCases: [],
+        error: field === undefined ? `Test case ${index + 1} must be an object` : `Test case ${index + 1} is missing "${String(field)}"`,
+      };
+    }
+
+    const { input, expectedOutput, description } = result.data;
+    testCases.push({
+      input,
+      expectedOutput,
+      ...(description?.trim() && { description: description.trim() }),
+    });
+  }
+
+  return { testCases };
+};
+
+/**
+ * Grade a submission from its test run. Returns null when no tests were run, so callers
+ * fall back to the evaluator's own verdict.
+ */
+export const gradeFromTests = (result: ExecutionResult | null | undefined): TestGrade | null => {
+  if (!result?.totalTests) return null;
+
+  const passed = result.passedTests ?? 0;
+  const score = Math.round((passed / result.totalTests) * 100);
+
+  return {
+    isCorrect: passed === result.totalTests,
+    score,
+    verdict: passed === result.totalTests ? 'CORRECT' : passed > 0 ? 'PARTIAL' : 'INCORRECT',
+  };
+};
@@ -0,0 +1,189 @@
+// public/workers/python-worker.js
+// Runs practice answers in Pyodide, off the main thread and without DOM access.
+// The page terminates this worker when a run exceeds its timeout.
+/* global importScripts, loadPyodide */
+
+const PYODIDE_BASE_URL = '/pyodide/';
+// Keep runaway print loops from flooding the page and the evaluator prompt
+const MAX_OUTPUT_CHARS = 10000;
+
+importScripts(`${PYODIDE_BASE_URL}pyodide.js`);
+
+let pyodideReady = null;
+
+const getPyodide = () => {
+  if (!pyodideReady) {
+    pyodideReady = loadPyodide({ indexURL: PYODIDE_BASE_URL });
+  }
+  return pyodideReady;
+};
+
+const truncate = (text) =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n... output truncated ...` : text;
+
+// Run one snippet in the given namespace, capturing what it prints and the value of a trailing expression
+const execute = async (pyodide, code, globals) => {
+  let output = '';
+  let errorOutput = '';
+
+  pyodide.setStdout({ batched: (line) => { output += `${line}\n`; } });
+  pyodide.setStderr({ batched: (line) => { errorOutput += `${line}\n`; } });
+
+  try {
+    const result = await pyodide.runPythonAsync(code, { globals });
+
+    // Echo the value of a trailing expression, the way a notebook cell would
+    if (result !== undefined && result !== null) {
+      const pyRepr = pyodide.globals.get('repr');
+      output += `${result instanceof pyodide.ffi.PyProxy ? pyRepr(result) : String(result)}\n`;
+      pyRepr.destroy();
+      if (result instanceof pyodide.ffi.PyProxy) result.destroy();
+    }
+
+    return { output, error: errorOutput || undefined, raised: false };
+  } catch (error) {
+    // PythonError messages carry the full traceback
+    return { output, error: `${errorOutput}${error instanceof Error ? error.message : String(error)}`, raised: true };
+  }
+};
+
+// Compare outputs line by line, ignoring trailing whitespace and line-ending differences
+const normalizeOutput = (text) =>
+  text.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+
+const runCode = async (code) => {
+  const pyodide = await getPyodide();
+  // Fresh globals per run so one attempt cannot leak variables into the next
+  const globals = pyodide.globals.get('dict')();
+  const startTime = performance.now();
+
+  try {
+    const { output, error } = await execute(pyodide, code, globals);
+    return {
+      output: truncate(output),
+      error: error ? truncate(error) : undefined,
+      executionTime: Math.round(performance.now() - startTime),
+    };
+  } finally {
+    globals.destroy();
+  }
+};
+
+// Run the student's code, then each test's input in the same namespace
+const runTests = async (code, testCases) => {
+  const pyodide = await getPyodide();
+  const globals = pyodide.globals.get('dict')();
+  const startTime = performance.now();
+
+  try {
+    const submission = await execute(pyodide, code, globals);
+    const testResults = [];
+
+    for (const testCase of testCases) {
+      if (submission.raised) {
+        testResults.push({
+          description: testCase.description,
+          passed: false,
+          expectedOutput: testCase.expectedOutput,
+          actualOutput: '',
+          error: 'Your code raised an error before this test could run.',
+        });
+        continue;
+      }
+
+      const run = await execute(pyodide, testCase.input, globals);
+      const actualOutput = normalizeOutput(run.output);
+      testResults.push({
+        description: testCase.description,
+        passed: !run.raised && actualOutput === normalizeOutput(testCase.expectedOutput),
+        expectedOutput: testCase.expectedOutput,
+        actualOutput: truncate(actualOutput),
+        error: run.raised ? truncate(run.error) : undefined,
+      });
+    }
+
+    return {
+      output: truncate(submission.output),
+      error: submission.error ? truncate(submission.error) : undefined,
+      executionTime: Math.round(performance.now() - startTime),
+      passedTests: testResults.filter(result => result.passed).length,
+      totalTests: testResults.length,
+      testResults,
+    };
+  } finally {
+    globals.destroy();
+  }
+};
+
+// Structural similarity of two programs: the sequence of AST node types, so renamed
+// variables and different literals do not count as differences
+const AST_SIMILARITY_SOURCE = `
+import ast, difflib
+
+def _node_types(source):
+    return [type(node).__name__ for node in ast.walk(ast.parse(source))]
+
+def ast_similarity(a, b):
+    try:
+        return difflib.SequenceMatcher(None, _node_types(a), _node_types(b)).ratio()
+    except SyntaxError:
+        return None
+`;
+
+const compareStructure = async (code, solution) => {
+  const pyodide = await getPyodide();
+  const globals = pyodide.globals.get('dict')();
+
+  try {
+    pyodide.runPython(AST_SIMILARITY_SOURCE, { globals });
+    const astSimilarity = globals.get('ast_similarity');
+    const similarity = astSimilarity(code, solution);
+    astSimilarity.destroy();
+    // Python's None arrives as undefined
+    return typeof similarity === 'number' ? similarity : null;
+  } finally {
+    globals.destroy();
+  }
+};
+
+self.onmessage = async (event) => {
+  const { id, type, code, testCases, solution } = event.data;
+
+  try {
+    if (type === 'preload') {
+      await getPyodide();
+      self.postMessage({ id, type: 'ready' });
+      return;
+    }
+
+    if (type === 'prepare') {
+      const pyodide = await getPyodide();
+      await pyodide.loadPackagesFromImports(code);
+      self.postMessage({ id, type: 'ready' });
+      return;
+    }
+
+    if (type === 'run') {
+      const result = await runCode(code);
+      self.postMessage({ id, type: 'result', result });
+      return;
+    }
+
+    if (type === 'test') {
+      const result = await runTests(code, testCases);
+      self.postMessage({ id, type: 'result', result });
+      return;
+    }
+
+    if (type === 'compare') {
+      const similarity = await compareStructure(code, solution);
+      self.postMessage({ id, type: 'similarity', similarity });
+    }
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to start the Python runtime',
+    });
+  }
+};
@@ -0,0 +1,156 @@
+// public/workers/sql-worker.js
+// Runs SQL practice answers against an in-browser SQLite database (sql.js). Every run starts
+// from an empty database filled by the challenge's seed statements.
+// The page terminates this worker when a run exceeds its timeout.
+/* global importScripts, initSqlJs */
+
+const SQLJS_BASE_URL = '/sqljs/';
+// Keep huge result sets from flooding the page and the evaluator prompt
+const MAX_OUTPUT_CHARS = 10000;
+// Rows shown in the output table; the comparison with the reference solution uses every row
+const MAX_DISPLAY_ROWS = 50;
+const ORDER_BY_PATTERN = /\border\s+by\b/i;
+
+importScripts(`${SQLJS_BASE_URL}sql-wasm.js`);
+
+let sqlReady = null;
+
+const getSql = () => {
+  if (!sqlReady) {
+    sqlReady = initSqlJs({ locateFile: (file) => `${SQLJS_BASE_URL}${file}` });
+  }
+  return sqlReady;
+};
+
+const truncate = (text) =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n... output truncated ...` : text;
+
+class SeedError extends Error {}
+
+// Run the statements on a freshly seeded database and return the last result set they produced
+const query = (SQL, seedSql, code) => {
+  const db = new SQL.Database();
+
+  try {
+    if (seedSql) {
+      try {
+        db.run(seedSql);
+      } catch (error) {
+        throw new SeedError(`The challenge's seed schema failed to load: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const results = db.exec(code);
+    return results.length > 0 ? results[results.length - 1] : null;
+  } finally {
+    db.close();
+  }
+};
+
+const formatValue = (value) => {
+  if (value === null) return 'NULL';
+  // Round away floating-point noise, so AVG() and SUM()/COUNT() agree
+  if (typeof value === 'number') return String(Math.round(value * 1e6) / 1e6);
+  return String(value);
+};
+
+const formatTable = (resultSet) => {
+  if (!resultSet) return '';
+
+  const lines = [resultSet.columns.join(' | ')];
+  for (const row of resultSet.values.slice(0, MAX_DISPLAY_ROWS)) {
+    lines.push(row.map(formatValue).join(' | '));
+  }
+  if (resultSet.values.length > MAX_DISPLAY_ROWS) {
+    lines.push(`... ${resultSet.values.length - MAX_DISPLAY_ROWS} more rows`);
+  }
+  lines.push(`(${resultSet.values.length} row${resultSet.values.length === 1 ? '' : 's'})`);
+  return lines.join('\n');
+};
+
+// Column names are not compared, since aliases are a matter of taste unless the instruction says
+// otherwise. Row order only counts when the reference solution sorts its result.
+const sameResults = (actual, expected, ordered) => {
+  if (!actual || !expected) return actual === expected;
+  if (actual.columns.length !== expected.columns.length) return false;
+
+  const rows = (resultSet) => resultSet.values.map(row => JSON.stringify(row.map(formatValue)));
+  const actualRows = rows(actual);
+  const expectedRows = rows(expected);
+  if (!ordered) {
+    actualRows.sort();
+    expectedRows.sort();
+  }
+
+  return actualRows.length === expectedRows.length && actualRows.every((row, index) => row === expectedRows[index]);
+};
+
+const runQuery = async (code, seedSql, solution) => {
+  const SQL = await getSql();
+  const startTime = performance.now();
+
+  let actual = null;
+  let error;
+  try {
+    actual = query(SQL, seedSql, code);
+  } catch (queryError) {
+    error = queryError instanceof Error ? queryError.message : String(queryError);
+    // A broken seed is the challenge's fault, not the student's, so nothing is graded
+    if (queryError instanceof SeedError) {
+      return { output: '', error };
+    }
+  }
+
+  const result = {
+    output: truncate(formatTable(actual)),
+    error: error ? truncate(error) : undefined,
+    executionTime: Math.round(performance.now() - startTime),
+  };
+  if (!solution) return result;
+
+  let expected;
+  try {
+    expected = query(SQL, seedSql, solution);
+  } catch (solutionError) {
+    // Grade without a comparison rather than fail the student for a broken reference query
+    console.warn('[SqlWorker] Reference solution failed:', solutionError);
+    return result;
+  }
+
+  const passed = !error && sameResults(actual, expected, ORDER_BY_PATTERN.test(solution));
+  return {
+    ...result,
+    passedTests: passed ? 1 : 0,
+    totalTests: 1,
+    testResults: [{
+      description: 'Query result matches the reference solution',
+      passed,
+      expectedOutput: truncate(formatTable(expected)),
+      actualOutput: result.output,
+      error: error ? 'Your query raised an error.' : undefined,
+    }],
+  };
+};
+
+self.onmessage = async (event) => {
+  const { id, type, code, seedSql, solution } = event.data;
+
+  try {
+    if (type === 'preload') {
+      await getSql();
+      self.postMessage({ id, type: 'ready' });
+      return;
+    }
+
+    if (type === 'run') {
+      const result = await runQuery(code, seedSql, solution);
+      self.postMessage({ id, type: 'result', result });
+    }
+  } catch (error) {
+    self.postMessage({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to start the SQL runtime',
+    });
+  }
+};
@@ -0,0 +1,51 @@
+// types/backup.ts - Full-app backup file, written and restored from the Settings screen
+import { z } from 'zod';
+import {
+  AppSettingsSchema,
+  DataScienceChallengeSchema,
+  PracticeSessionSchema,
+  UserProgressSchema,
+} from '@/types/challenge';
+import { PendingRegradeSchema, PendingUploadSchema } from '@/types/practice';
+
+export const BACKUP_FORMAT = 'deamv-backup';
+
+// Bump when the file layout changes, and teach lib/backup.ts to read the older layout
+export const BACKUP_VERSION = 1;
+
+// Everything PracticeDatabase keeps: the object stores plus progress and settings
+export const PracticeDataSnapshotSchema = z.object({
+  challenges: z.array(DataScienceChallengeSchema),
+  sessions: z.array(PracticeSessionSchema),
+  // Keyed by category, like the active sessions store
+  activeSessions: z.record(z.string(), PracticeSessionSchema),
+  pendingUploads: z.array(PendingUploadSchema),
+  pendingRegrades: z.array(PendingRegradeSchema),
+  progress: UserProgressSchema.nullable(),
+  settings: AppSettingsSchema.nullable(),
+});
+export type PracticeDataSnapshot = z.infer<typeof PracticeDataSnapshotSchema>;
+
+export const BackupDataSchema = PracticeDataSnapshotSchema.extend({
+  // StorageService preferences, keyed by their STORAGE_KEYS value
+  preferences: z.record(z.string(), z.unknown()),
+  // Plain text, and only there when the student chose to include it
+  apiKey: z.string().min(1).optional(),
+});
+export type BackupData = z.infer<typeof BackupDataSchema>;
+
+export const BackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  // Practice data schema version (SCHEMA_VERSION in lib/practice-store.ts) the data was written with
+  dataVersion: z.number().int().positive(),
+  createdAt: z.string(),
+  // Hex SHA-256 of `data` exactly as it appears in the file
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+  data: BackupDataSchema,
+});
+export type Backup = z.infer<typeof BackupSchema>;
+
+// Merge keeps everything on this device and adds what it is missing; replace makes the device match the backup
+export const RestoreModeSchema = z.enum(['merge', 'replace']);
+export type RestoreMode = z.infer<typeof RestoreModeSchema>;
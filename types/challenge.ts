@@ -1,52 +1,120 @@
-// types/challenge.ts - TypeScript interfaces for data structures
+// types/challenge.ts - Shared practice domain model
+// Domain types are inferred from their zod schemas, so the compile-time type and the runtime
+// validator cannot drift apart. Validate with `Schema.safeParse()` wherever data crosses a boundary.
+import { z } from 'zod';
 
-// Base challenge interface
-export interface BaseChallenge {
-  id: string;
-  instruction: string;
-  solution: string;
-  category: string;
-  difficulty?: ChallengeDifficulty;
-  estimatedTime?: number; // in minutes
-  tags?: string[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+// Languages a practice challenge can be written in; challenges without one are Python
+export const ChallengeLanguageSchema = z.enum(['python', 'r', 'sql']);
+export type ChallengeLanguage = z.infer<typeof ChallengeLanguageSchema>;
+
+// Challenge difficulty levels
+export const ChallengeDifficultySchema = z.enum(['beginner', 'intermediate', 'advanced']);
+export type ChallengeDifficulty = z.infer<typeof ChallengeDifficultySchema>;
+
+// Test case for code validation. `input` runs after the student's code in the same namespace;
+// what it prints (or the value of its last expression) must equal `expectedOutput`.
+export const TestCaseSchema = z.object({
+  input: z.string().refine(input => input.trim().length > 0),
+  expectedOutput: z.string(),
+  description: z.string().optional(),
+});
+export type TestCase = z.infer<typeof TestCaseSchema>;
+
+// Base challenge fields. Dates are coerced, so records read back from JSON validate too.
+export const BaseChallengeSchema = z.object({
+  id: z.string().min(1),
+  instruction: z.string(),
+  solution: z.string(),
+  category: z.string(),
+  difficulty: ChallengeDifficultySchema.optional(),
+  estimatedTime: z.number().optional(), // in minutes
+  tags: z.array(z.string()).optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+export type BaseChallenge = z.infer<typeof BaseChallengeSchema>;
 
 // Data Science specific challenge
-export interface DataScienceChallenge extends BaseChallenge {
-  language?: 'python' | 'r' | 'sql';
-  libraries?: string[];
-  testCases?: TestCase[];
-  hints?: string[];
-  explanation?: string;
-}
+export const DataScienceChallengeSchema = BaseChallengeSchema.extend({
+  language: ChallengeLanguageSchema.optional(), // Python when unset
+  libraries: z.array(z.string()).optional(),
+  testCases: z.array(TestCaseSchema).optional(), // When present, these decide whether an answer is correct
+  hints: z.array(z.string()).optional(),
+  explanation: z.string().optional(),
+  seedSql: z.string().optional(), // SQL challenges: statements that create and fill the tables before each run
+});
+export type DataScienceChallenge = z.infer<typeof DataScienceChallengeSchema>;
 
-// Test case for code validation
-export interface TestCase {
-  input: string;
-  expectedOutput: string;
-  description?: string;
-}
+// Practice session interface
+export const PracticeSessionSchema = z.object({
+  id: z.string().min(1),
+  category: z.string(),
+  challenges: z.array(z.string()), // challenge IDs
+  completed: z.array(z.string()), // completed challenge IDs
+  currentIndex: z.number().int().nonnegative(),
+  score: z.number(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date().optional(),
+  isCompleted: z.boolean(),
+});
+export type PracticeSession = z.infer<typeof PracticeSessionSchema>;
 
-// Challenge difficulty levels
-export type ChallengeDifficulty = 'beginner' | 'intermediate' | 'advanced';
+// Category-specific progress
+export const CategoryProgressSchema = z.object({
+  completed: z.number(),
+  total: z.number(),
+  averageScore: z.number(),
+  lastPracticed: z.coerce.date(),
+});
+export type CategoryProgress = z.infer<typeof CategoryProgressSchema>;
 
-// Practice session interface
-export interface PracticeSession {
-  id: string;
-  userId: string;
-  category: string;
-  challenges: string[]; // challenge IDs
-  completed: string[]; // completed challenge IDs
-  currentIndex: number;
-  score: number;
-  startTime: Date;
-  endTime?: Date;
-  isCompleted: boolean;
-  settings: SessionSettings;
-  statistics: SessionStatistics;
-}
+// User progress and analytics
+export const UserProgressSchema = z.object({
+  userId: z.string(),
+  completedChallenges: z.array(z.string()),
+  scores: z.record(z.string(), z.number()),
+  totalPracticeTime: z.number(),
+  categories: z.record(z.string(), CategoryProgressSchema),
+});
+export type UserProgress = z.infer<typeof UserProgressSchema>;
+
+// Application theme
+export const AppThemeSchema = z.enum(['light', 'dark', 'system']);
+export type AppTheme = z.infer<typeof AppThemeSchema>;
+
+// App settings. The API key is kept apart, encrypted, by lib/key-vault.ts.
+export const AppSettingsSchema = z.object({
+  theme: AppThemeSchema,
+  ttsEnabled: z.boolean(),
+  ttsRate: z.number(),
+  ttsPitch: z.number(),
+  autoPlayInstructions: z.boolean(),
+  difficulty: z.union([ChallengeDifficultySchema, z.literal('all')]),
+});
+export type AppSettings = z.infer<typeof AppSettingsSchema>;
+
+// Outcome of a single test case run against the student's code
+export const TestCaseResultSchema = z.object({
+  description: z.string().optional(),
+  passed: z.boolean(),
+  expectedOutput: z.string(),
+  actualOutput: z.string(),
+  error: z.string().optional(),
+});
+export type TestCaseResult = z.infer<typeof TestCaseResultSchema>;
+
+// Code execution result
+export const ExecutionResultSchema = z.object({
+  output: z.string().optional(),
+  error: z.string().optional(),
+  executionTime: z.number().optional(),
+  memoryUsed: z.number().optional(),
+  passedTests: z.number().optional(),
+  totalTests: z.number().optional(),
+  timedOut: z.boolean().optional(),
+  testResults: z.array(TestCaseResultSchema).optional(),
+});
+export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
 
 // Session settings
 export interface SessionSettings {
@@ -68,29 +136,6 @@ export interface SessionStatistics {
   streak: number;
 }
 
-// User progress and analytics
-export interface UserProgress {
-  userId: string;
-  completedChallenges: string[];
-  scores: { [challengeId: string]: number };
-  totalPracticeTime: number;
-  categories: {
-    [category: string]: CategoryProgress;
-  };
-  achievements: Achievement[];
-  preferences: UserPreferences;
-}
-
-// Category-specific progress
-export interface CategoryProgress {
-  completed: number;
-  total: number;
-  averageScore: number;
-  lastPracticed: Date;
-  bestStreak: number;
-  timeSpent: number;
-}
-
 // User preferences
 export interface UserPreferences {
   theme: AppTheme;
@@ -104,9 +149,6 @@ export interface UserPreferences {
   notifications: NotificationSettings;
 }
 
-// Application theme
-export type AppTheme = 'light' | 'dark' | 'system';
-
 // Notification settings
 export interface NotificationSettings {
   enabled: boolean;
@@ -146,28 +188,6 @@ export type AchievementType =
   | 'mastery' 
   | 'special';
 
-// API evaluation response
-export interface EvaluationResponse {
-  success: boolean;
-  feedback: string;
-  isCorrect: boolean;
-  score?: number;
-  suggestions?: string[];
-  errors?: string[];
-  confidence?: number;
-  executionResult?: ExecutionResult;
-}
-
-// Code execution result
-export interface ExecutionResult {
-  output?: string;
-  error?: string;
-  executionTime?: number;
-  memoryUsed?: number;
-  passedTests?: number;
-  totalTests?: number;
-}
-
 // File processing results
 export interface FileProcessingResult {
   success: boolean;
@@ -217,16 +237,6 @@ export interface DailyProgress {
   score: number;
 }
 
-// Code evaluation request
-export interface EvaluationRequest {
-  instruction: string;
-  userCode: string;
-  expectedSolution: string;
-  language?: string;
-  context?: string;
-  testCases?: TestCase[];
-}
-
 // AI model configuration
 export interface AIModelConfig {
   model: string;
@@ -236,20 +246,6 @@ export interface AIModelConfig {
   topK: number;
 }
 
-// App settings
-export interface AppSettings {
-  apiKey?: string;
-  theme: AppTheme;
-  ttsEnabled: boolean;
-  ttsRate: number;
-  ttsPitch: number;
-  autoPlayInstructions: boolean;
-  difficulty: ChallengeDifficulty | 'all';
-  codeEditor: CodeEditorSettings;
-  notifications: NotificationSettings;
-  data: DataSettings;
-}
-
 // Code editor settings
 export interface CodeEditorSettings {
   theme: string;
@@ -330,39 +326,6 @@ export interface SearchFilters {
   sortOrder: 'asc' | 'desc';
 }
 
-// Export/Import data structure
-export interface AppDataExport {
-  version: string;
-  exportDate: string;
-  challenges: DataScienceChallenge[];
-  progress: UserProgress;
-  settings: AppSettings;
-  sessions: PracticeSession[];
-  achievements: Achievement[];
-}
-
-// Type guards for runtime type checking
-export const isDataScienceChallenge = (challenge: any): challenge is DataScienceChallenge => {
-  return challenge && 
-         typeof challenge.instruction === 'string' &&
-         typeof challenge.solution === 'string' &&
-         typeof challenge.category === 'string';
-};
-
-export const isPracticeSession = (session: any): session is PracticeSession => {
-  return session &&
-         typeof session.id === 'string' &&
-         Array.isArray(session.challenges) &&
-         typeof session.currentIndex === 'number';
-};
-
-export const isUserProgress = (progress: any): progress is UserProgress => {
-  return progress &&
-         typeof progress.userId === 'string' &&
-         Array.isArray(progress.completedChallenges) &&
-         typeof progress.totalPracticeTime === 'number';
-};
-
 // Utility types for component props
 export type WithId<T> = T & { id: string };
 export type Optional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
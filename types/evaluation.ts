@@ -0,0 +1,26 @@
+// types/evaluation.ts - What the browser sends to POST /api/evaluate-answer
+import { z } from 'zod';
+import { ExecutionResultSchema } from '@/types/challenge';
+
+export const EvaluationProviderNameSchema = z.enum(['gemini', 'openai', 'ollama', 'llamacpp', 'mock']);
+export type EvaluationProviderName = z.infer<typeof EvaluationProviderNameSchema>;
+
+export const EvaluationRequestSchema = z.object({
+  instruction: z.string().min(1),
+  userCode: z.string().min(1),
+  expectedSolution: z.string().min(1),
+  language: z.string().optional(),
+  context: z.string().optional(),
+  // Practice category of the challenge; picks the prompt template its instructors wrote
+  category: z.string().optional(),
+  apiKey: z.string().optional(),
+  // Output of running userCode in the browser, so the evaluator judges real behaviour. Timings are
+  // dropped: the prompt does not use them and they would make every run a server cache miss.
+  executionResult: ExecutionResultSchema.omit({ executionTime: true, memoryUsed: true }).optional(),
+  // Overrides the deployment's provider and model for this request, where the deployment allows it
+  provider: EvaluationProviderNameSchema.optional(),
+  model: z.string().optional(),
+  // Skip the server's evaluation cache and ask the provider again
+  forceRefresh: z.boolean().optional(),
+});
+export type EvaluationRequest = z.infer<typeof EvaluationRequestSchema>;
@@ -0,0 +1,12 @@
+// types/notebook.ts - Colab notebook submissions sent to POST /api/upload-notebook
+import { z } from 'zod';
+
+export const NotebookUploadSchema = z.object({
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  className: z.string().trim().min(1),
+  notebookUrl: z.string().trim().min(1),
+  // Checked separately by the route, so a missing code gets its own message
+  registrationCode: z.string().trim().default(''),
+});
+export type NotebookUpload = z.infer<typeof NotebookUploadSchema>;
@@ -0,0 +1,84 @@
+// types/practice.ts - Practice session logging: attempts, submitted session data and offline queues
+import { z } from 'zod';
+import { ChallengeLanguageSchema, ExecutionResultSchema, TestCaseSchema } from '@/types/challenge';
+
+// A question as GET /api/practice-questions sends it; the browser stores it as a DataScienceChallenge
+export const PracticeQuestionSchema = z.object({
+  Question: z.string(),
+  Answer: z.string(),
+  Category: z.string(),
+  Type: z.enum(['Practical', 'Theoretical']),
+  TestCases: z.array(TestCaseSchema).optional(),
+  Language: ChallengeLanguageSchema.optional(),
+  Seed: z.string().optional(), // SQL questions: statements that create and fill the tables
+  Tags: z.array(z.string()).optional(),
+  Hints: z.array(z.string()).optional(),
+});
+export type PracticeQuestion = z.infer<typeof PracticeQuestionSchema>;
+
+export const ChallengeAttemptSchema = z.object({
+  challengeId: z.string(),
+  isCorrect: z.boolean(), // Was the *final* attempt correct?
+  trials: z.number().int().nonnegative(), // Total number of submission attempts for this challenge
+  gotOnFirstTrial: z.boolean(),
+  showAnswerClicked: z.boolean(), // Did the user click "Show Answer" or use the equivalent phrase?
+  timeSpentSeconds: z.number().nonnegative(), // Time spent on this specific challenge
+  timestamp: z.coerce.date(),
+  promptTemplateVersion: z.string().optional(), // Evaluation prompt template of the last graded trial, e.g. "sql@v2"
+  incorrectAttempts: z.array(z.object({
+    code: z.string(), // The code submitted for the incorrect trial
+    feedback: z.string(),
+    timestamp: z.coerce.date(),
+  })),
+});
+export type ChallengeAttempt = z.infer<typeof ChallengeAttemptSchema>;
+
+export const PracticeDataPayloadSchema = z.object({
+  sessionId: z.string().min(1),
+  registrationCode: z.string().nullable(), // User's code for tracking
+  category: z.string(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  totalChallenges: z.number().int().nonnegative(),
+  // Summary Stats
+  totalTimeSeconds: z.number().nonnegative(),
+  totalQuestionsCompleted: z.number().int().nonnegative(),
+  totalDontKnows: z.number().int().nonnegative(),
+  totalFirstTrialSuccess: z.number().int().nonnegative(),
+  // Detailed Data
+  attempts: z.array(ChallengeAttemptSchema),
+});
+export type PracticeDataPayload = z.infer<typeof PracticeDataPayloadSchema>;
+
+export const PendingUploadSchema = z.object({
+  id: z.string(),
+  payload: PracticeDataPayloadSchema,
+  attempts: z.number().int().nonnegative(),
+  lastAttempt: z.coerce.date(),
+  status: z.enum(['PENDING', 'FAILED']),
+});
+export type PendingUpload = z.infer<typeof PendingUploadSchema>;
+
+// An answer graded offline, waiting for the AI evaluator to confirm or correct the provisional verdict
+export const PendingRegradeSchema = z.object({
+  id: z.string(),
+  challengeId: z.string(),
+  category: z.string(),
+  instruction: z.string(),
+  userCode: z.string(),
+  expectedSolution: z.string(),
+  language: ChallengeLanguageSchema.optional(),
+  executionResult: ExecutionResultSchema.optional(),
+  provisionalVerdict: z.enum(['CORRECT', 'INCORRECT', 'PARTIAL']),
+  provisionalScore: z.number(),
+  attempts: z.number().int().nonnegative(),
+  createdAt: z.coerce.date(),
+  lastAttempt: z.coerce.date().optional(),
+  status: z.enum(['PENDING', 'REGRADED']),
+  result: z.object({
+    isCorrect: z.boolean(),
+    score: z.number().optional(),
+    feedback: z.string(),
+  }).optional(),
+});
+export type PendingRegrade = z.infer<typeof PendingRegradeSchema>;
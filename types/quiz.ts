@@ -1,28 +1,111 @@
-// types/quiz.ts
-export interface QuizQuestion {
-  Question: string;
-  Answer: string;
-  Category: string;
-  Type: 'Practical' | 'Theoretical';
-  id?: string;
-}
-
-export interface GradedQuizSession {
-  questions: QuizQuestion[];
-  startTime: number;
-  endTime?: number;
-  registrationCode: string;
-  userAnswers: { [questionIndex: number]: string };
-  currentQuestionIndex: number;
-  timeLimit: number;
-  submitted?: boolean;
-}
-
-export interface QuizSubmission {
-  registrationCode: string;
-  sessionId: string;
-  startTime: string;
-  endTime: string;
-  answers: { [questionIndex: number]: string };
-  totalTime: number;
-}
+// types/quiz.ts - Graded quiz domain model, shared by the quiz routes and the quiz-taking pages
+import { z } from 'zod';
+
+// Practical and Theoretical answers are graded by AI; the rest are auto-scored exactly
+export const QuizQuestionTypeSchema = z.enum(['Practical', 'Theoretical', 'MultipleChoice', 'MultiSelect', 'TrueFalse', 'Numeric']);
+export type QuizQuestionType = z.infer<typeof QuizQuestionTypeSchema>;
+
+// A question as the answer key CSV defines it
+export const QuizQuestionSchema = z.object({
+  id: z.string().min(1),
+  Question: z.string(),
+  Answer: z.string(),
+  Category: z.string(),
+  Type: QuizQuestionTypeSchema,
+  // Choices for MultipleChoice/MultiSelect (answered by letter: A, B, ...), and the allowed error for Numeric answers
+  Options: z.array(z.string()),
+  Tolerance: z.number().nullable(),
+  // Sampling pool (defaults to Category) and how many questions each student draws from it
+  Pool: z.string(),
+  Draw: z.number().int().nullable(),
+});
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+
+// What the quiz-taking flow receives: the answer key and sampling rules never leave the server
+export const RedactedQuizQuestionSchema = QuizQuestionSchema.omit({ Answer: true, Tolerance: true, Pool: true, Draw: true });
+export type RedactedQuizQuestion = z.infer<typeof RedactedQuizQuestionSchema>;
+
+// Answers keyed by question id
+export const QuizAnswersSchema = z.record(z.string(), z.string());
+export type QuizAnswers = z.infer<typeof QuizAnswersSchema>;
+
+// The submission recorded in the results sheet. Timing is taken from the server-side session.
+export const QuizSubmissionSchema = z.object({
+  registrationCode: z.string(),
+  sessionId: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  totalTime: z.number(),
+  totalQuestions: z.number().int().nonnegative(),
+  answeredCount: z.number().int().nonnegative(),
+  answers: QuizAnswersSchema,
+  questionIds: z.array(z.string()),
+});
+export type QuizSubmission = z.infer<typeof QuizSubmissionSchema>;
+
+export const QuestionResultSchema = z.object({
+  questionId: z.string(),
+  question: z.string().nullable(),
+  category: z.string().nullable(),
+  type: QuizQuestionTypeSchema.nullable(),
+  answer: z.string(),
+  score: z.number().nullable(),
+  feedback: z.string().nullable(),
+  feedbackSource: z.enum(['mentor', 'ai']).nullable(),
+  modelAnswer: z.string().nullable(),
+});
+export type QuestionResult = z.infer<typeof QuestionResultSchema>;
+
+export const QuizResultSchema = z.object({
+  registrationCode: z.string(),
+  quizId: z.string(),
+  quizTitle: z.string(),
+  submittedAt: z.string(),
+  totalQuestions: z.number(),
+  answeredCount: z.number(),
+  totalScore: z.number().nullable(),
+  gradingStatus: z.string(),
+  questions: z.array(QuestionResultSchema),
+});
+export type QuizResult = z.infer<typeof QuizResultSchema>;
+
+// One student's entry in data/quiz_accommodations.json. Omitted fields mean no change; numbers may be quoted.
+export const QuizAccommodationSchema = z.object({
+  timeMultiplier: z.coerce.number().min(1).default(1), // applied before extraMinutes
+  extraMinutes: z.coerce.number().min(0).default(0),
+  lateWindowMinutes: z.coerce.number().min(0).default(0), // how long after the limit a submission is still accepted
+});
+export type QuizAccommodation = z.infer<typeof QuizAccommodationSchema>;
+
+// The whole file: entries keyed by registration code, each checked on its own so one bad entry is skipped
+export const QuizAccommodationsFileSchema = z.record(z.string(), z.unknown());
+
+// --- API REQUESTS ---
+// Registration codes default to '' so the routes can answer a missing one with their own message
+
+// Body of the quiz-sessions, quiz-accommodations and quiz-results routes
+export const QuizStudentRequestSchema = z.object({
+  registrationCode: z.string().trim().default(''),
+  quizId: z.string().default(''),
+});
+export type QuizStudentRequest = z.infer<typeof QuizStudentRequestSchema>;
+
+// Query of GET /api/quiz-questions
+export const QuizQuestionsQuerySchema = z.object({
+  quizId: z.string().default(''),
+});
+
+// Body of PATCH /api/quiz-sessions/[sessionToken]
+export const SaveAnswersRequestSchema = z.object({
+  answers: QuizAnswersSchema,
+});
+
+// Body of POST /api/submit-quiz. Anything else the browser sends, timing included, is ignored.
+export const QuizSubmissionRequestSchema = z.object({
+  registrationCode: z.string().trim().default(''),
+  sessionToken: z.string().default(''),
+  answers: QuizAnswersSchema.default({}),
+  // Only used for sessions started before question ids were recorded
+  totalQuestions: z.number().int().nonnegative().optional(),
+});
+export type QuizSubmissionRequest = z.infer<typeof QuizSubmissionRequestSchema>;
@@ -1,3 +1,5 @@
+const fs = require('node:fs');
+const path = require('node:path');
 const { google } = require('googleapis');
 const dotenv = require('dotenv');
 dotenv.config();
@@ -17,7 +19,32 @@ const auth = new google.auth.GoogleAuth({
 const sheets = google.sheets({ version: 'v4', auth });
 
 /**
- * Sets up the Google Sheet with tabs for Quiz 1 through Quiz 4 
+ * Reads the tab names from the quiz catalog (same file the app uses),
+ * falling back to Quiz 1 through Quiz 4 when no catalog file exists.
+ */
+function getQuizTabNames() {
+  const catalogPath =
+    process.env.NEXT_PUBLIC_QUIZ_CATALOG_PATH ||
+    path.join(__dirname, 'data', 'quiz_catalog.json');
+
+  if (fs.existsSync(catalogPath)) {
+    const raw = JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+    const quizzes = Array.isArray(raw) ? raw : raw.quizzes || [];
+    const tabNames = quizzes
+      .filter((quiz) => quiz.id && quiz.csvFileName)
+      .map((quiz) => quiz.sheetTabName || quiz.title || quiz.id);
+
+    if (tabNames.length > 0) {
+      console.log(`📚 Using ${tabNames.length} quiz tabs from ${catalogPath}`);
+      return tabNames;
+    }
+  }
+
+  return [1, 2, 3, 4].map((i) => `Quiz ${i}`);
+}
+
+/**
+ * Sets up the Google Sheet with one tab per quiz in the catalog
  * and writes the submission headers to the first row of each tab.
  */
 async function setupQuizSheets() {
@@ -35,12 +62,23 @@ async function setupQuizSheets() {
     'completionRate', 
     'submissionTime', 
     'answersJson', 
+    // Question ids drawn for this student from the quiz's pools
+    'questionIdsJson',
+    // Filled in by the background AI grader (lib/quiz-grader.ts)
+    'questionScoresJson',
+    'totalScore',
+    'aiFeedbackJson',
+    'gradingStatus',
+    'gradedAt',
+    // Optional mentor overrides, keyed by question id; shown to students instead of the AI's
+    'mentorScoresJson',
+    'mentorFeedbackJson',
   ];
   
   // The column range will be dynamic based on the number of headers
   const endColumn = String.fromCharCode('A'.charCodeAt(0) + headers.length - 1);
   const range = `A1:${endColumn}1`; // e.g., A1:J1 for 10 headers
-  const NUM_QUIZZES = 4;
+  const quizTabNames = getQuizTabNames();
 
   console.log(`📄 Target Sheet ID: ${spreadsheetId}`);
 
@@ -54,10 +92,9 @@ async function setupQuizSheets() {
       (s) => s.properties.title
     );
 
-    // 2️⃣ Prepare requests for new tabs (Quiz 1–Quiz 4)
+    // 2️⃣ Prepare requests for new quiz tabs
     const requests = [];
-    for (let i = 1; i <= NUM_QUIZZES; i++) {
-      const tabName = `Quiz ${i}`;
+    for (const tabName of quizTabNames) {
       if (!existingSheets.includes(tabName)) {
         requests.push({
           addSheet: {
@@ -74,12 +111,11 @@ async function setupQuizSheets() {
         requestBody: { requests },
       });
     } else {
-      console.log(`✅ All Quiz 1–Quiz ${NUM_QUIZZES} tabs already exist.`);
+      console.log(`✅ All ${quizTabNames.length} quiz tabs already exist.`);
     }
 
     // 3️⃣ Write headers to each Quiz tab
-    for (let i = 1; i <= NUM_QUIZZES; i++) {
-      const tabName = `Quiz ${i}`;
+    for (const tabName of quizTabNames) {
       console.log(`✏️ Writing headers to ${tabName} in range ${range}...`);
       await sheets.spreadsheets.values.update({
         spreadsheetId,
@@ -91,7 +127,7 @@ async function setupQuizSheets() {
       });
     }
 
-    console.log(`✅ Headers written to all Quiz 1–Quiz ${NUM_QUIZZES} tabs successfully!`);
+    console.log(`✅ Headers written to all ${quizTabNames.length} quiz tabs successfully!`);
 
   } catch (error) {
     console.error('❌ Error setting up quiz sheets:', error.message);